@@ -1,22 +1,65 @@
-import React from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useState } from 'react';
 import { Background } from './components/Background';
 import { FlagScatter } from './components/FlagScatter';
+import { SettingsPanel } from './components/SettingsPanel';
+import { loadInitialConfig } from './services/gameConfig';
+import { getBackground } from './services/overlay';
+import { loadTournament, saveTournament } from './services/tournament';
+import { applyTheme, loadThemeFonts, resolveTheme } from './services/themes';
+import { Stage } from './components/Stage';
+
+const initial = loadInitialConfig();
 
 const App: React.FC = () => {
+  const [config, setConfig] = useState(initial.config);
+  const [tournament, setTournament] = useState(loadTournament);
+  const [themesVersion, setThemesVersion] = useState(0); // Bumped when custom themes are imported or deleted
+
+  // Before paint, so nothing shows unstyled
+  const theme = useMemo(() => resolveTheme(config.theme), [config.theme, themesVersion]);
+  useLayoutEffect(() => {
+    applyTheme(theme);
+    loadThemeFonts(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    saveTournament(tournament);
+  }, [tournament]);
+
+  // Overlay backgrounds replace the whole scene, including the page colour
+  const overlayColor = getBackground(config.background).color;
+  useEffect(() => {
+    document.body.style.backgroundColor = overlayColor ?? theme.palette.surface[950];
+  }, [overlayColor, theme]);
+
   return (
-    <div className="relative w-full h-screen overflow-hidden flex items-center justify-center font-sans antialiased selection:bg-cyan-500/30">
-      <Background />
+    <div className="relative w-full h-screen overflow-hidden flex items-center justify-center font-sans antialiased selection:bg-accent-500/30">
+      {!overlayColor && <Background theme={theme} />}
       
       {/* Main Visual Container */}
       <div className="relative z-10 w-full h-full flex items-center justify-center">
         {/* FlagScatter now contains the Ring and the Logic */}
-        <FlagScatter />
+        <Stage stage={config.stage}>
+          <FlagScatter config={config} tournament={tournament} onTournamentChange={setTournament} theme={theme} />
+        </Stage>
       </div>
 
       {/* Optional: Subtle Ambient Light Source at bottom */}
-      <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[600px] h-[300px] bg-cyan-500/5 blur-[100px] rounded-full pointer-events-none z-0" />
+      {!overlayColor && (
+        <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[600px] h-[300px] bg-accent-500/5 blur-[100px] rounded-full pointer-events-none z-0" />
+      )}
+
+      {/* Host settings, hidden until toggled */}
+      <SettingsPanel
+        config={config}
+        startupIssues={initial.issues}
+        onChange={setConfig}
+        tournament={tournament}
+        onTournamentChange={setTournament}
+        onThemesChange={() => setThemesVersion(v => v + 1)}
+      />
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
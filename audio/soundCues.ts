@@ -0,0 +1,85 @@
+import { World, SimulationEvent } from '../engine/simulation';
+import { Replay } from '../engine/replay';
+
+// What to play, derived from simulation events. Kept apart from the synth so
+// the live arena and the offline export turn a round into the same cues.
+
+export type SoundCue =
+  | { type: 'tick'; speed: number }     // 0-1
+  | { type: 'whoosh' }
+  | { type: 'countdown'; final: boolean }
+  | { type: 'tension'; level: number }  // 0-1, starts the drone if needed
+  | { type: 'fanfare' };                // Also ends the drone
+
+export interface TimedCue {
+  time: number; // Simulated ms
+  cue: SoundCue;
+}
+
+export const COUNTDOWN_MS = [3000, 2000, 1000]; // Pips before the scatter
+const TICK_FULL_SPEED = 300; // Impact speed (units/s) of the highest, loudest tick
+
+// 0 with the full field in, 1 once only two flags are left
+export const tensionLevel = (remaining: number, total: number) =>
+  total <= 2 ? 1 : Math.min(1, Math.max(0, 1 - (remaining - 2) / (total - 2)));
+
+// Countdown pips whose moment falls in (sinceTime, untilTime]
+const countdownCues = (formationEndsAt: number, sinceTime: number, untilTime: number): TimedCue[] =>
+  COUNTDOWN_MS
+    .map(ms => formationEndsAt - ms)
+    .filter(time => time > sinceTime && time <= untilTime)
+    .map(time => ({ time, cue: { type: 'countdown', final: false } }));
+
+// Cues for the events drained after advancing the world from `sinceTime`
+export const soundCues = (world: World, events: SimulationEvent[], sinceTime: number): TimedCue[] => {
+  const total = world.flags.length;
+  const cues: TimedCue[] = countdownCues(world.formationEndsAt, sinceTime, world.time);
+
+  events.forEach(e => {
+    switch (e.type) {
+      case 'scatterStarted':
+        cues.push({ time: e.time, cue: { type: 'countdown', final: true } });
+        cues.push({ time: e.time, cue: { type: 'tension', level: 0 } });
+        break;
+      case 'bounced':
+        cues.push({ time: e.time, cue: { type: 'tick', speed: Math.min(1, e.speed / TICK_FULL_SPEED) } });
+        break;
+      case 'eliminated':
+        cues.push({ time: e.elimination.time, cue: { type: 'whoosh' } });
+        cues.push({ time: e.elimination.time, cue: { type: 'tension', level: tensionLevel(e.elimination.place - 1, total) } });
+        break;
+      case 'powerUp':
+      case 'shieldUsed':
+        cues.push({ time: e.time, cue: { type: 'tick', speed: 1 } });
+        break;
+      case 'suddenDeath':
+        cues.push({ time: e.time, cue: { type: 'tension', level: 1 } });
+        break;
+      case 'winner':
+        cues.push({ time: e.time, cue: { type: 'fanfare' } });
+        break;
+    }
+  });
+  return cues.sort((a, b) => a.time - b.time);
+};
+
+// Cues for a saved replay. Replays keep no bounces, so there are no ticks,
+// and the scatter is only known to the nearest sample.
+export const replaySoundCues = (replay: Replay): TimedCue[] => {
+  const total = replay.entrants.length;
+  const scatter = replay.frames.find(f => f.scattering);
+  const scatterAt = scatter ? scatter.tick * replay.tickMs : 0;
+  const end = replay.frames[replay.frames.length - 1];
+
+  const cues: TimedCue[] = [
+    ...countdownCues(scatterAt, 0, scatterAt),
+    { time: scatterAt, cue: { type: 'countdown', final: true } },
+    { time: scatterAt, cue: { type: 'tension', level: 0 } },
+    ...replay.eliminations.flatMap((e): TimedCue[] => [
+      { time: e.time, cue: { type: 'whoosh' } },
+      { time: e.time, cue: { type: 'tension', level: tensionLevel(e.place - 1, total) } }
+    ])
+  ];
+  if (replay.winner && end) cues.push({ time: end.tick * replay.tickMs, cue: { type: 'fanfare' } });
+  return cues.sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,107 @@
+import { SoundCue } from './soundCues';
+import { Drone, playCountdown, playFanfare, playTick, playWhoosh, startDrone } from './voices';
+
+// Mixer for the synthesized effects: a master gain with one gain per
+// category, so each can be muted live without cutting what is already sounding.
+
+export const SOUND_CATEGORIES = ['ticks', 'whoosh', 'drone', 'countdown', 'fanfare'] as const;
+export type SoundCategory = typeof SOUND_CATEGORIES[number];
+
+export interface SoundSettings {
+  volume: number; // Master, 0-1
+  enabled: Record<SoundCategory, boolean>;
+}
+
+export interface SoundEngine {
+  context: BaseAudioContext;
+  output: AudioNode; // Final mix, already playing; connect a recorder here to capture it
+  play: (cue: SoundCue, at?: number) => void; // `at` in context seconds, default now
+  setSettings: (settings: SoundSettings) => void;
+  reset: () => void; // Fade out the drone, e.g. when a round is abandoned
+}
+
+const CATEGORY_OF: Record<SoundCue['type'], SoundCategory> = {
+  tick: 'ticks',
+  whoosh: 'whoosh',
+  countdown: 'countdown',
+  tension: 'drone',
+  fanfare: 'fanfare'
+};
+
+// Many flags can bounce in the same instant; a burst is capped so it reads
+// as a clatter instead of clipping
+const TICK_WINDOW_S = 0.06;
+const MAX_TICKS_PER_WINDOW = 4;
+const FADE_S = 0.05;
+
+export const createSoundEngine = (context: BaseAudioContext, settings: SoundSettings): SoundEngine => {
+  const master = context.createGain();
+  master.connect(context.destination);
+  const buses = Object.fromEntries(
+    SOUND_CATEGORIES.map(category => {
+      const gain = context.createGain();
+      gain.connect(master);
+      return [category, gain];
+    })
+  ) as Record<SoundCategory, GainNode>;
+
+  let current = settings;
+  let drone: Drone | null = null;
+  let recentTicks: number[] = [];
+
+  const setSettings = (next: SoundSettings) => {
+    current = next;
+    const now = context.currentTime;
+    master.gain.setTargetAtTime(next.volume, now, FADE_S);
+    SOUND_CATEGORIES.forEach(category => {
+      buses[category].gain.setTargetAtTime(next.enabled[category] ? 1 : 0, now, FADE_S);
+    });
+  };
+
+  // Initial levels without a fade
+  master.gain.value = settings.volume;
+  SOUND_CATEGORIES.forEach(category => {
+    buses[category].gain.value = settings.enabled[category] ? 1 : 0;
+  });
+
+  const stopDrone = (at: number) => {
+    drone?.stop(at);
+    drone = null;
+  };
+
+  const play = (cue: SoundCue, at = context.currentTime) => {
+    const bus = buses[CATEGORY_OF[cue.type]];
+    switch (cue.type) {
+      case 'tick':
+        // Muted ticks are skipped outright, there can be hundreds a second
+        if (!current.enabled.ticks) return;
+        recentTicks = recentTicks.filter(t => t > at - TICK_WINDOW_S);
+        if (recentTicks.length >= MAX_TICKS_PER_WINDOW) return;
+        recentTicks.push(at);
+        playTick(context, bus, at, cue.speed);
+        break;
+      case 'whoosh':
+        playWhoosh(context, bus, at);
+        break;
+      case 'countdown':
+        playCountdown(context, bus, at, cue.final);
+        break;
+      case 'tension':
+        drone ??= startDrone(context, bus, at);
+        drone.setTension(cue.level, at);
+        break;
+      case 'fanfare':
+        stopDrone(at);
+        playFanfare(context, bus, at);
+        break;
+    }
+  };
+
+  return {
+    context,
+    output: master,
+    play,
+    setSettings,
+    reset: () => stopDrone(context.currentTime)
+  };
+};
@@ -0,0 +1,156 @@
+// Synthesized sound effects. Every voice is built from oscillators, filters
+// and a noise buffer at the moment it plays, so no audio files are needed.
+// Written against BaseAudioContext so the same voices play live through an
+// AudioContext and render offline for the video export.
+
+const NOISE_SECONDS = 1;
+const SILENT = 0.0001; // Exponential ramps cannot reach zero
+
+// One white noise buffer per context, shared by every noisy voice
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const noiseBuffer = (ctx: BaseAudioContext) => {
+  let buffer = noiseBuffers.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, Math.floor(ctx.sampleRate * NOISE_SECONDS), ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+// Percussive attack/release on a gain param
+const pluck = (param: AudioParam, at: number, peak: number, attack: number, release: number) => {
+  param.setValueAtTime(SILENT, at);
+  param.exponentialRampToValueAtTime(peak, at + attack);
+  param.exponentialRampToValueAtTime(SILENT, at + attack + release);
+};
+
+const tone = (ctx: BaseAudioContext, out: AudioNode, at: number, type: OscillatorType, frequency: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, at);
+  osc.connect(gain);
+  gain.connect(out);
+  return { osc, gain };
+};
+
+// Short wooden tick; `speed` (0-1) raises the pitch and the level
+export const playTick = (ctx: BaseAudioContext, out: AudioNode, at: number, speed: number) => {
+  const { osc, gain } = tone(ctx, out, at, 'triangle', 420 + speed * 900);
+  osc.frequency.exponentialRampToValueAtTime(300 + speed * 500, at + 0.04);
+  pluck(gain.gain, at, 0.08 + speed * 0.17, 0.002, 0.05);
+  osc.start(at);
+  osc.stop(at + 0.07);
+};
+
+// Filtered noise sweeping upwards as a flag flies out of the ring
+export const playWhoosh = (ctx: BaseAudioContext, out: AudioNode, at: number) => {
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = noiseBuffer(ctx);
+  filter.type = 'bandpass';
+  filter.Q.value = 1.5;
+  filter.frequency.setValueAtTime(350, at);
+  filter.frequency.exponentialRampToValueAtTime(3200, at + 0.4);
+  pluck(gain.gain, at, 0.45, 0.1, 0.35);
+  source.connect(filter);
+  filter.connect(gain);
+  gain.connect(out);
+  source.start(at);
+  source.stop(at + 0.5);
+};
+
+// Countdown pips; the final one ("go") is higher and held longer
+export const playCountdown = (ctx: BaseAudioContext, out: AudioNode, at: number, final: boolean) => {
+  const { osc, gain } = tone(ctx, out, at, 'sine', final ? 1320 : 880);
+  const length = final ? 0.45 : 0.14;
+  pluck(gain.gain, at, 0.3, 0.005, length);
+  osc.start(at);
+  osc.stop(at + length + 0.02);
+};
+
+const FANFARE_NOTES = [523.25, 659.25, 783.99, 1046.5]; // C5 E5 G5 C6
+const FANFARE_STEP = 0.13;
+
+// Rising arpeggio into a held chord
+export const playFanfare = (ctx: BaseAudioContext, out: AudioNode, at: number) => {
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 2600;
+  filter.connect(out);
+
+  FANFARE_NOTES.forEach((frequency, i) => {
+    const start = at + i * FANFARE_STEP;
+    const last = i === FANFARE_NOTES.length - 1;
+    const hold = last ? 1.4 : 1.4 - i * FANFARE_STEP * 0.5; // Earlier notes ring on under the top one
+    [['sawtooth', frequency, 0.07], ['triangle', frequency / 2, 0.1]].forEach(([type, f, peak]) => {
+      const { osc, gain } = tone(ctx, filter, start, type as OscillatorType, f as number);
+      pluck(gain.gain, start, peak as number, 0.02, hold);
+      osc.start(start);
+      osc.stop(start + hold + 0.05);
+    });
+  });
+};
+
+export interface Drone {
+  setTension: (level: number, at: number) => void; // 0 calm .. 1 two flags left
+  stop: (at: number) => void;
+}
+
+const DRONE_ROOT = 55; // A1
+const DRONE_GLIDE = 0.8;
+const droneCutoff = (tension: number) => 180 + tension * 1600;
+const droneLevel = (tension: number) => 0.05 + tension * 0.1;
+
+// Two detuned saws through a lowpass; tension raises pitch, brightness and
+// level. Each glide starts from the last target rather than the param's
+// current value, so cues scheduled ahead of time (offline export) join up.
+export const startDrone = (ctx: BaseAudioContext, out: AudioNode, at: number): Drone => {
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  filter.type = 'lowpass';
+  filter.connect(gain);
+  gain.connect(out);
+
+  const oscs = [1, 1.006].map(detune => {
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(DRONE_ROOT * detune, at);
+    osc.connect(filter);
+    osc.start(at);
+    return { osc, detune };
+  });
+
+  const glide = (param: AudioParam, from: number, to: number, when: number) => {
+    param.setValueAtTime(from, when);
+    param.linearRampToValueAtTime(to, when + DRONE_GLIDE);
+  };
+
+  let tension = 0;
+  let level = SILENT;
+  filter.frequency.setValueAtTime(droneCutoff(0), at);
+  gain.gain.setValueAtTime(SILENT, at);
+
+  const setTension = (next: number, when: number) => {
+    const t = Math.min(1, Math.max(0, next));
+    oscs.forEach(({ osc, detune }) => glide(osc.frequency, DRONE_ROOT * detune * (1 + tension), DRONE_ROOT * detune * (1 + t), when));
+    glide(filter.frequency, droneCutoff(tension), droneCutoff(t), when);
+    glide(gain.gain, level, droneLevel(t), when);
+    tension = t;
+    level = droneLevel(t);
+  };
+  setTension(0, at);
+
+  return {
+    setTension,
+    stop: when => {
+      gain.gain.setValueAtTime(level, when);
+      gain.gain.exponentialRampToValueAtTime(SILENT, when + 0.6);
+      oscs.forEach(({ osc }) => osc.stop(when + 0.7));
+    }
+  };
+};
@@ -0,0 +1,39 @@
+// 16-bit PCM WAV encoding of a rendered AudioBuffer, for the offline export.
+// Samples are interleaved per frame and clamped to [-1, 1].
+
+const HEADER_BYTES = 44;
+
+export const encodeWav = (buffer: AudioBuffer): Uint8Array => {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const dataBytes = frames * channels * 2;
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  text(0, 'RIFF');
+  view.setUint32(4, HEADER_BYTES - 8 + dataBytes, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);                              // fmt chunk size
+  view.setUint16(20, 1, true);                               // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true); // Byte rate
+  view.setUint16(32, channels * 2, true);                    // Block align
+  view.setUint16(34, 16, true);                              // Bits per sample
+  text(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, data[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Uint8Array(view.buffer);
+};
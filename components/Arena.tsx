@@ -0,0 +1,45 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Entrant } from '../types';
+import { EngineConfig } from '../engine/config';
+import { ARENA_STAGE_FRACTION, ArenaHandle, RendererId, pixelsPerUnit } from '../renderer/arenaRenderer';
+import { DomArena } from './DomArena';
+import { CanvasArena } from './CanvasArena';
+import { Theme } from '../services/themes';
+
+export interface ArenaProps {
+  entrants: Entrant[];     // In the same order as the flags of every pose
+  config: EngineConfig;
+  champion: string | null; // Winner id once the champion screen starts
+  theme: Theme;
+  ref?: React.Ref<ArenaHandle>;
+}
+
+// What the renderers get on top: the measured pixels per arena unit
+export type ArenaRendererProps = ArenaProps & { unit: number };
+
+// CSS size of the ring's box, relative to the stage's short side (see Stage)
+export const arenaBoxSize = (fraction = ARENA_STAGE_FRACTION) => `calc(var(--stage-short, 100vmin) * ${fraction})`;
+
+// The ring box, drawn by whichever renderer the config selects
+export const Arena: React.FC<ArenaProps & { renderer: RendererId; size?: number }> = ({ renderer, size, ...props }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [boxPx, setBoxPx] = useState(0);
+
+  // Layout size, so a scaled overlay stage does not change the mapping
+  useEffect(() => {
+    const box = boxRef.current;
+    if (!box) return;
+    const observer = new ResizeObserver(([entry]) => setBoxPx(entry.contentRect.width));
+    observer.observe(box);
+    return () => observer.disconnect();
+  }, []);
+
+  const unit = pixelsPerUnit(boxPx, props.config);
+  const side = arenaBoxSize(size);
+
+  return (
+    <div ref={boxRef} className="relative flex items-center justify-center" style={{ width: side, height: side }}>
+      {renderer === 'canvas' ? <CanvasArena {...props} unit={unit} /> : <DomArena {...props} unit={unit} />}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { motion, MotionValue } from 'framer-motion';
+import { EntityShape } from '../engine/entities';
+import { POWER_STYLES } from '../renderer/flagVisuals';
+
+export interface EntityMotionValues {
+  x: MotionValue<number>;
+  y: MotionValue<number>;
+  angle: MotionValue<number>;
+}
+
+export const createEntityMotionValues = (): EntityMotionValues => ({
+  x: new MotionValue(0),
+  y: new MotionValue(0),
+  angle: new MotionValue(0)
+});
+
+interface ArenaEntityProps extends EntityMotionValues {
+  shape: EntityShape;
+  active: boolean;
+  unit: number; // Pixels per arena unit
+}
+
+// One bumper, bar or pickup, positioned by the physics loop through MotionValues
+export const ArenaEntity: React.FC<ArenaEntityProps> = ({ shape, active, unit, x, y, angle }) => {
+  const r = shape.radius * unit;
+
+  if (shape.kind === 'bar') {
+    const w = shape.width * unit;
+    return (
+      <motion.div
+        className="absolute rounded-full bg-gradient-to-r from-accent-400 via-accent-200 to-accent-400 shadow-glow"
+        style={{ width: r * 2, height: w, marginLeft: -r, marginTop: -w / 2, x, y, rotate: angle, zIndex: 5 }}
+      />
+    );
+  }
+
+  if (shape.kind === 'bumper') {
+    return (
+      <motion.div
+        className="absolute rounded-full border-2 border-accent-400 bg-accent-500/15 shadow-glow flex items-center justify-center"
+        style={{ width: r * 2, height: r * 2, marginLeft: -r, marginTop: -r, x, y, zIndex: 5 }}
+      >
+        <div className="w-1/2 h-1/2 rounded-full bg-accent-400/40" />
+      </motion.div>
+    );
+  }
+
+  const style = POWER_STYLES[shape.power ?? 'shield'];
+  return (
+    <motion.div
+      className="absolute rounded-full border-2 flex items-center justify-center font-black font-mono transition-opacity duration-300"
+      style={{
+        width: r * 2,
+        height: r * 2,
+        marginLeft: -r,
+        marginTop: -r,
+        x,
+        y,
+        zIndex: 5,
+        opacity: active ? 1 : 0,
+        borderColor: style.color,
+        color: style.color,
+        backgroundColor: `${style.color}26`,
+        boxShadow: `0 0 ${r}px ${style.color}`,
+        fontSize: r * 1.1
+      }}
+      title={style.label}
+    >
+      <span className="animate-pulse leading-none">{style.glyph}</span>
+    </motion.div>
+  );
+};
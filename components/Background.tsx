@@ -1,19 +1,27 @@
 import React from 'react';
+import { Theme } from '../services/themes';
 
-export const Background: React.FC = () => {
+export const Background: React.FC<{ theme: Theme }> = ({ theme }) => {
+  const { from, via, to, vignette, tint, noise, image } = theme.background;
   return (
     <div className="fixed inset-0 z-0">
-      {/* Deep Navy/Black Gradient */}
-      <div className="absolute inset-0 bg-gradient-to-br from-slate-900 via-[#020617] to-black" />
-      
+      {/* Diagonal base gradient */}
+      <div className="absolute inset-0" style={{ background: `linear-gradient(to bottom right, ${from}, ${via}, ${to})` }} />
+
+      {/* Theme backdrop, e.g. a sponsor image */}
+      {image && <div className="absolute inset-0 bg-cover bg-center" style={{ backgroundImage: `url("${image}")` }} />}
+
       {/* Vignette */}
-      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_0%,rgba(0,0,0,0.6)_100%)]" />
-      
-      {/* Subtle Blue Tint Overlay in Center */}
-      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,rgba(6,182,212,0.05)_0%,transparent_60%)]" />
-      
+      <div
+        className="absolute inset-0"
+        style={{ background: `radial-gradient(circle at center, transparent 0%, rgba(0,0,0,${vignette}) 100%)` }}
+      />
+
+      {/* Subtle tint in the centre */}
+      <div className="absolute inset-0" style={{ background: `radial-gradient(circle at center, ${tint} 0%, transparent 60%)` }} />
+
       {/* Noise Texture (via CSS class in index.html, placed here for reference but rendered globally) */}
-      <div className="bg-noise" />
+      <div className="bg-noise" style={{ opacity: noise }} />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Entrant } from '../types';
+import { Tournament, currentHeat, heatAdvancers } from '../services/tournament';
+import { FlagImage } from './FlagImage';
+
+interface BracketViewProps {
+  tournament: Tournament;
+  nextInSeconds: number | null; // null while the host starts the next heat by hand
+}
+
+// Between heats: every stage as a column, finished heats showing who went
+// through, the next heat highlighted.
+export const BracketView: React.FC<BracketViewProps> = ({ tournament, nextInSeconds }) => {
+  const byId = new Map<string, Entrant>(tournament.entrants.map(e => [e.id, e]));
+  const next = currentHeat(tournament);
+
+  return (
+    <motion.div
+      className="absolute inset-0 z-[45] flex flex-col items-center justify-center gap-4 bg-surface-950/80 backdrop-blur-sm p-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <div className="text-accent-400 text-xs tracking-[0.5em] font-bold uppercase">Tournament</div>
+
+      <div className="flex items-start gap-4 max-w-full overflow-x-auto">
+        {tournament.stages.map((stage, si) => (
+          <div key={si} className="flex flex-col gap-2 min-w-[150px]">
+            <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase text-center">{stage.name}</div>
+            {stage.heats.map(heat => {
+              const isNext = next?.heat.id === heat.id;
+              const advancers = heatAdvancers(tournament, heat);
+              return (
+                <div
+                  key={heat.id}
+                  className={`rounded-lg border px-3 py-2 bg-surface-900/80 ${isNext ? 'border-accent-400 shadow-glow-md' : 'border-accent-500/20'}`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-1 text-[10px]">
+                    <span className="text-surface-300 font-bold uppercase tracking-wider">{heat.name}</span>
+                    <span className="text-surface-500 font-mono">{isNext ? 'next' : heat.placements ? 'done' : `${heat.entrants.length}`}</span>
+                  </div>
+                  {heat.placements ? (
+                    <div className="flex flex-col gap-0.5">
+                      {advancers.map(id => {
+                        const entrant = byId.get(id);
+                        return entrant && (
+                          <div key={id} className="flex items-center gap-1.5 text-[10px] text-surface-300">
+                            <FlagImage entrant={entrant} className="w-4 h-3 object-cover rounded-[2px] border border-white/10" />
+                            <span className="truncate max-w-[110px]">{entrant.name}</span>
+                          </div>
+                        );
+                      })}
+                      <span className="text-surface-600 text-[9px] font-mono">+{heat.placements.length - advancers.length} out</span>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-0.5 max-w-[150px]">
+                      {heat.entrants.map(id => {
+                        const entrant = byId.get(id);
+                        return entrant && (
+                          <FlagImage key={id} entrant={entrant} className="w-4 h-3 object-cover rounded-[2px] border border-white/10" />
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {next && (
+        <div className="text-accent-200/50 text-xs tracking-widest uppercase">
+          {next.stage.final ? 'Final' : next.heat.name} {nextInSeconds !== null ? `in ${nextInSeconds}s...` : 'up next'}
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useEffect, useImperativeHandle, useRef } from 'react';
+import { Entrant } from '../types';
+import { ArenaRendererProps } from './Arena';
+import { WinnerState, cameraLayout, drawArena } from '../renderer/canvasRenderer';
+import { IDLE_CAMERA } from '../renderer/camera';
+import { flagCanvasAssets, preloadFlags } from '../services/flagAssets';
+
+// Single <canvas> renderer: every flag is a batched sprite draw instead of a
+// DOM node, which keeps 200+ entrants smooth on modest streaming PCs. It
+// covers the viewport (or the scaled overlay stage, which becomes the fixed
+// containing block) because exiting flags fly well past the ring's box.
+export const CanvasArena: React.FC<ArenaRendererProps> = ({ entrants, config, champion, theme, unit, ref }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const winnerRef = useRef<{ entrant: Entrant; from: { x: number; y: number }; startedAt: number } | null>(null);
+
+  // Usually already done before the round started; cheap if so
+  useEffect(() => {
+    preloadFlags(entrants);
+  }, [entrants]);
+
+  useImperativeHandle(ref, () => ({
+    render: (pose, clock, view) => {
+      const canvas = canvasRef.current;
+      const box = boxRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !box || !ctx) return;
+
+      // The winner's flight starts from wherever it was on the first champion frame
+      if (!champion) {
+        winnerRef.current = null;
+      } else if (winnerRef.current?.entrant.id !== champion) {
+        const index = entrants.findIndex(e => e.id === champion);
+        const { x, y } = pose.flags[index] ?? { x: 0, y: 0 };
+        winnerRef.current = { entrant: entrants[index] ?? { id: champion, name: champion }, from: { x, y }, startedAt: clock };
+      }
+      const winner: WinnerState | null = winnerRef.current && {
+        entrant: winnerRef.current.entrant,
+        from: winnerRef.current.from,
+        elapsed: clock - winnerRef.current.startedAt
+      };
+
+      // Layout CSS pixels, before any stage scaling. Match the backing store
+      // to the on-screen size so a scaled-up stage stays sharp.
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      const canvasRect = canvas.getBoundingClientRect();
+      const zoom = width > 0 ? canvasRect.width / width : 1;
+      const dpr = (window.devicePixelRatio || 1) * zoom;
+      const backingWidth = Math.round(width * dpr);
+      const backingHeight = Math.round(height * dpr);
+      if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+        canvas.width = backingWidth;
+        canvas.height = backingHeight;
+      }
+
+      const rect = box.getBoundingClientRect();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      // Same units-to-pixels mapping as the DOM renderer
+      const layout = cameraLayout({
+        width,
+        height,
+        cx: (rect.left - canvasRect.left + rect.width / 2) / zoom,
+        cy: (rect.top - canvasRect.top + rect.height / 2) / zoom,
+        unit,
+        arena: rect.width / zoom,
+        ui: 1
+      }, view?.camera ?? IDLE_CAMERA);
+      drawArena(ctx, { pose, entrants, config, clock, champion: winner, highlights: view?.highlights, theme }, layout, flagCanvasAssets);
+    }
+  }), [entrants, config, champion, theme, unit]);
+
+  return (
+    <div ref={boxRef} className="absolute inset-0 pointer-events-none">
+      <canvas ref={canvasRef} className="fixed inset-0 w-full h-full z-10" />
+    </div>
+  );
+};
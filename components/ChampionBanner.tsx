@@ -0,0 +1,67 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ordinal } from '../utils/format';
+import { Entrant } from '../types';
+import { FlagImage } from './FlagImage';
+import { Theme } from '../services/themes';
+
+interface ChampionBannerProps {
+  podium: Entrant[]; // Winner first
+  restartSeconds: number | null; // null while the host starts the next round by hand
+  title?: string; // Defaults to the theme's
+  theme: Theme;
+}
+
+// Final screen: champion name with the runners-up underneath, plus the
+// theme's logo and tagline. Placed by its overlay slot.
+export const ChampionBanner: React.FC<ChampionBannerProps> = ({ podium, restartSeconds, title, theme }) => {
+  const [champion, ...runnersUp] = podium;
+  if (!champion) return null;
+  const { banner } = theme;
+
+  return (
+    <motion.div
+      className="flex flex-col items-center justify-center"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ delay: 0.5 }}
+    >
+      {banner.logo && <img src={banner.logo} alt="" className="max-h-16 max-w-[240px] object-contain mb-3" />}
+      <div className="text-accent-400 text-sm tracking-[0.5em] font-bold uppercase mb-2">{title ?? banner.title}</div>
+      <h1 className="text-ink text-5xl font-black uppercase drop-shadow-glow font-display">
+        {champion.name}
+      </h1>
+      {banner.tagline && (
+        <div className="mt-2 text-surface-300 text-xs tracking-[0.3em] uppercase">{banner.tagline}</div>
+      )}
+
+      {runnersUp.length > 0 && (
+        <div className="mt-5 flex items-end gap-6">
+          {runnersUp.map((entry, i) => (
+            <motion.div
+              key={entry.id}
+              className="flex flex-col items-center gap-1"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.9 + i * 0.2 }}
+            >
+              <span className={`text-[10px] font-mono font-bold ${i === 0 ? 'text-surface-300' : 'text-amber-600'}`}>
+                {ordinal(i + 2)}
+              </span>
+              <FlagImage
+                entrant={entry}
+                className="w-10 h-7 object-cover rounded-sm border border-white/20 shadow-lg"
+              />
+              <span className="text-surface-300 text-xs font-bold uppercase tracking-wider">{entry.name}</span>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 text-accent-200/50 text-xs tracking-widest uppercase">
+        {restartSeconds !== null ? `Restarting in ${restartSeconds}s...` : 'Next round soon'}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { motion, useMotionValue } from 'framer-motion';
+import { FlagStatus } from '../types';
+import { ArenaRendererProps } from './Arena';
+import { GlowingRing, RingView, createRingView, updateRingView, RING_VIEWBOX_RADIUS } from './GlowingRing';
+import { PhysicsFlag, WinnerFlag, createFlagMotionValues } from './PhysicsFlag';
+import { ArenaEntity, EntityMotionValues, createEntityMotionValues } from './ArenaEntity';
+import { EntityShape } from '../engine/entities';
+import { flagVisual } from '../renderer/flagVisuals';
+import { HIGHLIGHT_MS, Highlight, IDLE_CAMERA } from '../renderer/camera';
+
+// The original renderer: an SVG ring plus one motion.div per flag, driven
+// through MotionValues so React only re-renders when a flag changes status.
+// The SVG fills the box; flags and camera are scaled from arena units by `unit`.
+export const DomArena: React.FC<ArenaRendererProps> = ({ entrants, config, champion, theme, unit, ref }) => {
+  const [statuses, setStatuses] = useState<FlagStatus[]>([]);
+  const [rings, setRings] = useState<RingView[]>([]);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [effects, setEffects] = useState<number[]>([]);
+  const [entityShapes, setEntityShapes] = useState<EntityShape[]>([]);
+  const [entityActive, setEntityActive] = useState<boolean[]>([]);
+  const ringOpacity = useMotionValue(1);
+  const cameraX = useMotionValue(0);
+  const cameraY = useMotionValue(0);
+  const cameraZoom = useMotionValue(1);
+
+  const ringViews = useRef<RingView[]>([]);
+  const statusesRef = useRef<FlagStatus[]>([]);
+  const highlightsRef = useRef<Highlight[]>([]);
+  const effectsRef = useRef<number[]>([]);
+  const entityActiveRef = useRef<boolean[]>([]);
+  const entityValues = useRef<EntityMotionValues[]>([]);
+  const flagValues = useMemo(
+    () => entrants.map(() => createFlagMotionValues(0, 0, 0)),
+    [entrants]
+  );
+
+  // New round: forget the last one's statuses until its first frame arrives
+  useEffect(() => {
+    statusesRef.current = [];
+    setStatuses([]);
+    effectsRef.current = [];
+    setEffects([]);
+    entityActiveRef.current = [];
+    entityValues.current = [];
+    setEntityActive([]);
+    setEntityShapes([]);
+  }, [entrants]);
+
+  useEffect(() => {
+    ringOpacity.set(champion ? 0 : 1);
+  }, [champion, ringOpacity]);
+
+  useImperativeHandle(ref, () => ({
+    render: (pose, clock, view) => {
+      const camera = view?.camera ?? IDLE_CAMERA;
+      cameraX.set(-camera.x * camera.zoom * unit);
+      cameraY.set(-camera.y * camera.zoom * unit);
+      cameraZoom.set(camera.zoom);
+
+      // One rotating arc layer per ring in the current mode
+      if (ringViews.current.length !== pose.rings.length) {
+        ringViews.current = pose.rings.map(createRingView);
+        setRings(ringViews.current);
+      }
+      const scale = RING_VIEWBOX_RADIUS / config.boundaryRadius;
+      pose.rings.forEach((ring, i) => {
+        updateRingView(ringViews.current[i], ring.angle, ring.radius, ring.gaps, scale);
+      });
+
+      // Obstacles and pickups; their shapes are fixed for the round
+      if (entityValues.current.length !== pose.entities.length) {
+        entityValues.current = pose.entities.map(createEntityMotionValues);
+        setEntityShapes(pose.entities.map(({ kind, radius, width, power }) => ({ kind, radius, width, power })));
+      }
+      pose.entities.forEach((e, i) => {
+        const mv = entityValues.current[i];
+        mv.x.set(e.x * unit);
+        mv.y.set(e.y * unit);
+        mv.angle.set(e.angle);
+      });
+      const nextActive = pose.entities.map(e => e.active);
+      if (nextActive.some((a, i) => a !== entityActiveRef.current[i])) {
+        entityActiveRef.current = nextActive;
+        setEntityActive(nextActive);
+      }
+
+      const fadeStart = pose.rings[pose.rings.length - 1]?.radius ?? config.boundaryRadius;
+      const fadeEnd = config.boundaryRadius * config.exitDistance;
+      pose.flags.forEach((f, i) => {
+        const mv = flagValues[i];
+        if (!mv || f.status === 'eliminated') return;
+        mv.x.set(f.x * unit);
+        mv.y.set(f.y * unit);
+        mv.angle.set(f.angle);
+        const visual = flagVisual({ ...f, scattering: pose.scattering, time: clock, fadeStart, fadeEnd });
+        mv.scale.set(visual.scale * unit);
+        mv.opacity.set(visual.opacity);
+      });
+
+      // Only re-render React when something visible to it changed
+      const next = pose.flags.map(f => f.status);
+      if (next.some((s, i) => s !== statusesRef.current[i])) {
+        statusesRef.current = next;
+        setStatuses(next);
+      }
+      const nextEffects = pose.flags.map(f => f.effects);
+      if (nextEffects.some((m, i) => m !== (effectsRef.current[i] ?? 0))) {
+        effectsRef.current = nextEffects;
+        setEffects(nextEffects);
+      }
+      const nextHighlights = view?.highlights ?? [];
+      if (nextHighlights !== highlightsRef.current) {
+        highlightsRef.current = nextHighlights;
+        setHighlights(nextHighlights);
+      }
+    }
+  }), [entrants, config, unit, flagValues, cameraX, cameraY, cameraZoom]);
+
+  return (
+    <motion.div className="absolute inset-0" style={{ x: cameraX, y: cameraY, scale: cameraZoom }}>
+      <GlowingRing rings={rings} opacity={ringOpacity} theme={theme} />
+
+      <div className="absolute inset-0 overflow-visible pointer-events-none">
+        <div className="absolute top-1/2 left-1/2 w-0 h-0">
+          {!champion && entityShapes.map((shape, i) => {
+            const mv = entityValues.current[i];
+            return mv && <ArenaEntity key={i} shape={shape} active={entityActive[i] ?? true} unit={unit} {...mv} />;
+          })}
+
+          {entrants.map((entrant, i) => {
+            const status = statuses[i];
+            if (!status || status === 'eliminated') return null; // Nothing to show before the first frame
+            const mv = flagValues[i];
+
+            if (entrant.id === champion) {
+              return <WinnerFlag key={entrant.id} flag={{ ...entrant, status }} x={mv.x.get()} y={mv.y.get()} />;
+            }
+
+            return (
+              <PhysicsFlag
+                key={entrant.id}
+                flag={{ ...entrant, status }}
+                effects={effects[i]}
+                {...mv}
+              />
+            );
+          })}
+
+          {/* Near-miss flashes, following their flag */}
+          {highlights.map(h => {
+            const mv = flagValues[entrants.findIndex(e => e.id === h.id)];
+            return mv && (
+              <motion.div
+                key={`${h.id}-${h.at}`}
+                className="absolute -ml-5 -mt-5 w-10 h-10 rounded-full border-2 border-amber-400 shadow-[0_0_12px_rgba(251,191,36,0.8)]"
+                style={{ x: mv.x, y: mv.y, zIndex: 20 }}
+                initial={{ scale: 0.8, opacity: 1 }}
+                animate={{ scale: 1.8, opacity: 0 }}
+                transition={{ duration: HIGHLIGHT_MS / 1000, ease: 'easeOut' }}
+              >
+                <span className="absolute -top-4 left-1/2 -translate-x-1/2 text-amber-400 text-[9px] font-bold font-mono">CLOSE!</span>
+              </motion.div>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { Entrant } from '../types';
+import { entrantImageUrl } from '../services/flagAssets';
+import { fallbackColor, tileLabel } from '../renderer/flagVisuals';
+
+interface FlagImageProps {
+  entrant: Pick<Entrant, 'id' | 'name' | 'image' | 'country'>;
+  className?: string;
+}
+
+// An entrant's image or bundled flag, or a generated tile when there is no
+// image or it fails to load. The tile scales with whatever box it is given.
+export const FlagImage: React.FC<FlagImageProps> = ({ entrant, className = 'w-full h-full object-cover' }) => {
+  const [failed, setFailed] = useState(false);
+  const src = entrantImageUrl(entrant);
+
+  useEffect(() => setFailed(false), [src]);
+
+  if (!src || failed) {
+    return (
+      <svg className={className} viewBox="0 0 40 30" preserveAspectRatio="xMidYMid slice" role="img" aria-label={entrant.name}>
+        <rect width="40" height="30" fill={fallbackColor(entrant.id)} />
+        <text
+          x="20"
+          y="15"
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontFamily="monospace"
+          fontWeight="bold"
+          fontSize="13"
+          fill="rgba(255,255,255,0.9)"
+        >
+          {tileLabel(entrant)}
+        </text>
+      </svg>
+    );
+  }
+
+  return <img src={src} alt={entrant.name} className={className} draggable={false} onError={() => setFailed(true)} />;
+};
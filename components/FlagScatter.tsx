@@ -1,511 +1,638 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { motion, useMotionValue, useAnimationFrame, AnimatePresence, MotionValue } from 'framer-motion';
-import { CountryFlag, PhysicsState } from '../types';
-import { GlowingRing } from './GlowingRing';
-
-// --- CONFIGURATION ---
-const BOUNDARY_RADIUS = 160; // Logical radius for collision (match SVG ~48% of 320-420px)
-const INITIAL_RADIUS = 95;   // Initial formation radius
-const FLAG_RADIUS = 12;      // Approximation of flag size for collision
-const BASE_SPEED = 2.0;      // REDUCED SPEED: Slower, floatier movement
-const ROTATION_SPEED = 0.8;  // Degrees per frame for the outer ring
-const FORMATION_SPIN_SPEED = 0.005; // Radians per frame for initial formation spin
-
-// Gap Configuration
-const GAP_TOLERANCE = 4; // Slightly tighter tolerance for a smaller feel
-
-const countriesList = [
-  { code: 'us', name: 'USA' }, { code: 'gb', name: 'UK' }, { code: 'jp', name: 'Japan' },
-  { code: 'de', name: 'Germany' }, { code: 'fr', name: 'France' }, { code: 'ca', name: 'Canada' },
-  { code: 'au', name: 'Australia' }, { code: 'it', name: 'Italy' }, { code: 'es', name: 'Spain' },
-  { code: 'nl', name: 'Netherlands' }, { code: 'se', name: 'Sweden' }, { code: 'ch', name: 'Switzerland' },
-  { code: 'kr', name: 'South Korea' }, { code: 'sg', name: 'Singapore' }, { code: 'br', name: 'Brazil' },
-  { code: 'in', name: 'India' }, { code: 'cn', name: 'China' }, { code: 'ru', name: 'Russia' },
-  { code: 'mx', name: 'Mexico' }, { code: 'za', name: 'South Africa' }, { code: 'tr', name: 'Turkey' },
-  { code: 'id', name: 'Indonesia' }, { code: 'sa', name: 'Saudi Arabia' }, { code: 'ar', name: 'Argentina' },
-  { code: 'pl', name: 'Poland' }, { code: 'be', name: 'Belgium' }, { code: 'no', name: 'Norway' },
-  { code: 'dk', name: 'Denmark' }, { code: 'fi', name: 'Finland' }, { code: 'nz', name: 'New Zealand' },
-  { code: 'pt', name: 'Portugal' }, { code: 'gr', name: 'Greece' }, { code: 'ie', name: 'Ireland' },
-  { code: 'at', name: 'Austria' }, { code: 'cz', name: 'Czechia' }, { code: 'hu', name: 'Hungary' },
-  { code: 'ro', name: 'Romania' }, { code: 'ua', name: 'Ukraine' }, { code: 'cl', name: 'Chile' },
-  { code: 'co', name: 'Colombia' }, { code: 'pe', name: 'Peru' }, { code: 've', name: 'Venezuela' },
-  { code: 'eg', name: 'Egypt' }, { code: 'ng', name: 'Nigeria' }, { code: 'ke', name: 'Kenya' },
-  { code: 'th', name: 'Thailand' }, { code: 'vn', name: 'Vietnam' }, { code: 'my', name: 'Malaysia' },
-  { code: 'ph', name: 'Philippines' }, { code: 'pk', name: 'Pakistan' }
-];
-
-// Helper to normalize angle to 0-360
-const normalizeAngle = (angle: number) => {
-  let a = angle % 360;
-  if (a < 0) a += 360;
-  return a;
-};
-
-interface PhysicsFlagProps {
-  flag: CountryFlag;
-  x: MotionValue<number>;
-  y: MotionValue<number>;
-  angle: MotionValue<number>;
-  scale: MotionValue<number>;
-  opacity: MotionValue<number>;
+import { motion, useAnimationFrame, AnimatePresence } from 'framer-motion';
+import { Entrant, EntrantFlag, EliminationEvent } from '../types';
+import { GameConfig, cameraSettings, roundEngineConfig, selectEntrants, soundSettings } from '../services/gameConfig';
+import { HeatRef, Tournament, currentHeat, heatEntrants, heatLabel as describeHeat, recordHeatResult } from '../services/tournament';
+import {
+  World,
+  createWorld,
+  applyConfig,
+  advanceWorld,
+  finishingOrder,
+  drainEvents,
+  remainingCount,
+  worldEntrants,
+  extendFormation,
+  forceFinale
+} from '../engine/simulation';
+import { randomSeed } from '../engine/rng';
+import { LeaderboardData, RoundRecord, computeStandings, loadLeaderboard, saveLeaderboard, recordRound } from '../services/leaderboardStore';
+import { HostCommand, commandForKey, connectShow } from '../services/hostControl';
+import { LifecycleState, createLifecycle } from '../services/lifecycle';
+import { Leaderboard } from './Leaderboard';
+import { KillFeed } from './KillFeed';
+import { RemainingCounter } from './RemainingCounter';
+import { ChampionBanner } from './ChampionBanner';
+import { Arena } from './Arena';
+import { ArenaHandle } from '../renderer/arenaRenderer';
+import { Camera, FINALE_FLAGS, HIGHLIGHT_MS, Highlight, IDLE_CAMERA, cameraTarget, followCamera, nearMisses } from '../renderer/camera';
+import { Replay, createReplay, recordTick, replayDuration, worldPose } from '../engine/replay';
+import { ReplayPlayer } from './ReplayPlayer';
+import { ReplayViewer } from './ReplayViewer';
+import { preloadFlags } from '../services/flagAssets';
+import { ChatStatus, createWebSocketChat } from '../services/chatAdapter';
+import { EmbedCommand, connectResultsApi } from '../services/resultsApi';
+import {
+  PredictionResult,
+  PredictionRound,
+  ViewerPointsData,
+  applyChatMessage,
+  createPredictionRound,
+  loadViewerPoints,
+  recordPredictions,
+  saveViewerPoints,
+  scorePredictions
+} from '../services/predictions';
+import { PredictionPanel } from './PredictionPanel';
+import { ViewerLeaderboard } from './ViewerLeaderboard';
+import { OverlaySlots } from './OverlaySlots';
+import { BracketView } from './BracketView';
+import { SoundEngine, createSoundEngine } from '../audio/soundEngine';
+import { COUNTDOWN_MS, soundCues } from '../audio/soundCues';
+import { Theme } from '../services/themes';
+
+const REPLAY_KEY = 'r';
+const EXTEND_PREDICTIONS_KEY = '+';
+const PREDICTION_EXTEND_MS = 5000;
+const FORCED_FINALE_FLAGS = 3;
+const LIVE_STATES: LifecycleState[] = ['formation', 'countdown', 'scatter', 'finale'];
+
+interface FlagScatterProps {
+  config: GameConfig;
+  tournament: Tournament | null;
+  onTournamentChange: (tournament: Tournament | null) => void;
+  theme: Theme;
 }
 
-interface LeaderboardEntry {
-  code: string;
-  name: string;
-  wins: number;
-}
+export const FlagScatter: React.FC<FlagScatterProps> = ({ config, tournament, onTournamentChange, theme }) => {
+  const [entrants, setEntrants] = useState<Entrant[]>([]);
+  const [winner, setWinner] = useState<EntrantFlag | null>(null);
+  const [podium, setPodium] = useState<Entrant[]>([]);
+  const [eliminations, setEliminations] = useState<EliminationEvent[]>([]);
+  const [remaining, setRemaining] = useState(0);
+  const [suddenDeath, setSuddenDeath] = useState(false);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardData>(loadLeaderboard);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [instantReplay, setInstantReplay] = useState<Replay | null>(null);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [viewerReplay, setViewerReplay] = useState<Replay | null>(null);
+  const [viewerPoints, setViewerPoints] = useState<ViewerPointsData>(loadViewerPoints);
+  const [predictionRound, setPredictionRound] = useState<PredictionRound | null>(null);
+  const [predictionResults, setPredictionResults] = useState<PredictionResult[] | null>(null);
+  const [predictionClosesIn, setPredictionClosesIn] = useState<number | null>(null);
+  const [chatStatus, setChatStatus] = useState<ChatStatus>('disconnected');
+  const [heat, setHeat] = useState<HeatRef | null>(null); // Tournament heat being run, if any
+  const [crowned, setCrowned] = useState<'round' | 'heat' | 'tournament'>('round'); // What the banner is for
+  const [showBracket, setShowBracket] = useState(false);
+  const [lifecycle] = useState(createLifecycle);
+  const [stage, setStage] = useState<{ state: LifecycleState; resumeTo: LifecycleState | null }>({ state: 'idle', resumeTo: null });
+  const [autoRestart, setAutoRestart] = useState(true);
+  const [leaderboardVisible, setLeaderboardVisible] = useState(true);
+
+  // Whichever renderer is active draws each frame through this handle
+  const arenaRef = useRef<ArenaHandle>(null);
+
+  // Simulation state. The engine owns all game logic; this component only renders it.
+  const worldRef = useRef<World | null>(null);
+  const replayRef = useRef<Replay | null>(null);
+  const pausedRef = useRef(false); // Live round is frozen while the host pauses or the replay viewer is open
+  const autoRestartRef = useRef(true);
+  const waitingRef = useRef(false); // Champion screen or bracket is up, waiting to move on
+  const predictionRef = useRef<PredictionRound | null>(null); // This round's picks, null when predictions are off
+  const roundEntrantsRef = useRef<Entrant[]>([]);
+  const tournamentRef = useRef(tournament);
+  const tournamentIdRef = useRef(tournament?.id ?? null); // Tells our own updates apart from the host's
+  const heatRef = useRef<HeatRef | null>(null);
+  const soundRef = useRef<SoundEngine | null>(null);
+  const cameraRef = useRef<Camera>(IDLE_CAMERA);
+  const highlightsRef = useRef<Highlight[]>([]); // Replaced, never mutated, so arenas can compare by identity
+
+  // Latest config, read when a round starts so edits never restart the current one
+  const configRef = useRef(config);
+
+  const changeTournament = useCallback((next: Tournament | null) => {
+    tournamentRef.current = next;
+    tournamentIdRef.current = next?.id ?? null;
+    onTournamentChange(next);
+  }, [onTournamentChange]);
+
+  // Reusable Initialization Function. The previous screen stays up until
+  // every flag of the new round is decoded, so the formation starts complete.
+  const startRound = useCallback(() => {
+    lifecycle.transition('preloading');
+    waitingRef.current = false;
+
+    // A finished tournament gives way to ordinary rounds
+    if (tournamentRef.current?.champion) changeTournament(null);
+    const t = tournamentRef.current;
+    const nextHeat = t && currentHeat(t);
+    const roundEntrants = t && nextHeat ? heatEntrants(t, nextHeat.heat) : selectEntrants(configRef.current);
+    const round = lifecycle.round();
+
+    preloadFlags(roundEntrants).then(() => {
+      if (round !== lifecycle.round()) return; // Superseded by a newer restart, or unmounted
+
+      const world = createWorld({
+        seed: randomSeed(),
+        entrants: roundEntrants,
+        config: roundEngineConfig(configRef.current)
+      });
+      worldRef.current = world;
+      replayRef.current = createReplay(world);
+      cameraRef.current = IDLE_CAMERA;
+      highlightsRef.current = [];
+      heatRef.current = nextHeat;
+      predictionRef.current = configRef.current.predictions ? createPredictionRound() : null;
+      roundEntrantsRef.current = worldEntrants(world);
+
+      lifecycle.transition('formation');
+      lifecycle.events.emit('roundStarted', { world, entrants: roundEntrantsRef.current, heat: nextHeat });
+    });
+  }, [lifecycle, changeTournament]);
 
-// Component to render a single flag based on MotionValues
-const PhysicsFlag: React.FC<PhysicsFlagProps> = ({ 
-  flag, 
-  x, 
-  y, 
-  angle,
-  scale,
-  opacity
-}) => {
-  return (
-    <motion.div
-      className="absolute rounded-sm overflow-hidden shadow-lg border border-white/20 bg-slate-800"
-      style={{
-        width: 28,
-        height: 20,
-        x,
-        y,
-        marginLeft: -14, // Center the flag on its coordinates
-        marginTop: -10,  // Center the flag on its coordinates
-        rotate: angle,
-        scale,
-        opacity,
-        zIndex: flag.status === 'winner' ? 100 : 10
-      }}
-    >
-      <img
-        src={`https://flagcdn.com/w80/${flag.code}.png`}
-        alt={flag.name}
-        className="w-full h-full object-cover"
-      />
-      {/* Gloss overlay */}
-      <div className="absolute inset-0 bg-gradient-to-tr from-black/30 to-transparent pointer-events-none" />
-      
-      {/* Subtle Cyan tint when exiting to simulate energy charge */}
-      {flag.status === 'exiting' && (
-        <div className="absolute inset-0 bg-cyan-400/20 mix-blend-overlay" />
-      )}
-    </motion.div>
-  );
-};
+  // Tournament started or abandoned by the host: restart straight into it
+  useEffect(() => {
+    tournamentRef.current = tournament;
+    if ((tournament?.id ?? null) === tournamentIdRef.current) return;
+    tournamentIdRef.current = tournament?.id ?? null;
+    startRound();
+  }, [tournament, startRound]);
 
-export const FlagScatter: React.FC = () => {
-  const [flags, setFlags] = useState<CountryFlag[]>([]);
-  const [winner, setWinner] = useState<CountryFlag | null>(null);
-  const [visualPathLength, setVisualPathLength] = useState(0.85);
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
-  
-  // Motion Values for performant updates
-  const ringRotation = useMotionValue(0);
-  const ringOpacity = useMotionValue(1);
-  
-  // Store MotionValues
-  const flagMotionValues = useRef<Map<string, { 
-    x: MotionValue, 
-    y: MotionValue, 
-    angle: MotionValue,
-    scale: MotionValue,
-    opacity: MotionValue
-  }>>(new Map());
-  
-  // Physics state ref
-  const physicsRef = useRef<{
-    flags: CountryFlag[];
-    ringAngle: number;
-    isRunning: boolean;
-    phase: 'formation' | 'scatter';
-    gapStart: number;
-    gapEnd: number;
-  }>({
-    flags: [],
-    ringAngle: 0,
-    isRunning: true,
-    phase: 'formation',
-    gapStart: 306, // default
-    gapEnd: 360  // default
-  });
+  // Live config edits: apply to the running round where possible
+  useEffect(() => {
+    configRef.current = config;
+    if (worldRef.current) applyConfig(worldRef.current, config);
+    soundRef.current?.setSettings(soundSettings(config));
+  }, [config]);
 
-  const startTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Reusable Initialization Function
-  const initializeGame = useCallback(() => {
-    if (startTimeoutRef.current) clearTimeout(startTimeoutRef.current);
-
-    // Reset UI State
-    setWinner(null);
-    ringOpacity.set(1);
-    
-    // Reset Physics Ref
-    physicsRef.current.isRunning = true;
-    physicsRef.current.phase = 'formation';
-    physicsRef.current.ringAngle = 0;
-    ringRotation.set(0);
-
-    // 1. Fixed Gap Size (Consistent difficulty)
-    // Setting to 45 degrees which is a balanced size.
-    const gapDegrees = 45; 
-
-    // Calculate path length for visual ring (1 - gap fraction)
-    const pathLen = (360 - gapDegrees) / 360;
-    setVisualPathLength(pathLen);
-
-    physicsRef.current.gapStart = 360 - gapDegrees;
-    physicsRef.current.gapEnd = 360;
-
-    // 2. Shuffle flags for random winner
-    const shuffledList = [...countriesList].sort(() => Math.random() - 0.5);
-
-    // 3. Initialize flags
-    const initialFlags: CountryFlag[] = shuffledList.map((c, i) => {
-      const total = shuffledList.length;
-      const theta = (i / total) * 2 * Math.PI; // Even distribution
-      
-      const x = INITIAL_RADIUS * Math.cos(theta);
-      const y = INITIAL_RADIUS * Math.sin(theta);
-      
-      // Pre-calculate random velocity
-      const velocityAngle = Math.random() * Math.PI * 2;
-      
-      return {
-        ...c,
-        status: 'active',
-        physics: {
-          x: x,
-          y: y,
-          vx: Math.cos(velocityAngle) * BASE_SPEED,
-          vy: Math.sin(velocityAngle) * BASE_SPEED,
-          angle: 0,
-          vAngle: (Math.random() - 0.5) * 10 // INCREASED ROTATION for dynamic feel
-        }
-      };
-    });
+  // Sound. Browsers keep a new context suspended until the page is clicked or
+  // a key is pressed; an OBS browser source plays straight away.
+  useEffect(() => {
+    if (typeof AudioContext === 'undefined') return;
+    const context = new AudioContext();
+    soundRef.current = createSoundEngine(context, soundSettings(configRef.current));
+    const resume = () => {
+      if (context.state === 'suspended') context.resume().catch(() => {});
+    };
+    window.addEventListener('pointerdown', resume);
+    window.addEventListener('keydown', resume);
+    return () => {
+      window.removeEventListener('pointerdown', resume);
+      window.removeEventListener('keydown', resume);
+      soundRef.current = null;
+      context.close().catch(() => {});
+    };
+  }, []);
+
+  const paused = stage.state === 'paused'; // Host pause
+  useEffect(() => {
+    pausedRef.current = viewerOpen || paused;
+  }, [viewerOpen, paused]);
 
-    // Create fresh MotionValues for the new flags
-    flagMotionValues.current.clear();
-    initialFlags.forEach(f => {
-      flagMotionValues.current.set(f.code, {
-        x: new MotionValue(f.physics.x),
-        y: new MotionValue(f.physics.y),
-        angle: new MotionValue(f.physics.angle),
-        scale: new MotionValue(1),
-        opacity: new MotionValue(1)
-      });
-    });
+  useEffect(() => {
+    if (viewerOpen) setViewerReplay(lastReplay);
+  }, [viewerOpen]); // Snapshot the last replay only when the viewer opens
 
-    setFlags(initialFlags);
-    physicsRef.current.flags = initialFlags;
+  // --- ROUND EVENTS ---
+  // Everything that follows the round subscribes to the lifecycle instead of
+  // living in the render loop
 
-    // Start Scatter after delay
-    startTimeoutRef.current = setTimeout(() => {
-      physicsRef.current.phase = 'scatter';
-    }, 2000); 
+  useEffect(() => {
+    const offs = [
+      lifecycle.events.on('stateChanged', ({ to, resumeTo }) => setStage({ state: to, resumeTo })),
+
+      // HUD: reset for the new round, then the kill feed and counter
+      lifecycle.events.on('roundStarted', ({ world, entrants: roundEntrants, heat: roundHeat }) => {
+        setWinner(null);
+        setPodium([]);
+        setEliminations([]);
+        setInstantReplay(null);
+        setShowBracket(false);
+        setHeat(roundHeat);
+        setEntrants(roundEntrants);
+        setRemaining(world.flags.length);
+        setSuddenDeath(false);
+        setPredictionRound(predictionRef.current);
+        setPredictionResults(null);
+        setPredictionClosesIn(null);
+      }),
+      lifecycle.events.on('flagEliminated', ({ elimination, remaining: left }) => {
+        setEliminations(prev => [...prev, elimination]);
+        setRemaining(left);
+      }),
+      lifecycle.events.on('worldAdvanced', ({ events }) => {
+        if (events.some(e => e.type === 'suddenDeath')) setSuddenDeath(true);
+      }),
+
+      // Sound
+      lifecycle.events.on('roundStarted', () => soundRef.current?.reset()),
+      lifecycle.events.on('worldAdvanced', ({ world, events, since }) => {
+        const sound = soundRef.current;
+        if (sound) soundCues(world, events, since).forEach(c => sound.play(c.cue));
+      }),
+
+      // PREDICTION WINDOW: counts down through the formation, closes at the scatter
+      lifecycle.events.on('worldAdvanced', ({ world, events }) => {
+        const round = predictionRef.current;
+        if (!round?.open) return;
+        if (events.some(e => e.type === 'scatterStarted')) {
+          predictionRef.current = { ...round, open: false };
+          setPredictionRound(predictionRef.current);
+          setPredictionClosesIn(null);
+        } else {
+          const closesIn = Math.ceil((world.formationEndsAt - world.time) / 1000);
+          setPredictionClosesIn(prev => (prev === closesIn ? prev : closesIn));
+        }
+      }),
+
+      // Podium, and the round recorded in the persistent leaderboard
+      lifecycle.events.on('winnerDecided', ({ world, placements }) => {
+        const byId = new Map<string, Entrant>(worldEntrants(world).map(e => [e.id, e]));
+        const names = Object.fromEntries([...byId].map(([id, e]) => [id, e.name]));
+        setPodium(placements.slice(0, 3).map(id => byId.get(id)!));
+        const round: RoundRecord = {
+          id: `${Date.now()}-${world.seed}`,
+          finishedAt: Date.now(),
+          seed: world.seed,
+          placements
+        };
+        setLeaderboard(prev => recordRound(prev, round, names));
+      }),
+
+      // Tournament: store the heat result, which may draw the next stage or crown a champion
+      lifecycle.events.on('winnerDecided', ({ placements }) => {
+        const t = tournamentRef.current;
+        if (t && heatRef.current) {
+          const next = recordHeatResult(t, placements);
+          changeTournament(next);
+          setCrowned(next.champion ? 'tournament' : 'heat');
+        } else {
+          setCrowned('round');
+        }
+      }),
+
+      lifecycle.events.on('winnerDecided', ({ placements }) => {
+        if (!predictionRef.current) return;
+        const results = scorePredictions(predictionRef.current, placements);
+        setPredictionResults(results);
+        setViewerPoints(prev => recordPredictions(prev, results));
+      })
+    ];
+    return () => offs.forEach(off => off());
+  }, [lifecycle, changeTournament]);
+
+  // --- AFTER THE ROUND ---
+  // Celebration (instant replay, then the champion screen), the bracket
+  // between tournament heats as the intermission, then the next round. Each
+  // screen waits restartDelayMs, or for the host while auto-restart is off or
+  // the show is paused. The lifecycle drops the wait whenever the state changes.
+
+  const armNextStep = () => {
+    if (!waitingRef.current || !autoRestartRef.current || lifecycle.state() === 'paused') return;
+    lifecycle.cancelTimers();
+    lifecycle.after(configRef.current.restartDelayMs, advance);
+  };
+
+  // From the champion screen to the bracket or the next round; from the bracket to the next round
+  const advance = () => {
+    const t = tournamentRef.current;
+    if (lifecycle.activeState() === 'celebration' && t && !t.champion) {
+      lifecycle.transition('intermission');
+      setShowBracket(true);
+      armNextStep();
+      return;
+    }
+    startRound();
+  };
+
+  const celebrate = (w: EntrantFlag) => {
+    setWinner(w);
+    waitingRef.current = true;
+    armNextStep();
+  };
+
+  const endInstantReplay = () => {
+    setInstantReplay(null);
+    const w = worldRef.current?.winner;
+    if (w) celebrate(w);
+  };
+
+  // --- HOST CONTROLS ---
+
+  const handleCommand = (command: HostCommand) => {
+    switch (command) {
+      case 'togglePause':
+        // A waiting screen starts its full delay again on resume
+        if (lifecycle.state() === 'paused') {
+          lifecycle.resume();
+          armNextStep();
+        } else {
+          lifecycle.pause();
+        }
+        break;
+      case 'restart':
+        startRound();
+        break;
+      case 'skip':
+        if (instantReplay) endInstantReplay();
+        else if (waitingRef.current) advance();
+        else startRound();
+        break;
+      case 'finale':
+        if (worldRef.current) forceFinale(worldRef.current, FORCED_FINALE_FLAGS);
+        break;
+      case 'toggleLeaderboard':
+        setLeaderboardVisible(v => !v);
+        break;
+      case 'toggleAutoRestart': {
+        const next = !autoRestartRef.current;
+        autoRestartRef.current = next;
+        setAutoRestart(next);
+        if (next) armNextStep();
+        else lifecycle.cancelTimers();
+        break;
+      }
+    }
+  };
+
+  // Commands from a parent page embedding the show. Unlike the host's
+  // toggles these say what state to end up in, so repeats are harmless.
+  const handleEmbedCommand = (command: EmbedCommand) => {
+    const isPaused = lifecycle.state() === 'paused';
+    switch (command) {
+      case 'pause':
+        if (!isPaused) handleCommand('togglePause');
+        break;
+      case 'resume':
+        if (isPaused) handleCommand('togglePause');
+        break;
+      case 'start': // Resume, or move on from a screen waiting for the host
+        if (isPaused) handleCommand('togglePause');
+        else if (waitingRef.current) advance();
+        break;
+      case 'restart':
+      case 'skip':
+        handleCommand(command);
+        break;
+    }
+  };
 
-  }, [ringRotation, ringOpacity]);
+  // Listeners are registered once; they always reach the latest handler
+  const commandRef = useRef(handleCommand);
+  commandRef.current = handleCommand;
+  const embedCommandRef = useRef(handleEmbedCommand);
+  embedCommandRef.current = handleEmbedCommand;
 
-  // Initial Start
+  // Hotkeys
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === REPLAY_KEY) setViewerOpen(o => !o);
+      if (e.key === EXTEND_PREDICTIONS_KEY && worldRef.current && predictionRef.current?.open) {
+        extendFormation(worldRef.current, PREDICTION_EXTEND_MS);
+      }
+      const command = commandForKey(e.key);
+      if (command) commandRef.current(command);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Banner copy comes from the theme, so a theme switch restyles it straight away
+  const championTitle = crowned === 'tournament'
+    ? theme.banner.tournamentTitle
+    : crowned === 'heat' && heat ? `${heat.heat.name} Winner` : theme.banner.title;
+
+  const activeState = stage.resumeTo ?? stage.state;
+  const heatLabel = heat ? describeHeat(heat) : null;
+  const nextInSeconds = autoRestart ? Math.round(config.restartDelayMs / 1000) : null;
+
+  // Remote control window
+  const showRef = useRef<ReturnType<typeof connectShow> | null>(null);
   useEffect(() => {
-    initializeGame();
+    const show = connectShow(command => commandRef.current(command));
+    showRef.current = show;
     return () => {
-      if (startTimeoutRef.current) clearTimeout(startTimeoutRef.current);
-    }
-  }, [initializeGame]);
+      showRef.current = null;
+      show.close();
+    };
+  }, []);
 
-  // Physics Loop
-  useAnimationFrame((time, delta) => {
-    if (!physicsRef.current.isRunning || physicsRef.current.flags.length === 0) return;
-
-    // 1. Update Ring Rotation
-    physicsRef.current.ringAngle = (physicsRef.current.ringAngle + ROTATION_SPEED) % 360;
-    ringRotation.set(physicsRef.current.ringAngle);
-
-    // 2. Update Flags based on Phase
-    let activeCount = 0;
-    let potentialWinner: CountryFlag | null = null;
-
-    physicsRef.current.flags.forEach(flag => {
-      if (flag.status === 'eliminated') return;
-      if (flag.status === 'active') activeCount++;
-      if (flag.status === 'active') potentialWinner = flag;
-
-      const p = flag.physics;
-      const mv = flagMotionValues.current.get(flag.code);
-
-      if (physicsRef.current.phase === 'formation') {
-        // FORMATION PHASE
-        const cos = Math.cos(FORMATION_SPIN_SPEED);
-        const sin = Math.sin(FORMATION_SPIN_SPEED);
-        const nx = p.x * cos - p.y * sin;
-        const ny = p.x * sin + p.y * cos;
-        p.x = nx;
-        p.y = ny;
-        
-        if (mv) {
-          mv.x.set(p.x);
-          mv.y.set(p.y);
-          mv.angle.set(0); 
-          mv.opacity.set(1);
-          mv.scale.set(1);
-        }
-      } else {
-        // SCATTER PHASE
-        p.x += p.vx;
-        p.y += p.vy;
-        p.angle += p.vAngle;
-
-        if (mv) {
-          mv.x.set(p.x);
-          mv.y.set(p.y);
-          mv.angle.set(p.angle);
-        }
+  useEffect(() => {
+    const top = computeStandings(leaderboard.current)[0];
+    showRef.current?.publish({
+      phase: activeState,
+      paused,
+      autoRestart,
+      leaderboardVisible,
+      remaining,
+      total: entrants.length,
+      heat: heatLabel,
+      winner: winner ? { id: winner.id, name: winner.name } : null,
+      leader: top ? { id: top.id, name: top.name, wins: top.wins } : null,
+      theme: theme.id
+    });
+  }, [activeState, paused, autoRestart, leaderboardVisible, remaining, entrants, heatLabel, winner, leaderboard, theme]);
 
-        // Check Collision with Ring
-        if (flag.status === 'active') {
-          // --- BREATHING / MOTION EFFECT ---
-          // Add a subtle sine wave scale pulse based on time and position to create "floating" feel
-          if (mv) {
-             const breathe = 1 + Math.sin((time / 600) + (p.x * 0.05)) * 0.1; 
-             mv.scale.set(breathe);
-          }
+  // Persist every change to the standings
+  useEffect(() => {
+    saveLeaderboard(leaderboard);
+  }, [leaderboard]);
 
-          const dist = Math.sqrt(p.x * p.x + p.y * p.y);
-          
-          if (dist + FLAG_RADIUS >= BOUNDARY_RADIUS) {
-            let flagAngle = Math.atan2(p.y, p.x) * (180 / Math.PI);
-            flagAngle = normalizeAngle(flagAngle);
-
-            const gapS = physicsRef.current.gapStart;
-            const gapE = physicsRef.current.gapEnd;
-            const ringAng = physicsRef.current.ringAngle;
-
-            const currentGapStart = normalizeAngle(gapS + ringAng - GAP_TOLERANCE);
-            const currentGapEnd = normalizeAngle(gapE + ringAng + GAP_TOLERANCE);
-
-            let isInsideGap = false;
-            if (currentGapStart < currentGapEnd) {
-               isInsideGap = flagAngle >= currentGapStart && flagAngle <= currentGapEnd;
-            } else {
-               isInsideGap = flagAngle >= currentGapStart || flagAngle <= currentGapEnd;
-            }
-
-            if (isInsideGap && activeCount > 1) {
-              // Eliminate
-              flag.status = 'exiting';
-              p.vx *= 1.6; // Speed boost on exit
-              p.vy *= 1.6;
-              // Add energetic spin
-              p.vAngle = (Math.random() > 0.5 ? 12 : -12) + (Math.random() * 8); 
-            } else {
-              // Bounce
-              const nx = p.x / dist;
-              const ny = p.y / dist;
-              const dotProduct = p.vx * nx + p.vy * ny;
-              p.vx = p.vx - 2 * dotProduct * nx;
-              p.vy = p.vy - 2 * dotProduct * ny;
-              const overlap = (dist + FLAG_RADIUS) - BOUNDARY_RADIUS;
-              p.x -= nx * overlap;
-              p.y -= ny * overlap;
-              p.vx += (Math.random() - 0.5) * 0.5;
-              p.vy += (Math.random() - 0.5) * 0.5;
-            }
-          }
-        } else if (flag.status === 'exiting') {
-          const dist = Math.sqrt(p.x * p.x + p.y * p.y);
-          
-          // Animate "fly off" effect via MotionValues
-          if (mv) {
-            const startFade = BOUNDARY_RADIUS;
-            const endFade = BOUNDARY_RADIUS * 2.5;
-            let progress = (dist - startFade) / (endFade - startFade);
-            progress = Math.max(0, Math.min(1, progress));
-            
-            mv.opacity.set(1 - progress);
-            mv.scale.set(1 - (progress * 0.3)); // Shrink slightly to 0.7
-          }
+  useEffect(() => {
+    saveViewerPoints(viewerPoints);
+  }, [viewerPoints]);
 
-          if (dist > BOUNDARY_RADIUS * 2.5) {
-             flag.status = 'eliminated';
-          }
-        }
+  // Chat feed: picks only count while this round's window is open
+  useEffect(() => {
+    if (!config.chatUrl) return;
+    return createWebSocketChat(config.chatUrl).connect(message => {
+      const round = predictionRef.current;
+      if (!round?.open) return;
+      const next = applyChatMessage(round, message, roundEntrantsRef.current);
+      if (next === round) return;
+      predictionRef.current = next;
+      setPredictionRound(next);
+    }, setChatStatus);
+  }, [config.chatUrl]);
+
+  // Results API: events for a parent page when embedded, summaries to the webhook
+  useEffect(() => connectResultsApi(lifecycle, {
+    webhookUrl: config.webhookUrl,
+    embedOrigin: config.embedOrigin,
+    onCommand: command => embedCommandRef.current(command)
+  }), [lifecycle, config.webhookUrl, config.embedOrigin]);
+
+  // Initial Start. Unmounting drops any pending restart or preload.
+  useEffect(() => {
+    startRound();
+    return () => lifecycle.dispose();
+  }, [lifecycle, startRound]);
+
+  // Render Loop. Keeps drawing after the round ends so the champion animates,
+  // and holds the last frame while the next round preloads.
+  useAnimationFrame((time, delta) => {
+    const world = worldRef.current;
+    if (!world || pausedRef.current) return;
+    if (world.phase === 'finished' || !LIVE_STATES.includes(lifecycle.state())) {
+      cameraRef.current = followCamera(cameraRef.current, IDLE_CAMERA, delta);
+      arenaRef.current?.render(worldPose(world, 1), time, { camera: cameraRef.current, highlights: highlightsRef.current });
+      return;
+    }
+
+    // Slow motion only feeds the world less time; it still runs the same fixed ticks
+    const before = world.time;
+    const alpha = advanceWorld(world, delta * cameraRef.current.timeScale, w => {
+      if (replayRef.current) recordTick(replayRef.current, w);
+    });
+    const events = drainEvents(world);
+    lifecycle.events.emit('worldAdvanced', { world, events, since: before });
+
+    // LIFECYCLE: the formation's last seconds, the scatter, eliminations and the finale
+    if (world.phase === 'formation') {
+      const counting = world.formationEndsAt - world.time <= COUNTDOWN_MS[0];
+      if (counting && lifecycle.state() === 'formation') lifecycle.transition('countdown');
+      if (!counting && lifecycle.state() === 'countdown') lifecycle.transition('formation'); // Predictions were extended
+    }
+    if (events.some(e => e.type === 'scatterStarted')) lifecycle.transition('scatter');
+    events.forEach(e => {
+      if (e.type === 'eliminated') {
+        lifecycle.events.emit('flagEliminated', { elimination: e.elimination, remaining: e.elimination.place - 1 });
       }
     });
+    if (lifecycle.state() === 'scatter' && remainingCount(world) <= FINALE_FLAGS) lifecycle.transition('finale');
+
+    // CAMERA: frames the finale, flashes flags that only just bounced back in
+    const camera = cameraSettings(configRef.current);
+    const pose = worldPose(world, alpha);
+    cameraRef.current = followCamera(cameraRef.current, cameraTarget(pose, world.config, camera), delta);
+    const missed = camera.nearMisses ? nearMisses(events) : [];
+    const highlights = highlightsRef.current;
+    const fresh = highlights.filter(h => time - h.at < HIGHLIGHT_MS);
+    const added = [...new Set(missed)].filter(id => !fresh.some(h => h.id === id));
+    if (added.length > 0 || fresh.length !== highlights.length) {
+      highlightsRef.current = [...fresh, ...added.map(id => ({ id, at: time }))];
+    }
+    arenaRef.current?.render(pose, time, { camera: cameraRef.current, highlights: highlightsRef.current });
 
     // WINNER CHECK
-    if (physicsRef.current.phase === 'scatter' && activeCount === 1 && potentialWinner && physicsRef.current.isRunning) {
-      physicsRef.current.isRunning = false;
-      setWinner(potentialWinner);
-      
-      const w = potentialWinner;
-      
-      // Update Leaderboard State
-      setLeaderboard(prev => {
-        const existing = prev.find(p => p.code === w.code);
-        let newState;
-        if (existing) {
-          newState = prev.map(p => p.code === w.code ? { ...p, wins: p.wins + 1 } : p);
-        } else {
-          newState = [...prev, { code: w.code, name: w.name, wins: 1 }];
-        }
-        // Sort by wins (descending)
-        return newState.sort((a, b) => b.wins - a.wins);
-      });
-
-      const finalFlags = physicsRef.current.flags.map(f => 
-         f.code === w.code ? { ...f, status: 'winner' as const } : f
-      );
-      setFlags(finalFlags);
-      ringOpacity.set(0);
-
-      // Auto Restart Game
-      setTimeout(() => {
-        initializeGame();
-      }, 5000);
+    if (world.winner) {
+      const replay = replayRef.current;
+      lifecycle.transition('celebration');
+      lifecycle.events.emit('winnerDecided', { world, winner: world.winner, placements: finishingOrder(world), replay });
+      setLastReplay(replay);
+      if (replay && configRef.current.instantReplay) setInstantReplay(replay);
+      else celebrate(world.winner);
     }
   });
 
   return (
     <>
-      {/* LEADERBOARD UI */}
-      <div className="absolute top-4 left-4 md:top-6 md:left-6 z-40">
-        <div className="bg-slate-900/80 backdrop-blur-md border border-cyan-500/20 rounded-lg p-4 min-w-[180px] shadow-[0_0_15px_rgba(8,145,178,0.2)]">
-          <div className="flex items-center justify-between mb-3 border-b border-cyan-500/20 pb-2">
-            <h3 className="text-cyan-400 text-[10px] tracking-[0.2em] font-bold uppercase">
-              Top Wins
-            </h3>
-            <div className="w-1.5 h-1.5 rounded-full bg-cyan-500 animate-pulse shadow-[0_0_5px_#22d3ee]" />
-          </div>
-          
-          <div className="flex flex-col gap-2">
-            {leaderboard.length === 0 ? (
-              <div className="text-slate-500 text-[10px] font-mono uppercase text-center py-1">
-                Awaiting Data...
+      {/* HUD PANELS, each in its configured overlay slot */}
+      <OverlaySlots
+        panels={[
+          {
+            id: 'leaderboard',
+            slot: leaderboardVisible ? config.leaderboardSlot : 'hidden',
+            node: (
+              <div className="flex items-start gap-3">
+                <Leaderboard data={leaderboard} onChange={setLeaderboard} />
+                {config.predictions && <ViewerLeaderboard data={viewerPoints} onChange={setViewerPoints} />}
               </div>
-            ) : (
-              leaderboard.slice(0, 5).map((entry, i) => (
-                <div key={entry.code} className="flex items-center justify-between group">
-                  <div className="flex items-center gap-2">
-                    <span className={`text-[10px] font-mono w-3 ${i === 0 ? 'text-yellow-400' : 'text-slate-500'}`}>
-                      {i + 1}
-                    </span>
-                    <img 
-                      src={`https://flagcdn.com/w40/${entry.code}.png`}
-                      alt={entry.name}
-                      className="w-5 h-3.5 object-cover rounded-[2px] opacity-80 group-hover:opacity-100 transition-opacity border border-white/10"
-                    />
-                    <span className="text-slate-300 text-[11px] font-medium tracking-wide">
-                      {entry.name}
-                    </span>
-                  </div>
-                  <span className="text-cyan-400/80 text-[10px] font-mono font-bold">
-                    {entry.wins}
-                  </span>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
-      </div>
-
-      <div className="relative w-[320px] h-[320px] md:w-[420px] md:h-[420px] flex items-center justify-center">
-        <GlowingRing 
-          rotation={ringRotation} 
-          opacity={ringOpacity} 
-          pathLength={visualPathLength} 
-        />
-        
-        <div className="absolute inset-0 overflow-visible pointer-events-none">
-          <div className="absolute top-1/2 left-1/2 w-0 h-0">
-             {flags.map((flag) => {
-               if (flag.status === 'eliminated') return null;
-               const mv = flagMotionValues.current.get(flag.code);
-               if (!mv) return null;
-
-               if (flag.status === 'winner') {
-                 return <WinnerFlag key={flag.code} flag={flag} />;
-               }
-
-               return (
-                 <PhysicsFlag 
-                    key={flag.code} 
-                    flag={flag} 
-                    x={mv.x} 
-                    y={mv.y} 
-                    angle={mv.angle} 
-                    scale={mv.scale}
-                    opacity={mv.opacity}
+            )
+          },
+          { id: 'feed', slot: config.feedSlot, node: <KillFeed eliminations={eliminations} /> },
+          {
+            id: 'counter',
+            slot: config.counterSlot,
+            node: (
+              <>
+                {paused && (
+                  <div className="text-amber-400 text-[10px] tracking-[0.3em] font-bold uppercase">Paused</div>
+                )}
+                {heatLabel && (
+                  <div className="text-accent-400 text-[10px] tracking-[0.3em] font-bold uppercase">{heatLabel}</div>
+                )}
+                {suddenDeath && !winner && (
+                  <div className="text-red-400 text-[10px] tracking-[0.3em] font-bold uppercase animate-pulse">Sudden Death</div>
+                )}
+                <RemainingCounter remaining={remaining} total={entrants.length} />
+                {predictionRound && (
+                  <PredictionPanel
+                    round={predictionRound}
+                    entrants={entrants}
+                    closesIn={predictionClosesIn}
+                    results={predictionResults}
+                    chatStatus={chatStatus}
                   />
-               );
-             })}
-          </div>
-        </div>
-      </div>
+                )}
+              </>
+            )
+          },
+          {
+            id: 'banner',
+            slot: config.bannerSlot,
+            node: (
+              <AnimatePresence>
+                {winner && !showBracket && (
+                  <ChampionBanner podium={podium} title={championTitle} restartSeconds={nextInSeconds} theme={theme} />
+                )}
+              </AnimatePresence>
+            )
+          }
+        ]}
+      />
 
-      <AnimatePresence>
-        {winner && (
-          <motion.div 
-            className="absolute top-1/2 left-0 right-0 flex flex-col items-center justify-center z-50 mt-32"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: -20 }}
-            transition={{ delay: 0.5 }}
+      {instantReplay ? (
+        <div className="relative">
+          <motion.div
+            className="absolute -top-12 left-0 right-0 text-center text-accent-400 text-xs tracking-[0.5em] font-bold uppercase"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: [0.4, 1, 0.4] }}
+            transition={{ duration: 1.2, repeat: Infinity }}
           >
-             <div className="text-cyan-400 text-sm tracking-[0.5em] font-bold uppercase mb-2">Champion</div>
-             <h1 className="text-white text-5xl font-black uppercase drop-shadow-[0_0_25px_rgba(34,211,238,0.6)]">
-               {winner.name}
-             </h1>
-             <div className="mt-4 text-cyan-200/50 text-xs tracking-widest uppercase">Restarting in 5s...</div>
+            Instant Replay
           </motion.div>
+          <ReplayPlayer
+            replay={instantReplay}
+            startMs={Math.max(0, replayDuration(instantReplay) - config.instantReplaySeconds * 1000)}
+            showControls={false}
+            renderer={config.renderer}
+            theme={theme}
+            cinematic={cameraSettings(config)}
+            paused={paused}
+            onEnded={endInstantReplay}
+          />
+        </div>
+      ) : (
+        <Arena
+          ref={arenaRef}
+          renderer={config.renderer}
+          entrants={entrants}
+          config={config}
+          champion={winner?.id ?? null}
+          theme={theme}
+        />
+      )}
+
+      <AnimatePresence>
+        {showBracket && tournament && (
+          <BracketView tournament={tournament} nextInSeconds={nextInSeconds} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {viewerOpen && (
+          <ReplayViewer
+            replay={viewerReplay}
+            renderer={config.renderer}
+            theme={theme}
+            onLoad={setViewerReplay}
+            onClose={() => setViewerOpen(false)}
+          />
         )}
       </AnimatePresence>
     </>
   );
 };
-
-const WinnerFlag: React.FC<{ flag: CountryFlag }> = ({ flag }) => {
-  return (
-    <motion.div
-      className="absolute flex items-center justify-center -ml-12 -mt-8"
-      initial={{ scale: 1, x: flag.physics.x, y: flag.physics.y }}
-      animate={{ scale: 3.5, x: 0, y: 0, rotate: 0 }}
-      exit={{ scale: 0, opacity: 0 }}
-      transition={{ type: "spring", duration: 1.5, bounce: 0.5 }}
-      style={{ zIndex: 100 }}
-    >
-      <div className="relative w-24 h-16 rounded-md overflow-hidden shadow-[0_0_50px_rgba(34,211,238,0.5)] border-2 border-cyan-400 bg-slate-800">
-        <img
-          src={`https://flagcdn.com/w160/${flag.code}.png`}
-          alt={flag.name}
-          className="w-full h-full object-cover"
-        />
-        <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
-      </div>
-      
-      {[...Array(8)].map((_, i) => (
-        <motion.div
-          key={i}
-          className="absolute w-2 h-2 bg-white rounded-full"
-          initial={{ opacity: 0, scale: 0 }}
-          animate={{ 
-            opacity: [1, 0], 
-            scale: [0, 1.5], 
-            x: (Math.random() - 0.5) * 150, 
-            y: (Math.random() - 0.5) * 150 
-          }}
-          transition={{ 
-            duration: 1, 
-            repeat: Infinity, 
-            repeatDelay: Math.random() * 0.5,
-            ease: "easeOut" 
-          }}
-        />
-      ))}
-    </motion.div>
-  );
-};
\ No newline at end of file
@@ -1,70 +1,99 @@
 import React from 'react';
 import { motion, MotionValue } from 'framer-motion';
+import { Gap, solidArcs } from '../engine/arena';
+import { Theme } from '../services/themes';
+import { RING_RADIUS_FRACTION } from '../renderer/arenaRenderer';
 
-interface GlowingRingProps {
+// Radius of the full-size ring inside the 100x100 viewBox
+export const RING_VIEWBOX_RADIUS = RING_RADIUS_FRACTION * 100;
+
+export interface RingView {
   rotation: MotionValue<number>;
+  path: MotionValue<string>; // Solid arcs in ring-local coordinates, see ringPath
+}
+
+interface GlowingRingProps {
+  rings: RingView[];
   opacity?: MotionValue<number>;
-  pathLength?: number; // Controls the size of the ring arc (1 = full circle, 0.85 = 15% gap)
+  theme: Theme;
 }
 
-export const GlowingRing: React.FC<GlowingRingProps> = ({ rotation, opacity, pathLength = 0.85 }) => {
+const polar = (r: number, deg: number) => {
+  const rad = deg * (Math.PI / 180);
+  return `${(50 + r * Math.cos(rad)).toFixed(3)} ${(50 + r * Math.sin(rad)).toFixed(3)}`;
+};
+
+// SVG path for a set of [start, end] arcs (degrees, clockwise from 3 o'clock)
+// on a circle of radius `r` centred in the viewBox.
+export const ringPath = (arcs: [number, number][], r: number) =>
+  arcs.map(([start, end]) => {
+    // A single arc command cannot draw a full circle, so split it in two
+    if (end - start >= 359.99) {
+      return `M ${polar(r, start)} A ${r} ${r} 0 1 1 ${polar(r, start + 180)} A ${r} ${r} 0 1 1 ${polar(r, start)}`;
+    }
+    const largeArc = end - start > 180 ? 1 : 0;
+    return `M ${polar(r, start)} A ${r} ${r} 0 ${largeArc} 1 ${polar(r, end)}`;
+  }).join(' ');
+
+export const createRingView = (): RingView => ({
+  rotation: new MotionValue(0),
+  path: new MotionValue('')
+});
+
+// Push one ring's rotation and shape to its view. `scale` converts arena
+// units to viewBox units (RING_VIEWBOX_RADIUS / outermost ring radius).
+export const updateRingView = (view: RingView, angle: number, radius: number, gaps: Gap[], scale: number) => {
+  view.rotation.set(angle);
+  view.path.set(ringPath(solidArcs(gaps), radius * scale));
+};
+
+export const GlowingRing: React.FC<GlowingRingProps> = ({ rings, opacity, theme }) => {
   return (
     <motion.div 
       className="absolute inset-0 flex items-center justify-center pointer-events-none z-10"
       style={{ opacity: opacity || 1 }}
     >
-      <div className="relative w-[320px] h-[320px] md:w-[420px] md:h-[420px]">
+      <div className="relative w-full h-full">
         {/* Outer Glow Bloom */}
-        <div className="absolute inset-0 rounded-full bg-cyan-500/20 blur-[50px]" />
+        <div className="absolute inset-0 rounded-full bg-accent-500/20 blur-[50px]" style={{ opacity: Math.min(1, theme.glow) }} />
         
-        {/* Rotating Container controlled by physics loop */}
-        <motion.div 
-          className="w-full h-full"
-          style={{ rotate: rotation }}
-        >
-          <svg 
-            className="w-full h-full" 
-            viewBox="0 0 100 100"
-            style={{ overflow: 'visible' }}
+        {/* One rotating layer per ring, each controlled by the physics loop */}
+        {rings.map((ring, i) => (
+          <motion.div 
+            key={i}
+            className="absolute inset-0"
+            style={{ rotate: ring.rotation }}
           >
-            <defs>
-              <filter id="glow" x="-50%" y="-50%" width="200%" height="200%">
-                <feGaussianBlur stdDeviation="1.5" result="coloredBlur" />
-                <feMerge>
-                  <feMergeNode in="coloredBlur" />
-                  <feMergeNode in="SourceGraphic" />
-                </feMerge>
-              </filter>
-              <linearGradient id="ringGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-                <stop offset="0%" stopColor="#ffffff" />
-                <stop offset="100%" stopColor="#22d3ee" />
-              </linearGradient>
-            </defs>
+            <svg 
+              className="w-full h-full" 
+              viewBox="0 0 100 100"
+              style={{ overflow: 'visible' }}
+            >
+              <defs>
+                <linearGradient id={`ringGradient-${i}`} x1="0%" y1="0%" x2="100%" y2="100%">
+                  <stop offset="0%" stopColor={theme.ring.from} />
+                  <stop offset="100%" stopColor={theme.ring.to} />
+                </linearGradient>
+              </defs>
 
-            {/* The Main Physics Ring 
-                Path starts at 3 o'clock (0 degrees). 
-                We want a gap. 
-                pathLength determines the arc length.
-                The gap is the remaining (1 - pathLength).
-            */}
-            <motion.circle
-              cx="50"
-              cy="50"
-              r="48"
-              fill="none"
-              stroke="url(#ringGradient)"
-              strokeWidth="3"
-              strokeLinecap="round"
-              initial={{ pathLength: pathLength }}
-              animate={{ pathLength: pathLength }}
-              transition={{ duration: 0.5 }} 
-              style={{
-                filter: "drop-shadow(0 0 4px rgba(34,211,238,0.8))"
-              }}
-            />
-          </svg>
-        </motion.div>
+              {/* The Physics Ring
+                  Arcs start at 3 o'clock (0 degrees) and run clockwise.
+                  Everything not covered by an arc is a gap.
+              */}
+              <motion.path
+                d={ring.path}
+                fill="none"
+                stroke={`url(#ringGradient-${i})`}
+                strokeWidth="3"
+                strokeLinecap="round"
+                style={{
+                  filter: `drop-shadow(0 0 ${4 * theme.glow}px ${theme.ring.glow})`
+                }}
+              />
+            </svg>
+          </motion.div>
+        ))}
       </div>
     </motion.div>
   );
-};
\ No newline at end of file
+};
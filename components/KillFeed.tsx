@@ -0,0 +1,41 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { EliminationEvent } from '../types';
+import { ordinal } from '../utils/format';
+import { FlagImage } from './FlagImage';
+
+const FEED_LENGTH = 6;
+
+interface KillFeedProps {
+  eliminations: EliminationEvent[]; // Oldest first
+}
+
+// Scrolling list of the most recent eliminations, newest on top
+export const KillFeed: React.FC<KillFeedProps> = ({ eliminations }) => {
+  const recent = eliminations.slice(-FEED_LENGTH).reverse();
+
+  return (
+    <div className="flex flex-col gap-1 min-w-[180px]">
+      <AnimatePresence initial={false}>
+        {recent.map((e, i) => (
+          <motion.div
+            key={e.id}
+            layout
+            className="flex items-center gap-2 bg-surface-900/60 backdrop-blur-sm border border-ink/5 rounded px-2 py-1"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1 - i * 0.12, x: 0 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <FlagImage
+              entrant={e}
+              className="w-4 h-3 object-cover rounded-[2px] border border-white/10"
+            />
+            <span className="text-surface-300 text-[10px] font-medium tracking-wide">{e.name}</span>
+            <span className="text-surface-500 text-[10px] font-mono">out — {ordinal(e.place)}</span>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  LeaderboardData,
+  computeStandings,
+  leaderboardToJson,
+  parseLeaderboardJson,
+  standingsToCsv,
+  importStandingsCsv,
+  resetSeason
+} from '../services/leaderboardStore';
+import { downloadFile, fileStamp } from '../services/download';
+import { FlagImage } from './FlagImage';
+import { createEntrantLookup } from '../services/rosters';
+
+const COLLAPSED_ROWS = 5;
+const PAGE_SIZE = 10;
+
+interface LeaderboardProps {
+  data: LeaderboardData;
+  onChange: (data: LeaderboardData) => void;
+}
+
+const formatLastWin = (at: number | null) =>
+  at ? new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—';
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ data, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [page, setPage] = useState(0);
+  const [seasonId, setSeasonId] = useState<string | null>(null); // null = current season
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const findEntrant = useMemo(() => createEntrantLookup(), [data]);
+
+  const season = data.archive.find(s => s.id === seasonId) ?? data.current;
+  const standings = computeStandings(season);
+  const pageCount = Math.max(1, Math.ceil(standings.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const rows = expanded
+    ? standings.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+    : standings.slice(0, COLLAPSED_ROWS);
+  const rankOffset = expanded ? currentPage * PAGE_SIZE : 0;
+
+  const handleImport = async (file: File) => {
+    try {
+      const text = await file.text();
+      const next = file.name.toLowerCase().endsWith('.csv')
+        ? importStandingsCsv(data, text)
+        : parseLeaderboardJson(text);
+      onChange(next);
+      setSeasonId(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Archive "${data.current.name}" and start a new season?`)) return;
+    onChange(resetSeason(data));
+    setSeasonId(null);
+    setPage(0);
+  };
+
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-md border border-accent-500/20 rounded-lg p-4 min-w-[180px] shadow-glow pointer-events-auto">
+      <div className="flex items-center justify-between gap-3 mb-3 border-b border-accent-500/20 pb-2">
+        <h3 className="text-accent-400 text-[10px] tracking-[0.2em] font-bold uppercase">
+          {expanded ? season.name : 'Top Wins'}
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            className="text-surface-500 hover:text-accent-300 text-[9px] font-mono uppercase tracking-widest transition-colors"
+            onClick={() => { setExpanded(e => !e); setPage(0); }}
+          >
+            {expanded ? 'Less' : 'All'}
+          </button>
+          <div className="w-1.5 h-1.5 rounded-full bg-accent-500 animate-pulse shadow-glow-sm" />
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="flex items-center justify-between gap-2 mb-3 text-[9px] font-mono uppercase text-surface-500">
+          <select
+            className="bg-surface-800/80 border border-accent-500/20 rounded px-1 py-0.5 text-surface-300"
+            value={seasonId ?? ''}
+            onChange={e => { setSeasonId(e.target.value || null); setPage(0); }}
+          >
+            <option value="">{data.current.name} (live)</option>
+            {data.archive.map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+          <span>{season.roundCount} rounds</span>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {rows.length === 0 ? (
+          <div className="text-surface-500 text-[10px] font-mono uppercase text-center py-1">
+            Awaiting Data...
+          </div>
+        ) : (
+          <>
+            {expanded && (
+              <div className="flex items-center justify-between text-[8px] font-mono uppercase tracking-widest text-surface-500">
+                <span className="pl-5">Entrant</span>
+                <div className="flex gap-3">
+                  <span className="w-5 text-right">W</span>
+                  <span className="w-5 text-right">Pod</span>
+                  <span className="w-7 text-right">Avg</span>
+                  <span className="w-5 text-right">Str</span>
+                  <span className="w-10 text-right">Last</span>
+                </div>
+              </div>
+            )}
+            {rows.map((entry, i) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 group">
+                <div className="flex items-center gap-2">
+                  <span className={`text-[10px] font-mono w-3 ${rankOffset + i === 0 ? 'text-yellow-400' : 'text-surface-500'}`}>
+                    {rankOffset + i + 1}
+                  </span>
+                  <FlagImage
+                    entrant={findEntrant(entry.id) ?? entry}
+                    className="w-5 h-3.5 object-cover rounded-[2px] opacity-80 group-hover:opacity-100 transition-opacity border border-white/10"
+                  />
+                  <span className="text-surface-300 text-[11px] font-medium tracking-wide">
+                    {entry.name}
+                  </span>
+                </div>
+                {expanded ? (
+                  <div className="flex gap-3 text-[10px] font-mono text-surface-400">
+                    <span className="w-5 text-right text-accent-400/80 font-bold">{entry.wins}</span>
+                    <span className="w-5 text-right">{entry.podiums}</span>
+                    <span className="w-7 text-right">{entry.averagePosition.toFixed(1)}</span>
+                    <span className="w-5 text-right">{entry.longestStreak}</span>
+                    <span className="w-10 text-right">{formatLastWin(entry.lastWinAt)}</span>
+                  </div>
+                ) : (
+                  <span className="text-accent-400/80 text-[10px] font-mono font-bold">
+                    {entry.wins}
+                  </span>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 pt-2 border-t border-accent-500/20 flex flex-col gap-2 text-[9px] font-mono uppercase tracking-widest">
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between text-surface-500">
+              <button
+                className="hover:text-accent-300 disabled:opacity-30"
+                disabled={currentPage === 0}
+                onClick={() => setPage(currentPage - 1)}
+              >
+                Prev
+              </button>
+              <span>{currentPage + 1} / {pageCount}</span>
+              <button
+                className="hover:text-accent-300 disabled:opacity-30"
+                disabled={currentPage >= pageCount - 1}
+                onClick={() => setPage(currentPage + 1)}
+              >
+                Next
+              </button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-surface-400">
+            <button
+              className="hover:text-accent-300"
+              onClick={() => downloadFile(`leaderboard-${fileStamp()}.json`, leaderboardToJson(data), 'application/json')}
+            >
+              Export JSON
+            </button>
+            <button
+              className="hover:text-accent-300"
+              onClick={() => downloadFile(`standings-${fileStamp()}.csv`, standingsToCsv(season), 'text/csv')}
+            >
+              Export CSV
+            </button>
+            <button className="hover:text-accent-300" onClick={() => fileInputRef.current?.click()}>
+              Import
+            </button>
+            <button className="hover:text-red-400" onClick={handleReset}>
+              Reset Season
+            </button>
+          </div>
+          {error && <div className="text-red-400 normal-case tracking-normal">{error}</div>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
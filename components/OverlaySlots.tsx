@@ -0,0 +1,41 @@
+import React from 'react';
+import { SlotId } from '../services/overlay';
+
+type VisibleSlot = Exclude<SlotId, 'hidden'>;
+
+// Anchor and alignment of each slot within the stage
+const SLOT_CLASSES: Record<VisibleSlot, string> = {
+  'top-left': 'top-4 left-4 md:top-6 md:left-6 items-start',
+  'top': 'top-4 md:top-6 left-1/2 -translate-x-1/2 items-center',
+  'top-right': 'top-4 right-4 md:top-6 md:right-6 items-end',
+  'left': 'top-1/2 left-4 md:left-6 -translate-y-1/2 items-start',
+  'center': 'top-1/2 left-0 right-0 mt-32 items-center', // Under the ring
+  'right': 'top-1/2 right-4 md:right-6 -translate-y-1/2 items-end',
+  'bottom-left': 'bottom-4 left-4 md:bottom-6 md:left-6 items-start',
+  'bottom': 'bottom-4 md:bottom-6 left-1/2 -translate-x-1/2 items-center',
+  'bottom-right': 'bottom-4 right-4 md:bottom-6 md:right-6 items-end'
+};
+
+export interface SlotPanel {
+  id: string;
+  slot: SlotId;
+  node: React.ReactNode;
+}
+
+// Places each HUD panel in its configured slot; panels sharing a slot stack
+// in the order given.
+export const OverlaySlots: React.FC<{ panels: SlotPanel[] }> = ({ panels }) => {
+  return (
+    <>
+      {(Object.keys(SLOT_CLASSES) as VisibleSlot[]).map(slot => {
+        const inSlot = panels.filter(p => p.slot === slot);
+        if (inSlot.length === 0) return null;
+        return (
+          <div key={slot} className={`absolute z-40 flex flex-col gap-3 ${SLOT_CLASSES[slot]}`}>
+            {inSlot.map(p => <React.Fragment key={p.id}>{p.node}</React.Fragment>)}
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { motion, MotionValue } from 'framer-motion';
+import { EntrantFlag } from '../types';
+import { FlagImage } from './FlagImage';
+import { POWER_STYLES, flagPowers } from '../renderer/flagVisuals';
+
+export interface FlagMotionValues {
+  x: MotionValue<number>;
+  y: MotionValue<number>;
+  angle: MotionValue<number>;
+  scale: MotionValue<number>;
+  opacity: MotionValue<number>;
+}
+
+export const createFlagMotionValues = (x: number, y: number, angle: number): FlagMotionValues => ({
+  x: new MotionValue(x),
+  y: new MotionValue(y),
+  angle: new MotionValue(angle),
+  scale: new MotionValue(1),
+  opacity: new MotionValue(1)
+});
+
+type FlagIdentity = Pick<EntrantFlag, 'id' | 'name' | 'image' | 'country' | 'status'>;
+
+interface PhysicsFlagProps extends FlagMotionValues {
+  flag: FlagIdentity;
+  effects?: number; // Power-up bitmask, see engine/entities.ts
+}
+
+// One coloured outline per power the flag holds. Drawn as box shadows because
+// the flag clips its own contents.
+const powerShadow = (effects: number) =>
+  flagPowers(effects)
+    .map((power, i) => `0 0 0 ${(i + 1) * 2}px ${POWER_STYLES[power].color}, 0 0 ${8 + i * 4}px ${POWER_STYLES[power].color}`)
+    .join(', ');
+
+// Component to render a single flag based on MotionValues
+export const PhysicsFlag: React.FC<PhysicsFlagProps> = ({ 
+  flag, 
+  x, 
+  y, 
+  angle,
+  scale,
+  opacity,
+  effects = 0
+}) => {
+  return (
+    <motion.div
+      className="absolute rounded-sm overflow-hidden shadow-lg border border-white/20 bg-surface-800"
+      style={{
+        width: 28,
+        height: 20,
+        x,
+        y,
+        marginLeft: -14, // Center the flag on its coordinates
+        marginTop: -10,  // Center the flag on its coordinates
+        rotate: angle,
+        scale,
+        opacity,
+        boxShadow: effects ? powerShadow(effects) : undefined,
+        zIndex: flag.status === 'winner' ? 100 : 10
+      }}
+    >
+      <FlagImage entrant={flag} />
+      {/* Gloss overlay */}
+      <div className="absolute inset-0 bg-gradient-to-tr from-black/30 to-transparent pointer-events-none" />
+      
+      {/* Subtle Cyan tint when exiting to simulate energy charge */}
+      {flag.status === 'exiting' && (
+        <div className="absolute inset-0 bg-accent-400/20 mix-blend-overlay" />
+      )}
+    </motion.div>
+  );
+};
+
+interface WinnerFlagProps {
+  flag: FlagIdentity;
+  x: number; // Where the winner was when the round ended
+  y: number;
+}
+
+export const WinnerFlag: React.FC<WinnerFlagProps> = ({ flag, x, y }) => {
+  return (
+    <motion.div
+      className="absolute flex items-center justify-center -ml-12 -mt-8"
+      initial={{ scale: 1, x, y }}
+      animate={{ scale: 3.5, x: 0, y: 0, rotate: 0 }}
+      exit={{ scale: 0, opacity: 0 }}
+      transition={{ type: "spring", duration: 1.5, bounce: 0.5 }}
+      style={{ zIndex: 100 }}
+    >
+      <div className="relative w-24 h-16 rounded-md overflow-hidden shadow-glow-lg border-2 border-accent-400 bg-surface-800">
+        <FlagImage entrant={flag} />
+        <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
+      </div>
+      
+      {[...Array(8)].map((_, i) => (
+        <motion.div
+          key={i}
+          className="absolute w-2 h-2 bg-white rounded-full"
+          initial={{ opacity: 0, scale: 0 }}
+          animate={{ 
+            opacity: [1, 0], 
+            scale: [0, 1.5], 
+            x: (Math.random() - 0.5) * 150, 
+            y: (Math.random() - 0.5) * 150 
+          }}
+          transition={{ 
+            duration: 1, 
+            repeat: Infinity, 
+            repeatDelay: Math.random() * 0.5,
+            ease: "easeOut" 
+          }}
+        />
+      ))}
+    </motion.div>
+  );
+};
\ No newline at end of file
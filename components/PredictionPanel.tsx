@@ -0,0 +1,82 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Entrant } from '../types';
+import { PredictionResult, PredictionRound, tallyPicks } from '../services/predictions';
+import { ChatStatus } from '../services/chatAdapter';
+import { ordinal } from '../utils/format';
+import { FlagImage } from './FlagImage';
+
+const TOP_PICKS = 3;
+const TOP_RESULTS = 3;
+
+interface PredictionPanelProps {
+  round: PredictionRound;
+  entrants: Entrant[];
+  closesIn: number | null;            // Whole seconds left while the window is open
+  results: PredictionResult[] | null; // Once the round is decided
+  chatStatus: ChatStatus;
+}
+
+// Prediction call to action while the window is open, then this round's top scorers
+export const PredictionPanel: React.FC<PredictionPanelProps> = ({ round, entrants, closesIn, results, chatStatus }) => {
+  const byId = new Map<string, Entrant>(entrants.map(e => [e.id, e]));
+  const picks = tallyPicks(round);
+  const pickCount = Object.keys(round.picks).length;
+
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-md border border-accent-500/20 rounded-lg px-4 py-3 min-w-[200px] shadow-glow">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="text-accent-400 text-[10px] tracking-[0.2em] font-bold uppercase">
+          {round.open ? 'Predictions Open' : 'Predictions'}
+        </span>
+        {chatStatus !== 'connected' && (
+          <span className="text-amber-400/80 text-[9px] font-mono uppercase">chat {chatStatus}</span>
+        )}
+      </div>
+
+      {round.open && (
+        <div className="text-surface-300 text-[11px] mb-2">
+          Type <span className="font-mono text-accent-300">!pick &lt;name&gt;</span>
+          {closesIn !== null && (
+            <motion.span
+              key={closesIn}
+              className="ml-2 font-mono text-ink font-bold"
+              initial={{ scale: 1.3 }}
+              animate={{ scale: 1 }}
+            >
+              {closesIn}s
+            </motion.span>
+          )}
+        </div>
+      )}
+
+      {results ? (
+        <div className="flex flex-col gap-1">
+          {results.length === 0 && <div className="text-surface-500 text-[10px] font-mono uppercase">No predictions</div>}
+          {results.slice(0, TOP_RESULTS).map(r => (
+            <div key={r.user} className="flex items-center justify-between gap-3 text-[10px]">
+              <span className="text-surface-300 truncate max-w-[110px]">{r.user}</span>
+              <span className="text-surface-500 font-mono">{r.place > 0 ? ordinal(r.place) : '—'}</span>
+              <span className="text-accent-400/80 font-mono font-bold">+{r.points}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {picks.slice(0, TOP_PICKS).map(({ id, count }) => {
+            const entrant = byId.get(id);
+            if (!entrant) return null;
+            return (
+              <div key={id} className="flex items-center gap-2 text-[10px]">
+                <FlagImage entrant={entrant} className="w-4 h-3 object-cover rounded-[2px] border border-white/10" />
+                <span className="text-surface-300 flex-1">{entrant.name}</span>
+                <span className="text-surface-400 font-mono">{Math.round((count / pickCount) * 100)}%</span>
+              </div>
+            );
+          })}
+          <div className="text-surface-500 text-[9px] font-mono uppercase">{pickCount} picks</div>
+        </div>
+      )}
+    </div>
+  );
+};
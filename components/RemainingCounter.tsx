@@ -0,0 +1,27 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+
+interface RemainingCounterProps {
+  remaining: number;
+  total: number;
+}
+
+export const RemainingCounter: React.FC<RemainingCounterProps> = ({ remaining, total }) => {
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-md border border-accent-500/20 rounded-lg px-4 py-2 shadow-glow flex items-baseline gap-2">
+      <motion.span
+        key={remaining}
+        className="text-ink text-2xl font-black font-mono tabular-nums animate-flash-accent"
+        initial={{ scale: 1.3 }}
+        animate={{ scale: 1 }}
+        transition={{ duration: 0.4 }}
+      >
+        {remaining}
+      </motion.span>
+      <span className="text-accent-400 text-[10px] tracking-[0.2em] font-bold uppercase">
+        Remaining
+      </span>
+      <span className="text-surface-500 text-[10px] font-mono">/ {total}</span>
+    </div>
+  );
+};
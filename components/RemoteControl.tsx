@@ -0,0 +1,100 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { HOST_COMMANDS, HostCommand, ShowState, connectRemote } from '../services/hostControl';
+import { LifecycleState } from '../services/lifecycle';
+import { DEFAULT_THEME_ID, applyTheme, resolveTheme } from '../services/themes';
+
+const PHASE_LABELS: Record<LifecycleState, string> = {
+  idle: 'Idle',
+  preloading: 'Loading',
+  formation: 'Formation',
+  countdown: 'Countdown',
+  scatter: 'Scatter',
+  finale: 'Finale',
+  celebration: 'Replay / champion',
+  intermission: 'Bracket',
+  paused: 'Paused'
+};
+
+// Which toggles are currently on, for highlighting their buttons
+const isOn = (state: ShowState, command: HostCommand) =>
+  (command === 'togglePause' && state.paused) ||
+  (command === 'toggleAutoRestart' && state.autoRestart) ||
+  (command === 'toggleLeaderboard' && state.leaderboardVisible);
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-baseline justify-between gap-4 py-1 border-b border-ink/5">
+    <span className="text-surface-500 text-[10px] tracking-[0.2em] uppercase">{label}</span>
+    <span className="text-surface-200 font-mono text-right">{children}</span>
+  </div>
+);
+
+// Operator page (remote.html). Talks to the show window over a
+// BroadcastChannel, so it must be opened in the same browser.
+export const RemoteControl: React.FC = () => {
+  const [state, setState] = useState<ShowState | null>(null);
+  const remoteRef = useRef<ReturnType<typeof connectRemote> | null>(null);
+
+  useEffect(() => {
+    const remote = connectRemote(setState);
+    remoteRef.current = remote;
+    return () => {
+      remoteRef.current = null;
+      remote.close();
+    };
+  }, []);
+
+  // Styled like the show; custom themes are shared through localStorage
+  const themeId = state?.theme ?? DEFAULT_THEME_ID;
+  useLayoutEffect(() => {
+    applyTheme(resolveTheme(themeId));
+  }, [themeId]);
+
+  return (
+    <div className="min-h-screen bg-surface-950 text-surface-300 font-sans p-6 flex flex-col items-center gap-6">
+      <h1 className="text-accent-400 text-xs tracking-[0.5em] font-bold uppercase">Show Remote</h1>
+
+      {typeof BroadcastChannel === 'undefined' && (
+        <div className="text-red-300 text-xs">This browser has no BroadcastChannel support.</div>
+      )}
+
+      <div className="w-full max-w-md bg-surface-900/80 border border-accent-500/20 rounded-lg px-4 py-3 text-sm">
+        {state ? (
+          <>
+            <Row label="Phase">
+              {PHASE_LABELS[state.phase]}
+              {state.paused && <span className="ml-2 text-amber-400">(paused)</span>}
+            </Row>
+            {state.heat && <Row label="Heat">{state.heat}</Row>}
+            <Row label="Remaining">{state.remaining} / {state.total}</Row>
+            <Row label="Winner">{state.winner?.name ?? '—'}</Row>
+            <Row label="Season leader">
+              {state.leader ? `${state.leader.name} (${state.leader.wins} ${state.leader.wins === 1 ? 'win' : 'wins'})` : '—'}
+            </Row>
+          </>
+        ) : (
+          <div className="text-surface-500 text-xs text-center py-4">
+            Waiting for the show window. Open it in this browser, on this machine.
+          </div>
+        )}
+      </div>
+
+      <div className="w-full max-w-md grid grid-cols-2 gap-3">
+        {HOST_COMMANDS.map(({ command, label, key }) => (
+          <button
+            key={command}
+            disabled={!state}
+            onClick={() => remoteRef.current?.send(command)}
+            className={`rounded-lg border px-4 py-4 text-left transition-colors disabled:opacity-40 ${
+              state && isOn(state, command)
+                ? 'border-accent-400 bg-accent-500/20 text-ink'
+                : 'border-accent-500/20 bg-surface-900/80 hover:border-accent-400/60'
+            }`}
+          >
+            <div className="text-sm font-bold uppercase tracking-wider">{label}</div>
+            <div className="text-surface-500 text-[10px] font-mono mt-1">key {key.toUpperCase()}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
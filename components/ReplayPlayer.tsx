@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAnimationFrame } from 'framer-motion';
+import { Replay, replayDuration, replayPoseAt } from '../engine/replay';
+import { ArenaHandle, RendererId } from '../renderer/arenaRenderer';
+import { Camera, CameraSettings, Highlight, IDLE_CAMERA, cameraTarget, followCamera } from '../renderer/camera';
+import { Arena, arenaBoxSize } from './Arena';
+import { Theme } from '../services/themes';
+import { formatDuration } from '../utils/format';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const NO_HIGHLIGHTS: Highlight[] = []; // Replays keep no bounces to find near misses in
+
+interface ReplayPlayerProps {
+  replay: Replay;
+  startMs?: number;
+  autoPlay?: boolean;
+  showControls?: boolean;
+  renderer?: RendererId;
+  theme: Theme;
+  size?: number;              // Arena box as a fraction of the stage's short side
+  cinematic?: CameraSettings; // Finale camera and slow motion, as in the live round
+  paused?: boolean;           // Held by the host, on top of the player's own play/pause
+  onEnded?: () => void;
+}
+
+// Re-renders a recorded round through the same arena renderers as the live
+// round, with play/pause, speed and a timeline scrubber.
+export const ReplayPlayer: React.FC<ReplayPlayerProps> = ({
+  replay,
+  startMs = 0,
+  autoPlay = true,
+  showControls = true,
+  renderer = 'dom',
+  theme,
+  size,
+  cinematic,
+  paused = false,
+  onEnded
+}) => {
+  const duration = replayDuration(replay);
+  const [playing, setPlaying] = useState(autoPlay);
+  const [speed, setSpeed] = useState(1);
+  const [displayTime, setDisplayTime] = useState(startMs);
+
+  const playheadRef = useRef(startMs);
+  const endedRef = useRef(false);
+  const arenaRef = useRef<ArenaHandle>(null);
+  const cameraRef = useRef<Camera>(IDLE_CAMERA);
+
+  useEffect(() => {
+    playheadRef.current = startMs;
+    endedRef.current = false;
+    setDisplayTime(startMs);
+    setPlaying(autoPlay);
+    cameraRef.current = IDLE_CAMERA;
+  }, [replay, startMs, autoPlay]);
+
+  useAnimationFrame((time, delta) => {
+    if (playing && !paused) {
+      playheadRef.current = Math.min(duration, playheadRef.current + delta * speed * cameraRef.current.timeScale);
+      if (playheadRef.current >= duration) {
+        setPlaying(false);
+        if (!endedRef.current) {
+          endedRef.current = true;
+          onEnded?.();
+        }
+      }
+    }
+
+    const pose = replayPoseAt(replay, playheadRef.current);
+    if (cinematic) {
+      cameraRef.current = followCamera(cameraRef.current, cameraTarget(pose, replay.config, cinematic), delta);
+    }
+    arenaRef.current?.render(pose, time, { camera: cameraRef.current, highlights: NO_HIGHLIGHTS });
+
+    // Only re-render React when the clock display changes
+    if (Math.floor(playheadRef.current / 100) !== Math.floor(displayTime / 100)) {
+      setDisplayTime(playheadRef.current);
+    }
+  });
+
+  const seek = (ms: number) => {
+    playheadRef.current = Math.max(0, Math.min(duration, ms));
+    endedRef.current = playheadRef.current >= duration;
+    setDisplayTime(playheadRef.current);
+  };
+
+  const togglePlay = () => {
+    if (!playing && playheadRef.current >= duration) seek(0);
+    setPlaying(p => !p);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <Arena
+        ref={arenaRef}
+        renderer={renderer}
+        entrants={replay.entrants}
+        config={replay.config}
+        champion={null}
+        theme={theme}
+        size={size}
+      />
+
+      {showControls && (
+        <div
+          className="bg-surface-900/80 backdrop-blur-md border border-accent-500/20 rounded-lg px-4 py-3 flex flex-col gap-2 text-[10px] font-mono uppercase tracking-widest text-surface-400"
+          style={{ width: arenaBoxSize(size) }}
+        >
+          <input
+            type="range"
+            className="w-full accent-accent-400"
+            min={0}
+            max={duration}
+            step={10}
+            value={displayTime}
+            onChange={e => seek(Number(e.target.value))}
+          />
+          <div className="flex items-center justify-between">
+            <button className="text-accent-300 hover:text-ink w-12 text-left" onClick={togglePlay}>
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <span className="tabular-nums">{formatDuration(displayTime)} / {formatDuration(duration)}</span>
+            <div className="flex gap-2">
+              {REPLAY_SPEEDS.map(s => (
+                <button
+                  key={s}
+                  className={s === speed ? 'text-accent-300' : 'hover:text-accent-300'}
+                  onClick={() => setSpeed(s)}
+                >
+                  {s}x
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
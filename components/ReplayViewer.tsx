@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Replay, parseReplayJson, replayToJson } from '../engine/replay';
+import { downloadFile } from '../services/download';
+import { RendererId } from '../renderer/arenaRenderer';
+import { ReplayPlayer } from './ReplayPlayer';
+import { Theme } from '../services/themes';
+
+// Smaller than the live arena, leaving room for the header and the controls
+const VIEWER_ARENA_FRACTION = 0.55;
+
+interface ReplayViewerProps {
+  replay: Replay | null;
+  renderer: RendererId;
+  theme: Theme;
+  onLoad: (replay: Replay) => void;
+  onClose: () => void;
+}
+
+// Full-screen replay browser: plays the last round, or one loaded from a file
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, renderer, theme, onLoad, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLoad = async (file: File) => {
+    try {
+      onLoad(parseReplayJson(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read replay');
+    }
+  };
+
+  const winnerName = replay?.entrants.find(e => e.id === replay.winner)?.name;
+
+  return (
+    <motion.div
+      className="absolute inset-0 z-[55] bg-surface-950/90 backdrop-blur-sm flex flex-col items-center justify-center gap-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <div className="flex items-center gap-6 text-[10px] font-mono uppercase tracking-widest">
+        <span className="text-accent-400 font-bold tracking-[0.3em]">Replay</span>
+        {replay && (
+          <span className="text-surface-500">
+            Seed {replay.seed}{winnerName ? ` · Won by ${winnerName}` : ''}
+          </span>
+        )}
+        {replay && (
+          <button
+            className="text-surface-400 hover:text-accent-300"
+            onClick={() => downloadFile(`replay-${replay.seed}.json`, replayToJson(replay), 'application/json')}
+          >
+            Save
+          </button>
+        )}
+        <button className="text-surface-400 hover:text-accent-300" onClick={() => fileInputRef.current?.click()}>
+          Load
+        </button>
+        <button className="text-surface-400 hover:text-red-400" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {error && <div className="text-red-400 text-[10px] font-mono">{error}</div>}
+
+      {replay ? (
+        <ReplayPlayer replay={replay} renderer={renderer} theme={theme} size={VIEWER_ARENA_FRACTION} />
+      ) : (
+        <div className="text-surface-500 text-[10px] font-mono uppercase py-24">No round recorded yet</div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleLoad(file);
+          e.target.value = '';
+        }}
+      />
+    </motion.div>
+  );
+};
@@ -0,0 +1,474 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  GameConfig,
+  ConfigIssue,
+  CONFIG_FIELDS,
+  DEFAULT_GAME_CONFIG,
+  validateConfig,
+  parseEntrantList,
+  configToParams,
+  loadPresets,
+  savePresets,
+  selectEntrants,
+  tournamentSettings
+} from '../services/gameConfig';
+import { Tournament, createTournament, currentHeat } from '../services/tournament';
+import { randomSeed } from '../engine/rng';
+import { allRosters, parseRosterFile, regionsOf, saveSavedRosters } from '../services/rosters';
+import { allThemes, parseThemeJson, saveSavedThemes } from '../services/themes';
+
+const TOGGLE_KEY = '`';
+
+interface SettingsPanelProps {
+  config: GameConfig;
+  startupIssues: ConfigIssue[]; // Problems found in the URL parameters
+  onChange: (config: GameConfig) => void;
+  tournament: Tournament | null;
+  onTournamentChange: (tournament: Tournament | null) => void;
+  onThemesChange: () => void; // A custom theme was imported or deleted
+}
+
+interface UrlInputProps {
+  value: string;
+  invalid: boolean;
+  placeholder: string;
+  onCommit: (value: string) => void;
+}
+
+// Applied on blur or Enter: every change reconnects, so typing must not
+const UrlInput: React.FC<UrlInputProps> = ({ value, invalid, placeholder, onCommit }) => {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+
+  const commit = () => {
+    const next = text.trim();
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <input
+      className={`w-full bg-surface-800 border rounded px-1 py-0.5 font-mono ${invalid ? 'border-red-500' : 'border-accent-500/20'}`}
+      placeholder={placeholder}
+      value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => e.key === 'Enter' && commit()}
+    />
+  );
+};
+
+// Hidden host panel, toggled with the backtick key. Valid edits apply
+// immediately; invalid ones are listed and held back until fixed.
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, startupIssues, onChange, tournament, onTournamentChange, onThemesChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<GameConfig>(config);
+  const [entrantsText, setEntrantsText] = useState(config.entrants.join(', '));
+  const [presets, setPresets] = useState(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [rosters, setRosters] = useState(allRosters);
+  const rosterInputRef = useRef<HTMLInputElement>(null);
+  const [themes, setThemes] = useState(allThemes);
+  const themeInputRef = useRef<HTMLInputElement>(null);
+
+  const issues = validateConfig(draft);
+  const roster = rosters.find(r => r.id === draft.roster);
+  const regions = regionsOf(roster?.entrants ?? []);
+  const theme = themes.find(t => t.id === draft.theme);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === TOGGLE_KEY) setOpen(o => !o);
+      if (e.key === 'Escape') setOpen(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Pick up config changes made elsewhere (e.g. loading a preset)
+  useEffect(() => {
+    setDraft(config);
+    setEntrantsText(config.entrants.join(', '));
+  }, [config]);
+
+  const update = (next: GameConfig) => {
+    setDraft(next);
+    setNotice(null);
+    if (validateConfig(next).length === 0) onChange(next);
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets[name];
+    if (!preset) return;
+    setPresetName(name);
+    update(preset);
+  };
+
+  const storePreset = () => {
+    const name = presetName.trim();
+    if (!name || issues.length > 0) return;
+    const next = { ...presets, [name]: draft };
+    setPresets(next);
+    savePresets(next);
+    setNotice(`Saved preset "${name}"`);
+  };
+
+  const deletePreset = () => {
+    if (!presets[presetName]) return;
+    const { [presetName]: _removed, ...rest } = presets;
+    setPresets(rest);
+    savePresets(rest);
+    setNotice(`Deleted preset "${presetName}"`);
+  };
+
+  // Ids differ between rosters, so switching starts from the whole roster
+  const selectRoster = (id: string) => {
+    setEntrantsText('');
+    update({ ...draft, roster: id, region: '', entrants: [] });
+  };
+
+  const importRoster = async (file: File) => {
+    try {
+      const imported = parseRosterFile(file.name, await file.text());
+      const next = [...rosters.filter(r => r.id !== imported.id), imported];
+      saveSavedRosters(next);
+      setRosters(next);
+      selectRoster(imported.id);
+      setNotice(`Imported roster "${imported.name}" (${imported.entrants.length} entrants)`);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Roster import failed');
+    }
+  };
+
+  const deleteRoster = () => {
+    if (!roster || roster.builtIn) return;
+    if (!window.confirm(`Delete roster "${roster.name}"?`)) return;
+    const next = rosters.filter(r => r.id !== roster.id);
+    saveSavedRosters(next);
+    setRosters(next);
+    selectRoster(DEFAULT_GAME_CONFIG.roster);
+    setNotice(`Deleted roster "${roster.name}"`);
+  };
+
+  // Re-importing a theme with the same id replaces it
+  const importTheme = async (file: File) => {
+    try {
+      const imported = parseThemeJson(await file.text(), themes);
+      const next = [...themes.filter(t => t.id !== imported.id), imported];
+      saveSavedThemes(next);
+      setThemes(next);
+      onThemesChange();
+      update({ ...draft, theme: imported.id });
+      setNotice(`Imported theme "${imported.name}"`);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Theme import failed');
+    }
+  };
+
+  const deleteTheme = () => {
+    if (!theme || theme.builtIn) return;
+    if (!window.confirm(`Delete theme "${theme.name}"?`)) return;
+    const next = themes.filter(t => t.id !== theme.id);
+    saveSavedThemes(next);
+    setThemes(next);
+    onThemesChange();
+    update({ ...draft, theme: DEFAULT_GAME_CONFIG.theme });
+    setNotice(`Deleted theme "${theme.name}"`);
+  };
+
+  // Uses the selected roster, region and entrants, and the Tournament settings above
+  const startTournament = () => {
+    if (issues.length > 0) return;
+    if (tournament && !window.confirm('Abandon the running tournament and start a new one?')) return;
+    const next = createTournament(selectEntrants(draft), tournamentSettings(draft), randomSeed());
+    onTournamentChange(next);
+    setNotice(`Tournament started: ${next.stages[0].heats.length} heat(s)`);
+  };
+
+  const abandonTournament = () => {
+    if (!tournament || !window.confirm('Abandon the running tournament?')) return;
+    onTournamentChange(null);
+    setNotice('Tournament abandoned');
+  };
+
+  const tournamentHeat = tournament && currentHeat(tournament);
+
+  const copyShareLink = async () => {
+    const url = new URL(window.location.href);
+    url.search = configToParams(draft).toString();
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setNotice('Share link copied');
+    } catch {
+      setNotice(url.toString());
+    }
+  };
+
+  const groups = [...new Set(CONFIG_FIELDS.map(f => f.group))];
+  const issueFor = (key: string) => issues.find(i => i.key === key);
+
+  return (
+    <>
+      {/* URL problems stay visible until the panel is opened */}
+      {!open && startupIssues.length > 0 && (
+        <div className="absolute bottom-4 right-4 z-50 max-w-xs bg-red-950/80 border border-red-500/40 rounded-lg px-3 py-2 text-[10px] font-mono text-red-300">
+          <div className="font-bold uppercase tracking-widest mb-1">Config warnings</div>
+          {startupIssues.map((issue, i) => <div key={i}>{issue.message}</div>)}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="absolute top-0 right-0 bottom-0 z-[60] w-[320px] overflow-y-auto bg-surface-950/95 backdrop-blur-md border-l border-accent-500/20 p-4 text-surface-300 text-[11px]"
+            initial={{ x: 320 }}
+            animate={{ x: 0 }}
+            exit={{ x: 320 }}
+            transition={{ type: 'tween', duration: 0.2 }}
+          >
+            <div className="flex items-center justify-between mb-4 border-b border-accent-500/20 pb-2">
+              <h3 className="text-accent-400 text-[10px] tracking-[0.2em] font-bold uppercase">Settings</h3>
+              <button className="text-surface-500 hover:text-accent-300 font-mono" onClick={() => setOpen(false)}>
+                ESC
+              </button>
+            </div>
+
+            {groups.map(group => (
+              <div key={group} className="mb-4">
+                <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">{group}</div>
+                {CONFIG_FIELDS.filter(f => f.group === group).map(field => {
+                  const issue = issueFor(field.key);
+                  return (
+                    <label key={field.key} className="flex items-center justify-between gap-2 mb-1.5">
+                      <span className={issue ? 'text-red-400' : ''}>
+                        {field.label}
+                        {!field.live && <span className="text-surface-600"> *</span>}
+                      </span>
+                      {field.kind === 'select' ? (
+                        <select
+                          className="w-32 bg-surface-800 border border-accent-500/20 rounded px-1 py-0.5"
+                          value={draft[field.key]}
+                          onChange={e => update({ ...draft, [field.key]: e.target.value })}
+                        >
+                          {field.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                      ) : field.kind === 'boolean' ? (
+                        <input
+                          type="checkbox"
+                          checked={draft[field.key]}
+                          onChange={e => update({ ...draft, [field.key]: e.target.checked })}
+                        />
+                      ) : (
+                        <input
+                          type="number"
+                          className={`w-20 bg-surface-800 border rounded px-1 py-0.5 text-right font-mono ${issue ? 'border-red-500' : 'border-accent-500/20'}`}
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={Number.isNaN(draft[field.key]) ? '' : draft[field.key]}
+                          onChange={e => update({ ...draft, [field.key]: e.target.valueAsNumber })}
+                        />
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            ))}
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">Theme</div>
+              <label className="flex items-center justify-between gap-2 mb-1.5">
+                <span className={issueFor('theme') ? 'text-red-400' : ''}>Theme</span>
+                <select
+                  className="w-32 bg-surface-800 border border-accent-500/20 rounded px-1 py-0.5"
+                  value={draft.theme}
+                  onChange={e => update({ ...draft, theme: e.target.value })}
+                >
+                  {!theme && <option value={draft.theme}>{draft.theme}</option>}
+                  {themes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </label>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 font-mono uppercase text-[9px] tracking-widest text-surface-400">
+                <button className="hover:text-accent-300" onClick={() => themeInputRef.current?.click()}>
+                  Import JSON
+                </button>
+                <button className="hover:text-red-400 disabled:opacity-30" disabled={!theme || theme.builtIn} onClick={deleteTheme}>
+                  Delete
+                </button>
+              </div>
+              <input
+                ref={themeInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) importTheme(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">Roster</div>
+              <label className="flex items-center justify-between gap-2 mb-1.5">
+                <span className={issueFor('roster') ? 'text-red-400' : ''}>
+                  Roster<span className="text-surface-600"> *</span>
+                </span>
+                <select
+                  className="w-32 bg-surface-800 border border-accent-500/20 rounded px-1 py-0.5"
+                  value={draft.roster}
+                  onChange={e => selectRoster(e.target.value)}
+                >
+                  {!roster && <option value={draft.roster}>{draft.roster}</option>}
+                  {rosters.map(r => <option key={r.id} value={r.id}>{r.name} ({r.entrants.length})</option>)}
+                </select>
+              </label>
+              {regions.continents.length > 0 && (
+                <label className="flex items-center justify-between gap-2 mb-1.5">
+                  <span className={issueFor('region') ? 'text-red-400' : ''}>
+                    Region<span className="text-surface-600"> *</span>
+                  </span>
+                  <select
+                    className="w-32 bg-surface-800 border border-accent-500/20 rounded px-1 py-0.5"
+                    value={draft.region}
+                    onChange={e => update({ ...draft, region: e.target.value })}
+                  >
+                    <option value="">Everywhere</option>
+                    <optgroup label="Continents">
+                      {regions.continents.map(r => <option key={r} value={r}>{r}</option>)}
+                    </optgroup>
+                    <optgroup label="Subregions">
+                      {regions.subregions.map(r => <option key={r} value={r}>{r}</option>)}
+                    </optgroup>
+                  </select>
+                </label>
+              )}
+              <div className="flex flex-wrap gap-x-3 gap-y-1 font-mono uppercase text-[9px] tracking-widest text-surface-400">
+                <button className="hover:text-accent-300" onClick={() => rosterInputRef.current?.click()}>
+                  Import JSON/CSV
+                </button>
+                <button className="hover:text-red-400 disabled:opacity-30" disabled={!roster || roster.builtIn} onClick={deleteRoster}>
+                  Delete
+                </button>
+              </div>
+              <input
+                ref={rosterInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) importRoster(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">
+                Entrants <span className="normal-case tracking-normal">(ids, blank = all)</span>
+              </div>
+              <textarea
+                className={`w-full h-16 bg-surface-800 border rounded px-1 py-0.5 font-mono ${issueFor('entrants') ? 'border-red-500' : 'border-accent-500/20'}`}
+                value={entrantsText}
+                onChange={e => {
+                  setEntrantsText(e.target.value);
+                  update({ ...draft, entrants: parseEntrantList(e.target.value) });
+                }}
+              />
+            </div>
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">
+                Chat <span className="normal-case tracking-normal">(ws:// url, blank = off)</span>
+              </div>
+              <UrlInput
+                value={draft.chatUrl}
+                invalid={!!issueFor('chatUrl')}
+                placeholder="ws://localhost:8787"
+                onCommit={chatUrl => update({ ...draft, chatUrl })}
+              />
+            </div>
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">
+                Results webhook <span className="normal-case tracking-normal">(http:// url, blank = off)</span>
+              </div>
+              <UrlInput
+                value={draft.webhookUrl}
+                invalid={!!issueFor('webhookUrl')}
+                placeholder="http://localhost:8788/results"
+                onCommit={webhookUrl => update({ ...draft, webhookUrl })}
+              />
+            </div>
+
+            <div className="text-surface-600 text-[9px] mb-3">* applies from the next round</div>
+
+            {issues.length > 0 && (
+              <div className="mb-4 border border-red-500/40 bg-red-950/50 rounded p-2 text-red-300 font-mono text-[10px]">
+                {issues.map((issue, i) => <div key={i}>{issue.message}</div>)}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">Tournament</div>
+              <div className="text-surface-400 font-mono text-[10px] mb-2">
+                {!tournament
+                  ? 'Not running'
+                  : tournamentHeat
+                    ? `${tournamentHeat.stage.name}: ${tournamentHeat.heat.name} (${tournamentHeat.heatIndex + 1}/${tournamentHeat.stage.heats.length})`
+                    : 'Finished'}
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 font-mono uppercase text-[9px] tracking-widest text-surface-400">
+                <button className="hover:text-accent-300 disabled:opacity-30" disabled={issues.length > 0} onClick={startTournament}>
+                  Start
+                </button>
+                <button className="hover:text-red-400 disabled:opacity-30" disabled={!tournament} onClick={abandonTournament}>
+                  Abandon
+                </button>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <div className="text-surface-500 text-[9px] tracking-[0.2em] uppercase mb-2">Presets</div>
+              <div className="flex gap-1 mb-2">
+                <input
+                  className="flex-1 bg-surface-800 border border-accent-500/20 rounded px-1 py-0.5"
+                  placeholder="Preset name"
+                  list="nexus-presets"
+                  value={presetName}
+                  onChange={e => setPresetName(e.target.value)}
+                />
+                <datalist id="nexus-presets">
+                  {Object.keys(presets).map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 font-mono uppercase text-[9px] tracking-widest text-surface-400">
+                <button className="hover:text-accent-300 disabled:opacity-30" disabled={!presets[presetName]} onClick={() => applyPreset(presetName)}>
+                  Load
+                </button>
+                <button className="hover:text-accent-300 disabled:opacity-30" disabled={!presetName.trim() || issues.length > 0} onClick={storePreset}>
+                  Save
+                </button>
+                <button className="hover:text-red-400 disabled:opacity-30" disabled={!presets[presetName]} onClick={deletePreset}>
+                  Delete
+                </button>
+                <button className="hover:text-accent-300" onClick={() => update(DEFAULT_GAME_CONFIG)}>
+                  Defaults
+                </button>
+                <button className="hover:text-accent-300" onClick={copyShareLink}>
+                  Copy Link
+                </button>
+              </div>
+            </div>
+
+            {notice && <div className="text-accent-300/70 font-mono text-[10px] break-all">{notice}</div>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
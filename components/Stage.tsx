@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { STAGE_ZOOM, StageId, getStage } from '../services/overlay';
+
+interface StageProps {
+  stage: StageId;
+  children: React.ReactNode;
+}
+
+// Lays the show out at a fixed output resolution and scales it to fit the
+// window, so a 1920x1080 OBS browser source gets exactly that frame and a
+// host preview shows the same composition letterboxed. `fit` just fills the window.
+// Either way the stage's short side is published as --stage-short, which the
+// arena sizes itself from (vmin would ignore the stage's own size).
+export const Stage: React.FC<StageProps> = ({ stage, children }) => {
+  const { width, height } = getStage(stage);
+  const [scale, setScale] = useState(1);
+  const [fitShort, setFitShort] = useState(0);
+  const fitRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!width) return;
+    const fit = () => setScale(Math.min(window.innerWidth / width, window.innerHeight / height) * STAGE_ZOOM);
+    fit();
+    window.addEventListener('resize', fit);
+    return () => window.removeEventListener('resize', fit);
+  }, [width, height]);
+
+  useEffect(() => {
+    const el = fitRef.current;
+    if (width || !el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setFitShort(Math.min(entry.contentRect.width, entry.contentRect.height));
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [width]);
+
+  if (!width) {
+    return (
+      <div
+        ref={fitRef}
+        className="relative w-full h-full flex items-center justify-center"
+        style={fitShort ? ({ '--stage-short': `${fitShort}px` } as React.CSSProperties) : undefined}
+      >
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative shrink-0 overflow-hidden flex items-center justify-center"
+      style={{
+        width: width / STAGE_ZOOM,
+        height: height / STAGE_ZOOM,
+        transform: `scale(${scale})`,
+        '--stage-short': `${Math.min(width, height) / STAGE_ZOOM}px`
+      } as React.CSSProperties}
+    >
+      {children}
+    </div>
+  );
+};
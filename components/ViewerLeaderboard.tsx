@@ -0,0 +1,55 @@
+import React from 'react';
+import { ViewerPointsData, createViewerPoints, viewerStandings } from '../services/predictions';
+
+const VISIBLE_ROWS = 5;
+
+interface ViewerLeaderboardProps {
+  data: ViewerPointsData;
+  onChange: (data: ViewerPointsData) => void;
+}
+
+// Prediction points per viewer, next to the entrant leaderboard
+export const ViewerLeaderboard: React.FC<ViewerLeaderboardProps> = ({ data, onChange }) => {
+  const rows = viewerStandings(data).slice(0, VISIBLE_ROWS);
+
+  const handleReset = () => {
+    if (!window.confirm('Reset all viewer points?')) return;
+    onChange(createViewerPoints());
+  };
+
+  return (
+    <div className="bg-surface-900/80 backdrop-blur-md border border-accent-500/20 rounded-lg p-4 min-w-[180px] shadow-glow pointer-events-auto">
+      <div className="flex items-center justify-between gap-3 mb-3 border-b border-accent-500/20 pb-2">
+        <h3 className="text-accent-400 text-[10px] tracking-[0.2em] font-bold uppercase">Top Viewers</h3>
+        <button
+          className="text-surface-500 hover:text-red-400 text-[9px] font-mono uppercase tracking-widest transition-colors"
+          onClick={handleReset}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {rows.length === 0 ? (
+          <div className="text-surface-500 text-[10px] font-mono uppercase text-center py-1">
+            No Predictions Yet
+          </div>
+        ) : (
+          rows.map((viewer, i) => (
+            <div key={viewer.user} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <span className={`text-[10px] font-mono w-3 ${i === 0 ? 'text-yellow-400' : 'text-surface-500'}`}>
+                  {i + 1}
+                </span>
+                <span className="text-surface-300 text-[11px] font-medium tracking-wide truncate max-w-[120px]">
+                  {viewer.user}
+                </span>
+              </div>
+              <span className="text-accent-400/80 text-[10px] font-mono font-bold">{viewer.points}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
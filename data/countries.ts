@@ -0,0 +1,44 @@
+import { Entrant } from '../types';
+import { ISO_COUNTRIES } from './isoCountries';
+
+const ISO_BY_CODE = new Map(ISO_COUNTRIES.map(c => [c.code, c]));
+
+export const isCountryCode = (code: string) => ISO_BY_CODE.has(code);
+
+// A country as an entrant: the ISO code doubles as its id and flag
+export const countryEntrant = (code: string, name?: string): Entrant => {
+  const info = ISO_BY_CODE.get(code);
+  return {
+    id: code,
+    name: name ?? info?.name ?? code.toUpperCase(),
+    country: code,
+    continent: info?.continent,
+    subregion: info?.subregion
+  };
+};
+
+// The original 50-country lineup, with the short names the show has always used
+const CLASSIC_COUNTRIES: { code: string; name: string }[] = [
+  { code: 'us', name: 'USA' }, { code: 'gb', name: 'UK' }, { code: 'jp', name: 'Japan' },
+  { code: 'de', name: 'Germany' }, { code: 'fr', name: 'France' }, { code: 'ca', name: 'Canada' },
+  { code: 'au', name: 'Australia' }, { code: 'it', name: 'Italy' }, { code: 'es', name: 'Spain' },
+  { code: 'nl', name: 'Netherlands' }, { code: 'se', name: 'Sweden' }, { code: 'ch', name: 'Switzerland' },
+  { code: 'kr', name: 'South Korea' }, { code: 'sg', name: 'Singapore' }, { code: 'br', name: 'Brazil' },
+  { code: 'in', name: 'India' }, { code: 'cn', name: 'China' }, { code: 'ru', name: 'Russia' },
+  { code: 'mx', name: 'Mexico' }, { code: 'za', name: 'South Africa' }, { code: 'tr', name: 'Turkey' },
+  { code: 'id', name: 'Indonesia' }, { code: 'sa', name: 'Saudi Arabia' }, { code: 'ar', name: 'Argentina' },
+  { code: 'pl', name: 'Poland' }, { code: 'be', name: 'Belgium' }, { code: 'no', name: 'Norway' },
+  { code: 'dk', name: 'Denmark' }, { code: 'fi', name: 'Finland' }, { code: 'nz', name: 'New Zealand' },
+  { code: 'pt', name: 'Portugal' }, { code: 'gr', name: 'Greece' }, { code: 'ie', name: 'Ireland' },
+  { code: 'at', name: 'Austria' }, { code: 'cz', name: 'Czechia' }, { code: 'hu', name: 'Hungary' },
+  { code: 'ro', name: 'Romania' }, { code: 'ua', name: 'Ukraine' }, { code: 'cl', name: 'Chile' },
+  { code: 'co', name: 'Colombia' }, { code: 'pe', name: 'Peru' }, { code: 've', name: 'Venezuela' },
+  { code: 'eg', name: 'Egypt' }, { code: 'ng', name: 'Nigeria' }, { code: 'ke', name: 'Kenya' },
+  { code: 'th', name: 'Thailand' }, { code: 'vn', name: 'Vietnam' }, { code: 'my', name: 'Malaysia' },
+  { code: 'ph', name: 'Philippines' }, { code: 'pk', name: 'Pakistan' }
+];
+
+export const countriesList: Entrant[] = CLASSIC_COUNTRIES.map(({ code, name }) => countryEntrant(code, name));
+
+// Every ISO 3166-1 country and territory
+export const worldCountriesList: Entrant[] = ISO_COUNTRIES.map(({ code }) => countryEntrant(code));
@@ -0,0 +1,261 @@
+// Generated by scripts/generate-countries.ts from the world-countries package. Do not edit.
+
+export interface CountryInfo {
+  code: string;      // ISO 3166-1 alpha-2, lower case
+  name: string;
+  continent: string;
+  subregion: string;
+}
+
+export const ISO_COUNTRIES: CountryInfo[] = [
+  { code: 'af', name: 'Afghanistan', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'ax', name: 'Åland Islands', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'al', name: 'Albania', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'dz', name: 'Algeria', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'as', name: 'American Samoa', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'ad', name: 'Andorra', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'ao', name: 'Angola', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'ai', name: 'Anguilla', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'aq', name: 'Antarctica', continent: 'Antarctica', subregion: 'Antarctica' },
+  { code: 'ag', name: 'Antigua and Barbuda', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'ar', name: 'Argentina', continent: 'South America', subregion: 'South America' },
+  { code: 'am', name: 'Armenia', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'aw', name: 'Aruba', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'au', name: 'Australia', continent: 'Oceania', subregion: 'Australia and New Zealand' },
+  { code: 'at', name: 'Austria', continent: 'Europe', subregion: 'Central Europe' },
+  { code: 'az', name: 'Azerbaijan', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'bs', name: 'Bahamas', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'bh', name: 'Bahrain', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'bd', name: 'Bangladesh', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'bb', name: 'Barbados', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'by', name: 'Belarus', continent: 'Europe', subregion: 'Eastern Europe' },
+  { code: 'be', name: 'Belgium', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'bz', name: 'Belize', continent: 'North America', subregion: 'Central America' },
+  { code: 'bj', name: 'Benin', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'bm', name: 'Bermuda', continent: 'North America', subregion: 'North America' },
+  { code: 'bt', name: 'Bhutan', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'bo', name: 'Bolivia', continent: 'South America', subregion: 'South America' },
+  { code: 'ba', name: 'Bosnia and Herzegovina', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'bw', name: 'Botswana', continent: 'Africa', subregion: 'Southern Africa' },
+  { code: 'bv', name: 'Bouvet Island', continent: 'Antarctica', subregion: 'Antarctica' },
+  { code: 'br', name: 'Brazil', continent: 'South America', subregion: 'South America' },
+  { code: 'io', name: 'British Indian Ocean Territory', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'vg', name: 'British Virgin Islands', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'bn', name: 'Brunei', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'bg', name: 'Bulgaria', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'bf', name: 'Burkina Faso', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'bi', name: 'Burundi', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'kh', name: 'Cambodia', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'cm', name: 'Cameroon', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'ca', name: 'Canada', continent: 'North America', subregion: 'North America' },
+  { code: 'cv', name: 'Cape Verde', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'bq', name: 'Caribbean Netherlands', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'ky', name: 'Cayman Islands', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'cf', name: 'Central African Republic', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'td', name: 'Chad', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'cl', name: 'Chile', continent: 'South America', subregion: 'South America' },
+  { code: 'cn', name: 'China', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'cx', name: 'Christmas Island', continent: 'Oceania', subregion: 'Australia and New Zealand' },
+  { code: 'cc', name: 'Cocos (Keeling) Islands', continent: 'Oceania', subregion: 'Australia and New Zealand' },
+  { code: 'co', name: 'Colombia', continent: 'South America', subregion: 'South America' },
+  { code: 'km', name: 'Comoros', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'ck', name: 'Cook Islands', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'cr', name: 'Costa Rica', continent: 'North America', subregion: 'Central America' },
+  { code: 'hr', name: 'Croatia', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'cu', name: 'Cuba', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'cw', name: 'Curaçao', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'cy', name: 'Cyprus', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'cz', name: 'Czechia', continent: 'Europe', subregion: 'Central Europe' },
+  { code: 'dk', name: 'Denmark', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'dj', name: 'Djibouti', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'dm', name: 'Dominica', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'do', name: 'Dominican Republic', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'cd', name: 'DR Congo', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'ec', name: 'Ecuador', continent: 'South America', subregion: 'South America' },
+  { code: 'eg', name: 'Egypt', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'sv', name: 'El Salvador', continent: 'North America', subregion: 'Central America' },
+  { code: 'gq', name: 'Equatorial Guinea', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'er', name: 'Eritrea', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'ee', name: 'Estonia', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'sz', name: 'Eswatini', continent: 'Africa', subregion: 'Southern Africa' },
+  { code: 'et', name: 'Ethiopia', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'fk', name: 'Falkland Islands', continent: 'South America', subregion: 'South America' },
+  { code: 'fo', name: 'Faroe Islands', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'fj', name: 'Fiji', continent: 'Oceania', subregion: 'Melanesia' },
+  { code: 'fi', name: 'Finland', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'fr', name: 'France', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'gf', name: 'French Guiana', continent: 'South America', subregion: 'South America' },
+  { code: 'pf', name: 'French Polynesia', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'tf', name: 'French Southern and Antarctic Lands', continent: 'Antarctica', subregion: 'Antarctica' },
+  { code: 'ga', name: 'Gabon', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'gm', name: 'Gambia', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'ge', name: 'Georgia', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'de', name: 'Germany', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'gh', name: 'Ghana', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'gi', name: 'Gibraltar', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'gr', name: 'Greece', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'gl', name: 'Greenland', continent: 'North America', subregion: 'North America' },
+  { code: 'gd', name: 'Grenada', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'gp', name: 'Guadeloupe', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'gu', name: 'Guam', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'gt', name: 'Guatemala', continent: 'North America', subregion: 'Central America' },
+  { code: 'gg', name: 'Guernsey', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'gn', name: 'Guinea', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'gw', name: 'Guinea-Bissau', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'gy', name: 'Guyana', continent: 'South America', subregion: 'South America' },
+  { code: 'ht', name: 'Haiti', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'hm', name: 'Heard Island and McDonald Islands', continent: 'Antarctica', subregion: 'Antarctica' },
+  { code: 'hn', name: 'Honduras', continent: 'North America', subregion: 'Central America' },
+  { code: 'hk', name: 'Hong Kong', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'hu', name: 'Hungary', continent: 'Europe', subregion: 'Central Europe' },
+  { code: 'is', name: 'Iceland', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'in', name: 'India', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'id', name: 'Indonesia', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'ir', name: 'Iran', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'iq', name: 'Iraq', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'ie', name: 'Ireland', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'im', name: 'Isle of Man', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'il', name: 'Israel', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'it', name: 'Italy', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'ci', name: 'Ivory Coast', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'jm', name: 'Jamaica', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'jp', name: 'Japan', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'je', name: 'Jersey', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'jo', name: 'Jordan', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'kz', name: 'Kazakhstan', continent: 'Asia', subregion: 'Central Asia' },
+  { code: 'ke', name: 'Kenya', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'ki', name: 'Kiribati', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'xk', name: 'Kosovo', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'kw', name: 'Kuwait', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'kg', name: 'Kyrgyzstan', continent: 'Asia', subregion: 'Central Asia' },
+  { code: 'la', name: 'Laos', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'lv', name: 'Latvia', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'lb', name: 'Lebanon', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'ls', name: 'Lesotho', continent: 'Africa', subregion: 'Southern Africa' },
+  { code: 'lr', name: 'Liberia', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'ly', name: 'Libya', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'li', name: 'Liechtenstein', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'lt', name: 'Lithuania', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'lu', name: 'Luxembourg', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'mo', name: 'Macau', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'mg', name: 'Madagascar', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'mw', name: 'Malawi', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'my', name: 'Malaysia', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'mv', name: 'Maldives', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'ml', name: 'Mali', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'mt', name: 'Malta', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'mh', name: 'Marshall Islands', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'mq', name: 'Martinique', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'mr', name: 'Mauritania', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'mu', name: 'Mauritius', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'yt', name: 'Mayotte', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'mx', name: 'Mexico', continent: 'North America', subregion: 'North America' },
+  { code: 'fm', name: 'Micronesia', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'md', name: 'Moldova', continent: 'Europe', subregion: 'Eastern Europe' },
+  { code: 'mc', name: 'Monaco', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'mn', name: 'Mongolia', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'me', name: 'Montenegro', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'ms', name: 'Montserrat', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'ma', name: 'Morocco', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'mz', name: 'Mozambique', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'mm', name: 'Myanmar', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'na', name: 'Namibia', continent: 'Africa', subregion: 'Southern Africa' },
+  { code: 'nr', name: 'Nauru', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'np', name: 'Nepal', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'nl', name: 'Netherlands', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'nc', name: 'New Caledonia', continent: 'Oceania', subregion: 'Melanesia' },
+  { code: 'nz', name: 'New Zealand', continent: 'Oceania', subregion: 'Australia and New Zealand' },
+  { code: 'ni', name: 'Nicaragua', continent: 'North America', subregion: 'Central America' },
+  { code: 'ne', name: 'Niger', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'ng', name: 'Nigeria', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'nu', name: 'Niue', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'nf', name: 'Norfolk Island', continent: 'Oceania', subregion: 'Australia and New Zealand' },
+  { code: 'kp', name: 'North Korea', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'mk', name: 'North Macedonia', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'mp', name: 'Northern Mariana Islands', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'no', name: 'Norway', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'om', name: 'Oman', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'pk', name: 'Pakistan', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'pw', name: 'Palau', continent: 'Oceania', subregion: 'Micronesia' },
+  { code: 'ps', name: 'Palestine', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'pa', name: 'Panama', continent: 'North America', subregion: 'Central America' },
+  { code: 'pg', name: 'Papua New Guinea', continent: 'Oceania', subregion: 'Melanesia' },
+  { code: 'py', name: 'Paraguay', continent: 'South America', subregion: 'South America' },
+  { code: 'pe', name: 'Peru', continent: 'South America', subregion: 'South America' },
+  { code: 'ph', name: 'Philippines', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'pn', name: 'Pitcairn Islands', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'pl', name: 'Poland', continent: 'Europe', subregion: 'Central Europe' },
+  { code: 'pt', name: 'Portugal', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'pr', name: 'Puerto Rico', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'qa', name: 'Qatar', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'cg', name: 'Republic of the Congo', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 're', name: 'Réunion', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'ro', name: 'Romania', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'ru', name: 'Russia', continent: 'Europe', subregion: 'Eastern Europe' },
+  { code: 'rw', name: 'Rwanda', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'bl', name: 'Saint Barthélemy', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'sh', name: 'Saint Helena, Ascension and Tristan da Cunha', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'kn', name: 'Saint Kitts and Nevis', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'lc', name: 'Saint Lucia', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'mf', name: 'Saint Martin', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'pm', name: 'Saint Pierre and Miquelon', continent: 'North America', subregion: 'North America' },
+  { code: 'vc', name: 'Saint Vincent and the Grenadines', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'ws', name: 'Samoa', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'sm', name: 'San Marino', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'st', name: 'São Tomé and Príncipe', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'sa', name: 'Saudi Arabia', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'sn', name: 'Senegal', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'rs', name: 'Serbia', continent: 'Europe', subregion: 'Southeast Europe' },
+  { code: 'sc', name: 'Seychelles', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'sl', name: 'Sierra Leone', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'sg', name: 'Singapore', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'sx', name: 'Sint Maarten', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'sk', name: 'Slovakia', continent: 'Europe', subregion: 'Central Europe' },
+  { code: 'si', name: 'Slovenia', continent: 'Europe', subregion: 'Central Europe' },
+  { code: 'sb', name: 'Solomon Islands', continent: 'Oceania', subregion: 'Melanesia' },
+  { code: 'so', name: 'Somalia', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'za', name: 'South Africa', continent: 'Africa', subregion: 'Southern Africa' },
+  { code: 'gs', name: 'South Georgia', continent: 'Antarctica', subregion: 'Antarctica' },
+  { code: 'kr', name: 'South Korea', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'ss', name: 'South Sudan', continent: 'Africa', subregion: 'Middle Africa' },
+  { code: 'es', name: 'Spain', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 'lk', name: 'Sri Lanka', continent: 'Asia', subregion: 'Southern Asia' },
+  { code: 'sd', name: 'Sudan', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'sr', name: 'Suriname', continent: 'South America', subregion: 'South America' },
+  { code: 'sj', name: 'Svalbard and Jan Mayen', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'se', name: 'Sweden', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'ch', name: 'Switzerland', continent: 'Europe', subregion: 'Western Europe' },
+  { code: 'sy', name: 'Syria', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'tw', name: 'Taiwan', continent: 'Asia', subregion: 'Eastern Asia' },
+  { code: 'tj', name: 'Tajikistan', continent: 'Asia', subregion: 'Central Asia' },
+  { code: 'tz', name: 'Tanzania', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'th', name: 'Thailand', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'tl', name: 'Timor-Leste', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'tg', name: 'Togo', continent: 'Africa', subregion: 'Western Africa' },
+  { code: 'tk', name: 'Tokelau', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'to', name: 'Tonga', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'tt', name: 'Trinidad and Tobago', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'tn', name: 'Tunisia', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'tr', name: 'Türkiye', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'tm', name: 'Turkmenistan', continent: 'Asia', subregion: 'Central Asia' },
+  { code: 'tc', name: 'Turks and Caicos Islands', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'tv', name: 'Tuvalu', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'ug', name: 'Uganda', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'ua', name: 'Ukraine', continent: 'Europe', subregion: 'Eastern Europe' },
+  { code: 'ae', name: 'United Arab Emirates', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'gb', name: 'United Kingdom', continent: 'Europe', subregion: 'Northern Europe' },
+  { code: 'us', name: 'United States', continent: 'North America', subregion: 'North America' },
+  { code: 'um', name: 'United States Minor Outlying Islands', continent: 'North America', subregion: 'North America' },
+  { code: 'vi', name: 'United States Virgin Islands', continent: 'North America', subregion: 'Caribbean' },
+  { code: 'uy', name: 'Uruguay', continent: 'South America', subregion: 'South America' },
+  { code: 'uz', name: 'Uzbekistan', continent: 'Asia', subregion: 'Central Asia' },
+  { code: 'vu', name: 'Vanuatu', continent: 'Oceania', subregion: 'Melanesia' },
+  { code: 'va', name: 'Vatican City', continent: 'Europe', subregion: 'Southern Europe' },
+  { code: 've', name: 'Venezuela', continent: 'South America', subregion: 'South America' },
+  { code: 'vn', name: 'Vietnam', continent: 'Asia', subregion: 'South-Eastern Asia' },
+  { code: 'wf', name: 'Wallis and Futuna', continent: 'Oceania', subregion: 'Polynesia' },
+  { code: 'eh', name: 'Western Sahara', continent: 'Africa', subregion: 'Northern Africa' },
+  { code: 'ye', name: 'Yemen', continent: 'Asia', subregion: 'Western Asia' },
+  { code: 'zm', name: 'Zambia', continent: 'Africa', subregion: 'Eastern Africa' },
+  { code: 'zw', name: 'Zimbabwe', continent: 'Africa', subregion: 'Eastern Africa' }
+];
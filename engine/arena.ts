@@ -0,0 +1,106 @@
+import { angleBetween, isAngleInArc, normalizeAngle } from './geometry';
+
+// The arena is a set of concentric rings, innermost first. Each ring rotates
+// on its own and has one or more gaps. A gap's position is an offset from the
+// ring's own rotation, and may drift so gaps on the same ring can travel in
+// different directions.
+
+export interface Gap {
+  offset: number; // Ring-local start of the gap, degrees
+  size: number;   // Width of the gap, degrees
+  drift: number;  // Extra degrees/s the gap moves along the ring, on top of the ring's rotation
+}
+
+export interface RingState {
+  radius: number;
+  angle: number;      // Current rotation, degrees
+  prevAngle: number;  // Rotation at the previous tick, for render interpolation
+  speed: number;      // Degrees/s
+  gaps: Gap[];
+}
+
+export const createRing = (radius: number, speed: number, gaps: Gap[]): RingState => ({
+  radius,
+  angle: 0,
+  prevAngle: 0,
+  speed,
+  gaps
+});
+
+export const stepRing = (ring: RingState, dt: number) => {
+  ring.prevAngle = ring.angle;
+  ring.angle = normalizeAngle(ring.angle + ring.speed * dt);
+  ring.gaps.forEach(gap => {
+    gap.offset = normalizeAngle(gap.offset + gap.drift * dt);
+  });
+};
+
+// Is a point at `angle` (world degrees) lined up with any of the ring's gaps?
+// A closed gap (size 0) lets nothing through, tolerance or not.
+export const isInsideRingGap = (ring: RingState, angle: number, tolerance: number) =>
+  ring.gaps.some(gap =>
+    gap.size > 0 && isAngleInArc(
+      angle,
+      ring.angle + gap.offset - tolerance,
+      ring.angle + gap.offset + gap.size + tolerance
+    )
+  );
+
+// Degrees from a point at `angle` to the nearest edge of any of the ring's
+// gaps; 0 when it is lined up with one, Infinity for a ring without open gaps
+export const gapDistance = (ring: Pick<RingState, 'angle' | 'gaps'>, angle: number) =>
+  Math.min(...ring.gaps.filter(gap => gap.size > 0).map(gap => {
+    const start = ring.angle + gap.offset;
+    const end = start + gap.size;
+    return isAngleInArc(angle, start, end) ? 0 : Math.min(angleBetween(angle, start), angleBetween(angle, end));
+  }));
+
+// Rendered ring angle, taking the shortest way round when the angle wraps at 360
+export const interpolateRingAngle = (ring: RingState, alpha: number) => {
+  let delta = ring.angle - ring.prevAngle;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return normalizeAngle(ring.prevAngle + delta * alpha);
+};
+
+// The solid parts of a ring in ring-local degrees, as [start, end] pairs with
+// end > start (end may exceed 360 when an arc wraps past 3 o'clock).
+// Overlapping gaps are merged. An empty gap list gives one full circle.
+export const solidArcs = (gaps: Gap[]): [number, number][] => {
+  const open: [number, number][] = [];
+  gaps.forEach(gap => {
+    const size = Math.min(360, Math.max(0, gap.size));
+    if (size === 0) return;
+    const start = normalizeAngle(gap.offset);
+    const end = start + size;
+    if (end > 360) {
+      open.push([start, 360], [0, end - 360]);
+    } else {
+      open.push([start, end]);
+    }
+  });
+  if (open.length === 0) return [[0, 360]];
+
+  open.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  open.forEach(([s, e]) => {
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else merged.push([s, e]);
+  });
+
+  const solid: [number, number][] = [];
+  let cursor = 0;
+  merged.forEach(([s, e]) => {
+    if (s > cursor) solid.push([cursor, s]);
+    cursor = Math.max(cursor, e);
+  });
+  if (cursor < 360) solid.push([cursor, 360]);
+
+  // Join the arc ending at 360 with the one starting at 0 so it draws as one stroke
+  if (solid.length > 1 && solid[0][0] === 0 && solid[solid.length - 1][1] === 360) {
+    const first = solid.shift()!;
+    solid[solid.length - 1] = [solid[solid.length - 1][0], 360 + first[1]];
+  }
+  return solid;
+};
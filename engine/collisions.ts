@@ -0,0 +1,88 @@
+import { EntrantFlag } from '../types';
+import { EngineConfig } from './config';
+import { sizeScale } from './entities';
+
+// Flag-vs-flag collisions. Each flag is treated as a circle sized from its
+// 28x20 card. A uniform grid broad phase keeps the pair checks close to linear
+// in the number of flags, so 200+ entrants stay cheap.
+
+const GRID_OFFSET = 1 << 10; // Keeps cell coordinates positive when packed into one key
+
+const cellKey = (cx: number, cy: number) => (cx + GRID_OFFSET) * (GRID_OFFSET * 2) + (cy + GRID_OFFSET);
+
+const buildGrid = (flags: EntrantFlag[], cellSize: number) => {
+  const grid = new Map<number, number[]>();
+  flags.forEach((flag, i) => {
+    const key = cellKey(Math.floor(flag.physics.x / cellSize), Math.floor(flag.physics.y / cellSize));
+    const cell = grid.get(key);
+    if (cell) cell.push(i);
+    else grid.set(key, [i]);
+  });
+  return grid;
+};
+
+const resolvePair = (a: EntrantFlag, b: EntrantFlag, cfg: EngineConfig) => {
+  if (a.layer !== b.layer) return; // A ring wall separates them
+  const pa = a.physics;
+  const pb = b.physics;
+  const minDist = cfg.flagCollisionRadius * (sizeScale(a) + sizeScale(b));
+
+  const dx = pb.x - pa.x;
+  const dy = pb.y - pa.y;
+  const distSq = dx * dx + dy * dy;
+  if (distSq >= minDist * minDist || distSq === 0) return;
+
+  const dist = Math.sqrt(distSq);
+  const nx = dx / dist;
+  const ny = dy / dist;
+
+  // Separate the pair so they no longer overlap
+  const overlap = (minDist - dist) / 2;
+  pa.x -= nx * overlap;
+  pa.y -= ny * overlap;
+  pb.x += nx * overlap;
+  pb.y += ny * overlap;
+
+  // Only exchange momentum if they are moving towards each other
+  const rvx = pb.vx - pa.vx;
+  const rvy = pb.vy - pa.vy;
+  const approach = rvx * nx + rvy * ny;
+  if (approach >= 0) return;
+
+  // Equal masses: impulse along the contact normal
+  const impulse = -(1 + cfg.collisionRestitution) * approach / 2;
+  pa.vx -= impulse * nx;
+  pa.vy -= impulse * ny;
+  pb.vx += impulse * nx;
+  pb.vy += impulse * ny;
+
+  // Glancing blows spin the flags in opposite directions
+  const tangential = rvx * -ny + rvy * nx;
+  pa.vAngle += tangential * cfg.collisionSpin;
+  pb.vAngle -= tangential * cfg.collisionSpin;
+};
+
+// Push apart and bounce every overlapping pair of active flags.
+// Pairs are visited in a fixed order so the result stays deterministic.
+export const resolveFlagCollisions = (flags: EntrantFlag[], cfg: EngineConfig) => {
+  const bodies = flags.filter(f => f.status === 'active');
+  if (bodies.length < 2) return;
+
+  const cellSize = cfg.flagCollisionRadius * 2;
+  const grid = buildGrid(bodies, cellSize);
+
+  bodies.forEach((flag, i) => {
+    const cx = Math.floor(flag.physics.x / cellSize);
+    const cy = Math.floor(flag.physics.y / cellSize);
+
+    for (let ox = -1; ox <= 1; ox++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        const cell = grid.get(cellKey(cx + ox, cy + oy));
+        if (!cell) continue;
+        cell.forEach(j => {
+          if (j > i) resolvePair(flag, bodies[j], cfg);
+        });
+      }
+    }
+  });
+};
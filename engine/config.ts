@@ -0,0 +1,90 @@
+import type { GameModeId } from './modes';
+import type { EntityDef } from './entities';
+
+// --- CONFIGURATION ---
+// Tunables for the simulation. Distances are in arena units, which the
+// renderers map to pixels so the outer ring is always drawn at boundaryRadius
+// (see pixelsPerUnit). Every speed is per second of simulated time, so the
+// round plays out the same regardless of the display refresh rate.
+
+export interface EngineConfig {
+  mode: GameModeId;           // Rule set, see modes.ts
+  boundaryRadius: number;     // Outer ring radius, drawn at 48% of the arena box
+  initialRadius: number;      // Initial formation radius
+  flagRadius: number;         // Approximation of flag size for collision
+  baseSpeed: number;          // Launch speed of every flag, units/s
+  rotationSpeed: number;      // Degrees per second for the outer ring
+  formationSpinSpeed: number; // Radians per second for initial formation spin
+  formationDurationMs: number;// How long the formation spins before the scatter
+  gapDegrees: number;         // Width of the opening in the ring
+  gapTolerance: number;       // Extra degrees either side of the gap that still count as "in"
+  gapOpenDelayMs: number;     // Keep the ring closed this long after the scatter, so where a flag started stops mattering; 0 = open from the start
+  initialSpin: number;        // Max flag spin at launch, degrees/s either direction
+  bounceJitter: number;       // Random velocity nudge on each ring bounce, units/s
+  exitSpeedBoost: number;     // Velocity multiplier applied when a flag escapes
+  exitSpin: number;           // Minimum spin of an escaping flag, degrees/s
+  exitSpinJitter: number;     // Random extra spin on top of exitSpin, degrees/s
+  exitDistance: number;       // Multiple of boundaryRadius at which an exiting flag is eliminated
+  flagCollisions: boolean;    // Flags bounce off each other (false = classic mode, flags pass through)
+  flagCollisionRadius: number;// Collision circle for a 28x20 flag
+  collisionRestitution: number;// 1 = perfectly elastic
+  collisionSpin: number;      // Degrees/s of spin per unit/s of glancing impact speed
+  gapCount: number;           // Multi-gap mode: number of gaps
+  shrinkDurationMs: number;   // Shrinking mode: time for the ring to reach its minimum size
+  shrinkMinRatio: number;     // Shrinking mode: smallest ring radius as a fraction of boundaryRadius
+  maxGapDegrees: number;      // Shrinking mode: gap size once only two flags remain
+  innerRingRatio: number;     // Nested mode: inner ring radius as a fraction of boundaryRadius
+  targetDurationMs: number;   // Simulated round length to steer towards, formation included; 0 = off (see pacing.ts)
+  pacingMinGapScale: number;  // Narrowest gap while ahead of schedule, as a multiple of the configured gap
+  pacingMaxGapScale: number;  // Widest gap while behind schedule, before sudden death
+  pacingMaxSpeedScale: number;// Ring speed multiple at the widest gap
+  suddenDeathGapGrowth: number;// Gap scale added per second once the round overruns its target
+  layout: string;             // Bumpers, bars and pickups: a layout id from layouts.ts, 'random', 'custom' or 'none'
+  customLayouts: EntityDef[][]; // Layouts as data, used by layout 'custom' (see layoutIssues)
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  mode: 'classic',
+  boundaryRadius: 160,
+  initialRadius: 95,
+  flagRadius: 12,
+  baseSpeed: 120,        // REDUCED SPEED: Slower, floatier movement
+  rotationSpeed: 48,
+  formationSpinSpeed: 0.3,
+  formationDurationMs: 2000,
+  gapDegrees: 45,        // Fixed Gap Size (Consistent difficulty)
+  gapTolerance: 4,       // Slightly tighter tolerance for a smaller feel
+  gapOpenDelayMs: 0,
+  initialSpin: 300,      // INCREASED ROTATION for dynamic feel
+  bounceJitter: 30,
+  exitSpeedBoost: 1.6,
+  exitSpin: 720,
+  exitSpinJitter: 480,
+  exitDistance: 2.5,
+  flagCollisions: false,
+  flagCollisionRadius: 11,
+  collisionRestitution: 1,
+  collisionSpin: 4,
+  gapCount: 3,
+  shrinkDurationMs: 60000,
+  shrinkMinRatio: 0.5,
+  maxGapDegrees: 120,
+  innerRingRatio: 0.6,
+  targetDurationMs: 0,
+  pacingMinGapScale: 0.5,
+  pacingMaxGapScale: 2.5,
+  pacingMaxSpeedScale: 1.75,
+  suddenDeathGapGrowth: 0.25,
+  layout: 'none',
+  customLayouts: []
+};
+
+// Physics always advances in fixed ticks of this length. Rendering interpolates
+// between the last two ticks, so a 144 Hz display and a 60 Hz capture machine
+// see the same round, just sampled differently.
+export const TICK_RATE = 120;
+export const TICK_MS = 1000 / TICK_RATE;
+
+// Longest real frame we will try to catch up on. Anything longer (a background
+// tab, a debugger pause) is treated as this long instead of fast-forwarding.
+export const MAX_FRAME_MS = 250;
@@ -0,0 +1,236 @@
+import { EntrantFlag } from '../types';
+import type { World } from './simulation';
+import { EngineConfig } from './config';
+import { normalizeAngle } from './geometry';
+
+// Things inside the ring besides the flags: bumpers to bounce off, a bar
+// sweeping through the middle, and pickups that grant the first flag to touch
+// them a power. They only interact during the scatter. Layouts are plain data
+// (see layouts.ts); createEntities turns one into arena units.
+
+export type PowerId = 'shield' | 'boost' | 'shrink';
+export type EntityKind = 'bumper' | 'bar' | 'pickup';
+
+// Positions and sizes are fractions of boundaryRadius, angles in degrees
+// clockwise from 3 o'clock, speeds in degrees per second
+export type EntityDef =
+  | { kind: 'bumper'; x: number; y: number; radius: number; orbitSpeed?: number } // orbitSpeed circles it round the centre
+  | { kind: 'bar'; length: number; width: number; speed: number; angle?: number } // Pivots on the centre; length is end to end
+  | { kind: 'pickup'; power: PowerId; x: number; y: number; radius?: number; respawnMs?: number };
+
+// The fixed part of an entity, in arena units
+export interface EntityShape {
+  kind: EntityKind;
+  radius: number; // Circle radius, or half the bar's length
+  width: number;  // Bar thickness; 0 for circles
+  power?: PowerId;
+}
+
+export interface EntityPose {
+  x: number;
+  y: number;
+  angle: number;
+  active: boolean; // false while a pickup waits to respawn
+}
+
+export interface ArenaEntity extends EntityShape, EntityPose {
+  spin: number;             // Degrees/s: the bar's rotation, or a bumper's orbit
+  respawnMs: number | null; // Pickups only; null = once per round
+  respawnAt: number | null;
+  prevX: number;
+  prevY: number;
+  prevAngle: number;
+}
+
+// What a pickup does, and for how long (simulated ms)
+export const POWER_MS = 5000;
+export const BOOST_FACTOR = 1.6; // Speed multiple while boosted
+export const SHRINK_SCALE = 0.6; // Size multiple while shrunk
+const PICKUP_RADIUS = 0.07;
+
+// Powers a flag holds: a shield lasts until used, the others until a time
+export interface FlagEffects {
+  shield: boolean;
+  boostUntil: number; // Simulated ms; 0 = none
+  shrinkUntil: number;
+}
+
+export const NO_EFFECTS: FlagEffects = { shield: false, boostUntil: 0, shrinkUntil: 0 };
+
+// Compact form for poses and replays
+const EFFECT_BITS: Record<PowerId, number> = { shield: 1, boost: 2, shrink: 4 };
+
+export const effectMask = (effects: FlagEffects, time: number) =>
+  (effects.shield ? EFFECT_BITS.shield : 0) |
+  (effects.boostUntil > time ? EFFECT_BITS.boost : 0) |
+  (effects.shrinkUntil > time ? EFFECT_BITS.shrink : 0);
+
+export const hasEffect = (mask: number, power: PowerId) => (mask & EFFECT_BITS[power]) !== 0;
+
+// Size multiple of a flag; expireEffects clears a shrink when it runs out
+export const sizeScale = (flag: EntrantFlag) => (flag.effects.shrinkUntil > 0 ? SHRINK_SCALE : 1);
+
+// Collision radius of a flag against the rings and entities
+export const flagRadius = (flag: EntrantFlag, cfg: EngineConfig) => cfg.flagRadius * sizeScale(flag);
+
+export const createEntities = (defs: EntityDef[], cfg: EngineConfig): ArenaEntity[] =>
+  defs.map(def => {
+    const r = cfg.boundaryRadius;
+    const base = { active: true, respawnMs: null, respawnAt: null };
+    const place = (x: number, y: number, angle: number) => ({ x, y, angle, prevX: x, prevY: y, prevAngle: angle });
+    switch (def.kind) {
+      case 'bumper':
+        return { ...base, kind: 'bumper', radius: def.radius * r, width: 0, spin: def.orbitSpeed ?? 0, ...place(def.x * r, def.y * r, 0) };
+      case 'bar':
+        return { ...base, kind: 'bar', radius: (def.length / 2) * r, width: def.width * r, spin: def.speed, ...place(0, 0, def.angle ?? 0) };
+      case 'pickup':
+        return {
+          ...base,
+          kind: 'pickup',
+          power: def.power,
+          radius: (def.radius ?? PICKUP_RADIUS) * r,
+          width: 0,
+          spin: 0,
+          respawnMs: def.respawnMs ?? null,
+          ...place(def.x * r, def.y * r, 0)
+        };
+    }
+  });
+
+// Move every entity one tick on: bars turn, orbiting bumpers circle the centre
+export const stepEntities = (world: World, dt: number) => {
+  world.entities.forEach(e => {
+    e.prevX = e.x;
+    e.prevY = e.y;
+    e.prevAngle = e.angle;
+    if (e.spin !== 0) {
+      const turn = e.spin * dt;
+      if (e.kind === 'bumper') {
+        const rad = turn * (Math.PI / 180);
+        const x = e.x * Math.cos(rad) - e.y * Math.sin(rad);
+        e.y = e.x * Math.sin(rad) + e.y * Math.cos(rad);
+        e.x = x;
+      }
+      e.angle = normalizeAngle(e.angle + turn);
+    }
+    if (e.respawnAt !== null && world.time >= e.respawnAt) {
+      e.active = true;
+      e.respawnAt = null;
+    }
+  });
+};
+
+// Bounce `p` off a surface with outward normal (nx, ny) moving at (sx, sy).
+// Only the direction changes, so repeated hits never pump speed into a flag.
+const reflect = (p: EntrantFlag['physics'], nx: number, ny: number, sx: number, sy: number) => {
+  const approach = (p.vx - sx) * nx + (p.vy - sy) * ny;
+  if (approach >= 0) return;
+  const speed = Math.hypot(p.vx, p.vy);
+  p.vx -= 2 * approach * nx;
+  p.vy -= 2 * approach * ny;
+  const after = Math.hypot(p.vx, p.vy) || 1;
+  p.vx *= speed / after;
+  p.vy *= speed / after;
+};
+
+const grantPower = (world: World, flag: EntrantFlag, power: PowerId) => {
+  const { effects, physics: p } = flag;
+  const until = world.time + POWER_MS;
+  if (power === 'shield') effects.shield = true;
+  if (power === 'shrink') effects.shrinkUntil = until;
+  if (power === 'boost') {
+    if (effects.boostUntil <= world.time) {
+      p.vx *= BOOST_FACTOR;
+      p.vy *= BOOST_FACTOR;
+    }
+    effects.boostUntil = until;
+  }
+  world.events.push({ type: 'powerUp', id: flag.id, power, time: world.time });
+};
+
+// Timed powers running out. A boost ends by giving the extra speed back.
+export const expireEffects = (world: World) => {
+  world.flags.forEach(({ effects, physics: p }) => {
+    if (effects.boostUntil > 0 && effects.boostUntil <= world.time) {
+      effects.boostUntil = 0;
+      p.vx /= BOOST_FACTOR;
+      p.vy /= BOOST_FACTOR;
+    }
+    if (effects.shrinkUntil > 0 && effects.shrinkUntil <= world.time) effects.shrinkUntil = 0;
+  });
+};
+
+// Bumpers and the bar push active flags out and bounce them; pickups are
+// collected by the first flag to touch them
+export const collideEntities = (world: World, flags: EntrantFlag[]) => {
+  if (world.entities.length === 0) return;
+  flags.forEach(flag => {
+    if (flag.status !== 'active') return;
+    const p = flag.physics;
+    const r = flagRadius(flag, world.config);
+
+    world.entities.forEach(e => {
+      if (!e.active) return;
+
+      if (e.kind === 'bar') {
+        // Closest point on the bar's centre line
+        const rad = e.angle * (Math.PI / 180);
+        const ux = Math.cos(rad);
+        const uy = Math.sin(rad);
+        const along = Math.max(-e.radius, Math.min(e.radius, p.x * ux + p.y * uy));
+        const cx = along * ux;
+        const cy = along * uy;
+        const dx = p.x - cx;
+        const dy = p.y - cy;
+        const dist = Math.hypot(dx, dy);
+        const reach = e.width / 2 + r;
+        if (dist >= reach) return;
+        const nx = dist > 0 ? dx / dist : -uy;
+        const ny = dist > 0 ? dy / dist : ux;
+        p.x = cx + nx * reach;
+        p.y = cy + ny * reach;
+        // The bar's surface moves with its rotation
+        const omega = e.spin * (Math.PI / 180);
+        reflect(p, nx, ny, -omega * cy, omega * cx);
+        return;
+      }
+
+      const dx = p.x - e.x;
+      const dy = p.y - e.y;
+      const dist = Math.hypot(dx, dy);
+      const reach = e.radius + r;
+      if (dist >= reach) return;
+
+      if (e.kind === 'pickup') {
+        e.active = false;
+        e.respawnAt = e.respawnMs !== null ? world.time + e.respawnMs : null;
+        grantPower(world, flag, e.power!);
+        return;
+      }
+
+      const nx = dist > 0 ? dx / dist : 1;
+      const ny = dist > 0 ? dy / dist : 0;
+      p.x = e.x + nx * reach;
+      p.y = e.y + ny * reach;
+      const omega = e.spin * (Math.PI / 180);
+      reflect(p, nx, ny, -omega * e.y, omega * e.x);
+    });
+  });
+};
+
+// Shape and pose `alpha` of the way into the current tick, for the renderers
+export const entityPose = (e: ArenaEntity, alpha: number): EntityShape & EntityPose => {
+  let turn = e.angle - e.prevAngle;
+  if (turn > 180) turn -= 360;
+  if (turn < -180) turn += 360;
+  return {
+    kind: e.kind,
+    radius: e.radius,
+    width: e.width,
+    power: e.power,
+    x: e.prevX + (e.x - e.prevX) * alpha,
+    y: e.prevY + (e.y - e.prevY) * alpha,
+    angle: normalizeAngle(e.prevAngle + turn * alpha),
+    active: e.active
+  };
+};
@@ -0,0 +1,26 @@
+// Helper to normalize angle to 0-360
+export const normalizeAngle = (angle: number) => {
+  let a = angle % 360;
+  if (a < 0) a += 360;
+  return a;
+};
+
+// Angle of a point around the arena centre, in degrees (0-360, 0 = 3 o'clock)
+export const pointAngle = (x: number, y: number) =>
+  normalizeAngle(Math.atan2(y, x) * (180 / Math.PI));
+
+// True when `angle` lies on the arc running clockwise from `start` to `end`.
+// Handles arcs that wrap past 360 (e.g. start 340, end 20).
+export const isAngleInArc = (angle: number, start: number, end: number) => {
+  const a = normalizeAngle(angle);
+  const s = normalizeAngle(start);
+  const e = normalizeAngle(end);
+  if (s < e) return a >= s && a <= e;
+  return a >= s || a <= e;
+};
+
+// Shortest way round between two angles, in degrees (0-180)
+export const angleBetween = (a: number, b: number) => {
+  const d = normalizeAngle(a - b);
+  return d > 180 ? 360 - d : d;
+};
@@ -0,0 +1,124 @@
+import { Rng } from './rng';
+import { EntityDef, PowerId } from './entities';
+
+// Arena layouts: which bumpers, bars and pickups a round starts with, as
+// plain data. Coordinates are fractions of boundaryRadius (see EntityDef).
+// The flags' formation circle sits at about 0.6, so entities keep clear of
+// it to avoid starting the scatter inside one. Shows can bring their own
+// layouts in the config (customLayouts), checked by layoutIssues.
+
+export interface ArenaLayout {
+  id: string;
+  name: string;
+  entities: EntityDef[];
+}
+
+export const NO_LAYOUT = 'none';
+export const RANDOM_LAYOUT = 'random'; // A different built-in layout each round, picked by the round's seed
+export const CUSTOM_LAYOUT = 'custom'; // One of the config's customLayouts each round, picked the same way
+
+// Evenly round a circle of radius `r`, starting at `from` degrees
+const around = (count: number, r: number, from = 0) =>
+  Array.from({ length: count }, (_, i) => {
+    const rad = (from + (360 / count) * i) * (Math.PI / 180);
+    return { x: Math.cos(rad) * r, y: Math.sin(rad) * r };
+  });
+
+export const ARENA_LAYOUTS: ArenaLayout[] = [
+  {
+    id: 'pinball',
+    name: 'Pinball',
+    entities: [
+      ...around(4, 0.3, 45).map(p => ({ kind: 'bumper' as const, ...p, radius: 0.08 })),
+      { kind: 'pickup', power: 'shield', ...around(1, 0.82, 270)[0], respawnMs: 15000 },
+      { kind: 'pickup', power: 'boost', ...around(1, 0.82, 90)[0], respawnMs: 15000 }
+    ]
+  },
+  {
+    id: 'windmill',
+    name: 'Windmill',
+    entities: [
+      { kind: 'bar', length: 0.9, width: 0.06, speed: 50 },
+      { kind: 'pickup', power: 'shield', ...around(1, 0.82, 90)[0], respawnMs: 20000 },
+      { kind: 'pickup', power: 'boost', ...around(1, 0.82, 210)[0], respawnMs: 20000 },
+      { kind: 'pickup', power: 'shrink', ...around(1, 0.82, 330)[0], respawnMs: 20000 }
+    ]
+  },
+  {
+    id: 'orbit',
+    name: 'Orbit',
+    entities: [
+      ...around(3, 0.72, 30).map(p => ({ kind: 'bumper' as const, ...p, radius: 0.06, orbitSpeed: -30 })),
+      { kind: 'bumper', x: 0, y: 0, radius: 0.12 },
+      { kind: 'pickup', power: 'shrink', ...around(1, 0.35, 0)[0], respawnMs: 12000 },
+      { kind: 'pickup', power: 'shield', ...around(1, 0.35, 180)[0], respawnMs: 12000 }
+    ]
+  }
+];
+
+export const LAYOUT_OPTIONS = [
+  { value: NO_LAYOUT, label: 'Empty arena' },
+  ...ARENA_LAYOUTS.map(l => ({ value: l.id, label: l.name })),
+  { value: RANDOM_LAYOUT, label: 'Random each round' },
+  { value: CUSTOM_LAYOUT, label: 'Custom (from data)' }
+];
+
+// Entities for a new round. Only 'random' and 'custom' draw from the rng, so
+// rounds without them keep their seeds' outcomes.
+export const layoutEntities = (id: string, custom: EntityDef[][], rng: Rng): EntityDef[] => {
+  if (id === RANDOM_LAYOUT) return ARENA_LAYOUTS[Math.floor(rng.next() * ARENA_LAYOUTS.length)].entities;
+  if (id === CUSTOM_LAYOUT) return custom.length > 0 ? custom[Math.floor(rng.next() * custom.length)] : [];
+  return ARENA_LAYOUTS.find(l => l.id === id)?.entities ?? [];
+};
+
+// --- CUSTOM LAYOUTS ---
+
+const POWERS: PowerId[] = ['shield', 'boost', 'shrink'];
+const MAX_CUSTOM_LAYOUTS = 20;
+const MAX_ENTITIES = 20;
+
+const entityIssue = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object') return 'not an object';
+  const def = value as Record<string, unknown>;
+  // Required fields must be present; optional ones only checked when given
+  const number = (key: string, min: number, max: number, optional = false) => {
+    const n = def[key];
+    if (n === undefined && optional) return null;
+    if (typeof n !== 'number' || !Number.isFinite(n)) return `${key} must be a number`;
+    return n < min || n > max ? `${key} must be between ${min} and ${max}` : null;
+  };
+  const inside = () => (Math.hypot(def.x as number, def.y as number) > 1 ? 'x, y must be inside the ring' : null);
+
+  switch (def.kind) {
+    case 'bumper':
+      return number('x', -1, 1) ?? number('y', -1, 1) ?? number('radius', 0.01, 0.4) ?? number('orbitSpeed', -360, 360, true) ?? inside();
+    case 'bar':
+      return number('length', 0.05, 2) ?? number('width', 0.01, 0.2) ?? number('speed', -360, 360) ?? number('angle', -360, 360, true);
+    case 'pickup':
+      if (!POWERS.includes(def.power as PowerId)) return `power must be one of ${POWERS.join(', ')}`;
+      return number('x', -1, 1) ?? number('y', -1, 1) ?? number('radius', 0.01, 0.3, true) ?? number('respawnMs', 0, 600000, true) ?? inside();
+    default:
+      return 'kind must be bumper, bar or pickup';
+  }
+};
+
+// Problems with layouts that came in as data (JSON in the config or a URL).
+// Sizes are limited so nothing fills the ring or sits outside it.
+export const layoutIssues = (layouts: unknown): string[] => {
+  if (!Array.isArray(layouts)) return ['Custom layouts must be a list of layouts, each a list of entities'];
+  if (layouts.length > MAX_CUSTOM_LAYOUTS) return [`At most ${MAX_CUSTOM_LAYOUTS} custom layouts`];
+
+  const issues: string[] = [];
+  layouts.forEach((entities, l) => {
+    if (!Array.isArray(entities)) {
+      issues.push(`Layout ${l + 1} must be a list of entities`);
+      return;
+    }
+    if (entities.length > MAX_ENTITIES) issues.push(`Layout ${l + 1} has more than ${MAX_ENTITIES} entities`);
+    entities.forEach((entity, e) => {
+      const problem = entityIssue(entity);
+      if (problem) issues.push(`Layout ${l + 1}, entity ${e + 1}: ${problem}`);
+    });
+  });
+  return issues;
+};
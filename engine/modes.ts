@@ -0,0 +1,115 @@
+import type { World } from './simulation';
+import { EngineConfig } from './config';
+import { RingState, createRing } from './arena';
+
+// Pluggable rule sets. A mode decides what rings the arena has, and may
+// reshape them every tick (shrink, widen gaps). Escaping an inner ring moves a
+// flag out to the next ring; only escaping the outermost ring eliminates it.
+
+export type GameModeId = 'classic' | 'multiGap' | 'shrinking' | 'nested';
+
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  description: string;
+  createRings: (cfg: EngineConfig) => RingState[];
+  // `cfg` is the world's config with any pacing applied (see pacedConfig)
+  tune: (world: World, cfg: EngineConfig) => void;              // Re-apply config to the rings, e.g. after a live edit
+  update?: (world: World, dt: number, cfg: EngineConfig) => void; // Per-tick arena changes during the scatter
+}
+
+const activeFraction = (world: World) => {
+  const total = world.flags.length;
+  const active = world.flags.filter(f => f.status === 'active').length;
+  return total > 1 ? (active - 1) / (total - 1) : 0;
+};
+
+const classic: GameMode = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'One ring, one rotating gap.',
+  createRings: cfg => [
+    createRing(cfg.boundaryRadius, cfg.rotationSpeed, [
+      { offset: 360 - cfg.gapDegrees, size: cfg.gapDegrees, drift: 0 }
+    ])
+  ],
+  tune: ({ rings: [ring] }, cfg) => {
+    ring.speed = cfg.rotationSpeed;
+    ring.gaps[0].offset = 360 - cfg.gapDegrees;
+    ring.gaps[0].size = cfg.gapDegrees;
+  }
+};
+
+// Odd gaps drift backwards at twice the ring speed, so they travel against it
+const multiGapDrift = (cfg: EngineConfig, i: number) => (i % 2 === 1 ? -2 * cfg.rotationSpeed : 0);
+
+const multiGap: GameMode = {
+  id: 'multiGap',
+  name: 'Multi-Gap',
+  description: 'Several smaller gaps, alternate ones rotating the opposite way.',
+  createRings: cfg =>
+    [createRing(
+      cfg.boundaryRadius,
+      cfg.rotationSpeed,
+      Array.from({ length: cfg.gapCount }, (_, i) => ({
+        offset: (360 / cfg.gapCount) * i,
+        size: cfg.gapDegrees / 2,
+        drift: multiGapDrift(cfg, i)
+      }))
+    )],
+  tune: ({ rings: [ring] }, cfg) => {
+    ring.speed = cfg.rotationSpeed;
+    ring.gaps.forEach((gap, i) => {
+      gap.size = cfg.gapDegrees / 2;
+      gap.drift = multiGapDrift(cfg, i);
+    });
+  }
+};
+
+const shrinking: GameMode = {
+  id: 'shrinking',
+  name: 'Shrinking Arena',
+  description: 'The ring contracts over time and the gap widens as flags drop out.',
+  createRings: classic.createRings,
+  tune: (world, cfg) => {
+    world.rings[0].speed = cfg.rotationSpeed;
+    shrinking.update!(world, 0, cfg);
+  },
+  update: (world, _dt, cfg) => {
+    const ring = world.rings[0];
+    const elapsed = world.scatterStartedAt === null ? 0 : world.time - world.scatterStartedAt;
+    const progress = Math.min(1, elapsed / cfg.shrinkDurationMs);
+    ring.radius = cfg.boundaryRadius * (1 - (1 - cfg.shrinkMinRatio) * progress);
+
+    const size = cfg.gapDegrees + (cfg.maxGapDegrees - cfg.gapDegrees) * (1 - activeFraction(world));
+    ring.gaps[0].size = size;
+    ring.gaps[0].offset = 360 - size;
+  }
+};
+
+const nested: GameMode = {
+  id: 'nested',
+  name: 'Nested Rings',
+  description: 'Escape the inner ring first, then the counter-rotating outer ring.',
+  createRings: cfg => [
+    createRing(cfg.boundaryRadius * cfg.innerRingRatio, -cfg.rotationSpeed * 1.25, [
+      { offset: 180 - cfg.gapDegrees, size: cfg.gapDegrees, drift: 0 }
+    ]),
+    createRing(cfg.boundaryRadius, cfg.rotationSpeed, [
+      { offset: 360 - cfg.gapDegrees, size: cfg.gapDegrees, drift: 0 }
+    ])
+  ],
+  tune: ({ rings: [inner, outer] }, cfg) => {
+    inner.radius = cfg.boundaryRadius * cfg.innerRingRatio;
+    inner.speed = -cfg.rotationSpeed * 1.25;
+    inner.gaps[0].offset = 180 - cfg.gapDegrees;
+    inner.gaps[0].size = cfg.gapDegrees;
+    outer.speed = cfg.rotationSpeed;
+    outer.gaps[0].offset = 360 - cfg.gapDegrees;
+    outer.gaps[0].size = cfg.gapDegrees;
+  }
+};
+
+export const GAME_MODES: Record<GameModeId, GameMode> = { classic, multiGap, shrinking, nested };
+
+export const getGameMode = (id: GameModeId) => GAME_MODES[id] ?? classic;
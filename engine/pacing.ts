@@ -0,0 +1,122 @@
+import type { World } from './simulation';
+import { EngineConfig } from './config';
+
+// Target round length. When targetDurationMs is set, the round steers itself
+// towards it: the gap widens (and the ring speeds up) while eliminations lag
+// behind an even schedule, and narrows while they run ahead. A round that
+// overruns its target goes to sudden death, where the gap keeps opening until
+// someone wins. Every change is rate limited so the ring reshapes smoothly.
+// All of it runs on simulated time: finale slow motion stretches the round on
+// screen without touching the schedule, as the result must not depend on it.
+
+export interface DifficultySample {
+  time: number;       // Simulated ms since the round started
+  remaining: number;  // Flags still in the ring
+  gapScale: number;   // Multiple of the configured gap size
+  speedScale: number; // Multiple of the configured ring speed
+  suddenDeath: boolean;
+}
+
+export interface PacingState {
+  gapScale: number;
+  speedScale: number;
+  suddenDeathAt: number | null; // Simulated ms the round overran its target
+  curve: DifficultySample[];    // The round's difficulty over time, see recordDifficulty
+}
+
+const GAIN = 4;               // How strongly the gap reacts to being off schedule
+const SCHEDULE_MARGIN = 0.9;  // Plan to finish a little early; the last flags are the least predictable
+const MAX_SCALE_RATE = 0.5;   // Fastest gap scale change per second
+const MAX_GAP_DEGREES = 300;  // Leave some ring to bounce off, even in sudden death
+const CURVE_SAMPLE_MS = 1000;
+export const GAP_OPEN_MS = 1000; // How long the gap takes to widen once gapOpenDelayMs is up
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 1 + 1/2 + ... + 1/n
+const harmonic = (n: number) => {
+  let sum = 0;
+  for (let k = 1; k <= n; k++) sum += 1 / k;
+  return sum;
+};
+
+export const createPacing = (cfg: EngineConfig): PacingState | null =>
+  cfg.targetDurationMs > 0 ? { gapScale: 1, speedScale: 1, suddenDeathAt: null, curve: [] } : null;
+
+// How far open the gap is at simulated `time`, 0-1. Always open without a
+// gapOpenDelayMs; with one, closed through the formation and for that long
+// after the scatter, so flags that happen to start next to the gap are not
+// the first out every round.
+export const gapOpening = (world: World, time = world.time) => {
+  if (world.config.gapOpenDelayMs <= 0) return 1;
+  if (world.scatterStartedAt === null) return 0;
+  return clamp((time - world.scatterStartedAt - world.config.gapOpenDelayMs) / GAP_OPEN_MS, 0, 1);
+};
+
+// The tunables the game mode shapes its rings from: the config with the
+// opening and paced gap and the paced ring speed
+export const pacedConfig = (world: World): EngineConfig => {
+  const { config: cfg, pacing } = world;
+  const opening = gapOpening(world);
+  if (!pacing && opening === 1) return cfg;
+  const gapScale = (pacing?.gapScale ?? 1) * opening;
+  return {
+    ...cfg,
+    gapDegrees: cfg.gapDegrees * gapScale,
+    maxGapDegrees: Math.min(MAX_GAP_DEGREES, cfg.maxGapDegrees * gapScale),
+    rotationSpeed: cfg.rotationSpeed * (pacing?.speedScale ?? 1)
+  };
+};
+
+// Append a point to the difficulty curve; also called on the final tick
+export const recordDifficulty = (world: World) => {
+  const { pacing } = world;
+  if (!pacing) return;
+  pacing.curve.push({
+    time: world.time,
+    remaining: world.flags.filter(f => f.status === 'active' || f.status === 'winner').length,
+    gapScale: Math.round(pacing.gapScale * 1000) / 1000,
+    speedScale: Math.round(pacing.speedScale * 1000) / 1000,
+    suddenDeath: pacing.suddenDeathAt !== null
+  });
+};
+
+// Once per scatter tick. Returns true when the rings need reshaping.
+export const updatePacing = (world: World, dt: number) => {
+  const { config: cfg, pacing } = world;
+  if (!pacing || world.scatterStartedAt === null) return false;
+
+  // Each flag finds the gap at about the same rate, so eliminations slow down
+  // as the field thins: going from n flags to n - 1 takes time in proportion
+  // to 1/n. Progress is measured in that work, which a steady gap gets
+  // through at a steady pace.
+  const total = world.flags.length;
+  const active = world.flags.filter(f => f.status === 'active').length;
+  const budget = Math.max(1000, (cfg.targetDurationMs - world.scatterStartedAt) * SCHEDULE_MARGIN);
+  const due = Math.min(1, (world.time - world.scatterStartedAt) / budget);
+  const done = total > 1 ? (harmonic(total) - harmonic(active)) / (harmonic(total) - 1) : 1;
+  let target = clamp(Math.exp(GAIN * (due - done)), cfg.pacingMinGapScale, cfg.pacingMaxGapScale);
+
+  if (world.time >= cfg.targetDurationMs) {
+    if (pacing.suddenDeathAt === null) {
+      pacing.suddenDeathAt = world.time;
+      world.events.push({ type: 'suddenDeath', time: world.time });
+    }
+    target = cfg.pacingMaxGapScale + (cfg.suddenDeathGapGrowth * (world.time - pacing.suddenDeathAt)) / 1000;
+  }
+  target = Math.min(target, MAX_GAP_DEGREES / Math.max(1, cfg.gapDegrees));
+
+  const step = Math.max(MAX_SCALE_RATE, cfg.suddenDeathGapGrowth) * dt;
+  const gapScale = pacing.gapScale + clamp(target - pacing.gapScale, -step, step);
+  // The ring spins up as the gap opens past its configured size
+  const intensity = cfg.pacingMaxGapScale > 1 ? clamp((gapScale - 1) / (cfg.pacingMaxGapScale - 1), 0, 1) : 0;
+  const speedScale = 1 + (cfg.pacingMaxSpeedScale - 1) * intensity;
+
+  const changed = gapScale !== pacing.gapScale || speedScale !== pacing.speedScale;
+  pacing.gapScale = gapScale;
+  pacing.speedScale = speedScale;
+
+  const last = pacing.curve[pacing.curve.length - 1];
+  if (!last || world.time - last.time >= CURVE_SAMPLE_MS) recordDifficulty(world);
+  return changed;
+};
@@ -0,0 +1,195 @@
+import { EliminationEvent, Entrant, FlagStatus } from '../types';
+import { EngineConfig, TICK_MS } from './config';
+import { Gap, RingState, interpolateRingAngle } from './arena';
+import { normalizeAngle } from './geometry';
+import { World, interpolatePose, worldEntrants } from './simulation';
+import { DifficultySample } from './pacing';
+import { EntityPose, EntityShape, effectMask, entityPose } from './entities';
+
+// Compact round recordings. A replay stores the seed and config the round was
+// played with plus sampled poses of every flag and ring, so it can be scrubbed
+// freely without re-running the simulation.
+
+export const REPLAY_VERSION = 1;
+const SAMPLE_EVERY_TICKS = 6; // 20 samples per second at the 120 Hz tick rate
+const FLAG_STRIDE = 5;        // x, y, angle, status, layer
+const ENTITY_STRIDE = 4;      // x, y, angle, active
+
+const STATUS_CODES: FlagStatus[] = ['active', 'exiting', 'eliminated', 'winner'];
+
+export interface ReplayFrame {
+  tick: number;
+  scattering: boolean;
+  rings: number[][]; // Per ring: angle, radius, then offset and size for each gap
+  flags: number[];   // FLAG_STRIDE numbers per flag, in `entrants` order
+  effects?: number[];  // Per flag power-up bitmask, only with arena entities
+  entities?: number[]; // ENTITY_STRIDE numbers per entity, in `Replay.entities` order
+}
+
+export interface Replay {
+  version: number;
+  recordedAt: number; // epoch ms
+  seed: number;
+  config: EngineConfig;
+  entrants: Entrant[]; // In the same order as the flags in every frame
+  tickMs: number;
+  frames: ReplayFrame[];
+  eliminations: EliminationEvent[];
+  winner: string | null;
+  difficulty?: DifficultySample[]; // Pacing curve, for rounds with a target duration
+  entities?: EntityShape[];        // Bumpers, bars and pickups, when the round had any
+}
+
+// Poses reconstructed for one instant of a replay
+export interface ReplayPose {
+  time: number; // ms since the round started
+  scattering: boolean;
+  rings: { angle: number; radius: number; gaps: Gap[] }[];
+  flags: { x: number; y: number; angle: number; status: FlagStatus; layer: number; effects: number }[]; // effects: see effectMask
+  entities: (EntityShape & EntityPose)[];
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const encodeRing = (ring: RingState) => [
+  round1(ring.angle),
+  round1(ring.radius),
+  ...ring.gaps.flatMap(g => [round1(g.offset), round1(g.size)])
+];
+
+const captureFrame = (world: World): ReplayFrame => ({
+  tick: world.tick,
+  scattering: world.phase !== 'formation',
+  rings: world.rings.map(encodeRing),
+  flags: world.flags.flatMap(f =>
+    f.status === 'eliminated'
+      ? [0, 0, 0, STATUS_CODES.indexOf(f.status), f.layer] // Off screen, pose no longer matters
+      : [round1(f.physics.x), round1(f.physics.y), Math.round(f.physics.angle), STATUS_CODES.indexOf(f.status), f.layer]
+  ),
+  ...(world.entities.length > 0 && {
+    effects: world.flags.map(f => effectMask(f.effects, world.time)),
+    entities: world.entities.flatMap(e => [round1(e.x), round1(e.y), round1(e.angle), e.active ? 1 : 0])
+  })
+});
+
+export const createReplay = (world: World): Replay => ({
+  version: REPLAY_VERSION,
+  recordedAt: Date.now(),
+  seed: world.seed,
+  config: { ...world.config },
+  entrants: worldEntrants(world),
+  tickMs: TICK_MS,
+  frames: [captureFrame(world)],
+  eliminations: [],
+  winner: null,
+  ...(world.entities.length > 0 && {
+    entities: world.entities.map(({ kind, radius, width, power }) => ({ kind, radius, width, power }))
+  })
+});
+
+// Call after every tick. Samples the world every few ticks, and always
+// captures the final tick so the replay ends exactly where the round did.
+export const recordTick = (replay: Replay, world: World) => {
+  const finished = world.phase === 'finished';
+  if (world.tick % SAMPLE_EVERY_TICKS === 0 || finished) {
+    replay.frames.push(captureFrame(world));
+  }
+  if (finished) {
+    replay.eliminations = [...world.eliminations];
+    replay.winner = world.winner?.id ?? null;
+    if (world.pacing) replay.difficulty = [...world.pacing.curve];
+  }
+};
+
+export const replayDuration = (replay: Replay) =>
+  replay.frames.length > 0 ? replay.frames[replay.frames.length - 1].tick * replay.tickMs : 0;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpAngle = (a: number, b: number, t: number) => {
+  let delta = b - a;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return normalizeAngle(a + delta * t);
+};
+
+// Index of the last frame at or before `tick`
+const frameIndexAt = (frames: ReplayFrame[], tick: number) => {
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (frames[mid].tick <= tick) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// Reconstruct the arena at `timeMs`, interpolating between samples
+export const replayPoseAt = (replay: Replay, timeMs: number): ReplayPose => {
+  const tick = Math.max(0, timeMs / replay.tickMs);
+  const i = frameIndexAt(replay.frames, tick);
+  const a = replay.frames[i];
+  const b = replay.frames[Math.min(i + 1, replay.frames.length - 1)];
+  const t = b.tick > a.tick ? Math.min(1, (tick - a.tick) / (b.tick - a.tick)) : 0;
+
+  const rings = a.rings.map((ra, r) => {
+    const rb = b.rings[r] ?? ra;
+    const gaps: Gap[] = [];
+    for (let g = 2; g < ra.length; g += 2) {
+      gaps.push({ offset: lerpAngle(ra[g], rb[g], t), size: lerp(ra[g + 1], rb[g + 1], t), drift: 0 });
+    }
+    return { angle: lerpAngle(ra[0], rb[0], t), radius: lerp(ra[1], rb[1], t), gaps };
+  });
+
+  const flags = replay.entrants.map((_, f) => {
+    const o = f * FLAG_STRIDE;
+    // Eliminated flags are stored without a pose, so hold the last real one
+    const to = STATUS_CODES[b.flags[o + 3]] === 'eliminated' ? a : b;
+    return {
+      x: lerp(a.flags[o], to.flags[o], t),
+      y: lerp(a.flags[o + 1], to.flags[o + 1], t),
+      angle: lerp(a.flags[o + 2], to.flags[o + 2], t),
+      status: STATUS_CODES[a.flags[o + 3]] ?? 'active',
+      layer: a.flags[o + 4],
+      effects: a.effects?.[f] ?? 0
+    };
+  });
+
+  const entities = (replay.entities ?? []).map((shape, e) => {
+    const o = e * ENTITY_STRIDE;
+    const ea = a.entities ?? [];
+    const eb = b.entities ?? ea;
+    return {
+      ...shape,
+      x: lerp(ea[o], eb[o], t),
+      y: lerp(ea[o + 1], eb[o + 1], t),
+      angle: lerpAngle(ea[o + 2], eb[o + 2], t),
+      active: ea[o + 3] === 1
+    };
+  });
+
+  return { time: tick * replay.tickMs, scattering: a.scattering, rings, flags, entities };
+};
+
+// The live world `alpha` of the way into the current tick, in the same shape,
+// so the arena renderers draw live rounds and replays the same way
+export const worldPose = (world: World, alpha: number): ReplayPose => ({
+  time: world.time,
+  scattering: world.phase !== 'formation',
+  rings: world.rings.map(ring => ({ angle: interpolateRingAngle(ring, alpha), radius: ring.radius, gaps: ring.gaps })),
+  flags: world.flags.map(f => ({ ...interpolatePose(f, alpha), status: f.status, layer: f.layer, effects: effectMask(f.effects, world.time) })),
+  entities: world.entities.map(e => entityPose(e, alpha))
+});
+
+// --- FILES ---
+
+export const replayToJson = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplayJson = (text: string): Replay => {
+  const parsed = JSON.parse(text);
+  if (!parsed || parsed.version !== REPLAY_VERSION || !Array.isArray(parsed.frames) || parsed.frames.length === 0) {
+    throw new Error(`Not a replay file (expected version ${REPLAY_VERSION} with at least one frame)`);
+  }
+  return parsed as Replay;
+};
@@ -0,0 +1,40 @@
+// Seeded pseudo-random generator (mulberry32).
+// Every random decision in a round goes through one of these so the round can
+// be reproduced exactly from its seed, in the browser or under Node.
+
+export interface Rng {
+  seed: number;
+  next: () => number;                       // Uniform float in [0, 1)
+  range: (min: number, max: number) => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    range: (min, max) => min + next() * (max - min)
+  };
+};
+
+// Fisher-Yates shuffle into a new array; every order is equally likely
+export const shuffle = <T>(items: readonly T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Fresh seed for a new round. This is the only place Math.random() is allowed.
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
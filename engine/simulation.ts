@@ -0,0 +1,403 @@
+import { Entrant, EntrantFlag, EliminationEvent } from '../types';
+import { EngineConfig, DEFAULT_ENGINE_CONFIG, TICK_RATE, TICK_MS, MAX_FRAME_MS } from './config';
+import { Rng, createRng, shuffle } from './rng';
+import { pointAngle } from './geometry';
+import { resolveFlagCollisions } from './collisions';
+import { RingState, stepRing, isInsideRingGap, gapDistance } from './arena';
+import { getGameMode } from './modes';
+import { ArenaEntity, NO_EFFECTS, PowerId, collideEntities, createEntities, expireEffects, flagRadius, stepEntities } from './entities';
+import { layoutEntities } from './layouts';
+import { PacingState, createPacing, gapOpening, pacedConfig, recordDifficulty, updatePacing } from './pacing';
+
+// Headless round simulation. No React, no DOM, no Math.random():
+// given the same seed, config and entrants it always produces the same round.
+
+export type SimulationPhase = 'formation' | 'scatter' | 'finished';
+
+// Things that happened during a tick, queued for the renderer to pick up
+export type SimulationEvent =
+  | { type: 'scatterStarted'; time: number }
+  | { type: 'ringEscaped'; id: string; layer: number; time: number }
+  // speed: units/s into the ring; missBy: degrees outside the nearest gap's catch zone
+  | { type: 'bounced'; id: string; layer: number; speed: number; missBy: number; time: number }
+  | { type: 'eliminated'; elimination: EliminationEvent }
+  | { type: 'powerUp'; id: string; power: PowerId; time: number }
+  | { type: 'shieldUsed'; id: string; time: number } // A shield turned an elimination into a bounce
+  | { type: 'suddenDeath'; time: number } // The round overran its target duration
+  | { type: 'winner'; id: string; time: number };
+
+export interface World {
+  seed: number;
+  config: EngineConfig;
+  rng: Rng;
+  flags: EntrantFlag[];
+  phase: SimulationPhase;
+  time: number;       // Simulated ms since the round was created
+  tick: number;       // Number of fixed ticks taken
+  accumulator: number;// Real ms not yet consumed by a tick
+  formationEndsAt: number; // Simulated ms at which the scatter starts, see extendFormation
+  scatterStartedAt: number | null;
+  rings: RingState[]; // Innermost first; escaping the last one eliminates a flag
+  entities: ArenaEntity[]; // Bumpers, bars and pickups from the config's layout
+  winner: EntrantFlag | null;
+  pacing: PacingState | null;       // Only with a target duration
+  eliminations: EliminationEvent[]; // In the order flags escaped, first out first
+  events: SimulationEvent[];        // Pending events, see drainEvents
+}
+
+export interface CreateWorldOptions {
+  seed: number;
+  entrants: Entrant[];
+  config?: Partial<EngineConfig>;
+  formationOffset?: number; // Degrees; pins the first slot instead of drawing it. Only for the fairness self-check.
+}
+
+export const createWorld = ({ seed, entrants, config, formationOffset: fixedOffset }: CreateWorldOptions): World => {
+  const cfg: EngineConfig = { ...DEFAULT_ENGINE_CONFIG, ...config };
+  const rng = createRng(seed);
+  const rings = getGameMode(cfg.mode).createRings(cfg);
+  const entities = createEntities(layoutEntities(cfg.layout, cfg.customLayouts, rng), cfg);
+
+  // Keep the formation comfortably inside the innermost ring
+  const formationRadius = Math.min(cfg.initialRadius, (rings[0].radius - cfg.flagRadius) * 0.75);
+
+  // Unbiased shuffle: it also decides each flag's starting slot on the circle
+  const shuffledList = shuffle(entrants, rng);
+  // Where the first slot starts. Random, or the slots nearest the gap at the
+  // scatter would be the same every round (and easy to predict). Drawn even
+  // when pinned, so the rest of the round uses the same random numbers.
+  const drawnOffset = rng.next() * 2 * Math.PI;
+  const formationOffset = fixedOffset === undefined ? drawnOffset : fixedOffset * (Math.PI / 180);
+
+  const flags: EntrantFlag[] = shuffledList.map((c, i) => {
+    const theta = formationOffset + (i / shuffledList.length) * 2 * Math.PI; // Even distribution
+    const velocityAngle = rng.next() * Math.PI * 2;
+    const x = formationRadius * Math.cos(theta);
+    const y = formationRadius * Math.sin(theta);
+
+    return {
+      ...c,
+      status: 'active',
+      layer: 0,
+      effects: { ...NO_EFFECTS },
+      physics: {
+        x,
+        y,
+        vx: Math.cos(velocityAngle) * cfg.baseSpeed,
+        vy: Math.sin(velocityAngle) * cfg.baseSpeed,
+        angle: 0,
+        vAngle: (rng.next() - 0.5) * 2 * cfg.initialSpin,
+        prevX: x,
+        prevY: y,
+        prevAngle: 0
+      }
+    };
+  });
+
+  const world: World = {
+    seed: rng.seed,
+    config: cfg,
+    rng,
+    flags,
+    phase: 'formation',
+    time: 0,
+    tick: 0,
+    accumulator: 0,
+    formationEndsAt: cfg.formationDurationMs,
+    scatterStartedAt: null,
+    rings,
+    entities,
+    winner: null,
+    pacing: createPacing(cfg),
+    eliminations: [],
+    events: []
+  };
+  // The gap starts closed when it is held, see gapOpening
+  getGameMode(cfg.mode).tune(world, pacedConfig(world));
+  return world;
+};
+
+// Swap in new tunables mid-round. Launch settings (speed, formation radius)
+// only matter when a world is created, so they show up from the next round.
+// The mode and target duration are fixed for the life of a world; changes to
+// them start with the next round.
+export const applyConfig = (world: World, config: EngineConfig) => {
+  world.config = { ...config, mode: world.config.mode, targetDurationMs: world.config.targetDurationMs };
+  getGameMode(world.config.mode).tune(world, pacedConfig(world));
+};
+
+// Hold the formation for longer, e.g. while viewers are still predicting.
+// Returns false once the scatter has started.
+export const extendFormation = (world: World, ms: number) => {
+  if (world.phase !== 'formation') return false;
+  world.formationEndsAt += ms;
+  return true;
+};
+
+export const outerRing = (world: World) => world.rings[world.rings.length - 1];
+
+const stepFormation = (world: World, dt: number) => {
+  const spin = world.config.formationSpinSpeed * dt;
+  const cos = Math.cos(spin);
+  const sin = Math.sin(spin);
+
+  world.flags.forEach(flag => {
+    const p = flag.physics;
+    const nx = p.x * cos - p.y * sin;
+    const ny = p.x * sin + p.y * cos;
+    p.x = nx;
+    p.y = ny;
+  });
+};
+
+// Start a flag's exit: record its elimination at `place` and fling it out spinning
+const sendOut = (world: World, flag: EntrantFlag, ring: RingState, place: number) => {
+  const { config: cfg, rng } = world;
+  const p = flag.physics;
+  flag.status = 'exiting';
+  const elimination: EliminationEvent = {
+    id: flag.id,
+    name: flag.name,
+    place,
+    time: world.time,
+    ringAngle: ring.angle
+  };
+  world.eliminations.push(elimination);
+  world.events.push({ type: 'eliminated', elimination });
+  p.vx *= cfg.exitSpeedBoost;
+  p.vy *= cfg.exitSpeedBoost;
+  // Add energetic spin
+  p.vAngle = (rng.next() > 0.5 ? cfg.exitSpin : -cfg.exitSpin) + (rng.next() * cfg.exitSpinJitter);
+};
+
+// Host override: skip to the last `keep` flags by sending the rest out at
+// once, picked with the round's own rng. They leave straight outwards through
+// the ring. Returns false outside the scatter or when few enough are left.
+export const forceFinale = (world: World, keep: number) => {
+  const active = world.flags.filter(f => f.status === 'active');
+  if (world.phase !== 'scatter' || active.length <= Math.max(1, keep)) return false;
+
+  shuffle(active, world.rng).slice(0, active.length - Math.max(1, keep)).forEach((flag, i) => {
+    const p = flag.physics;
+    const dist = Math.hypot(p.x, p.y) || 1;
+    const speed = Math.max(Math.hypot(p.vx, p.vy), world.config.baseSpeed);
+    p.vx = (p.x / dist) * speed;
+    p.vy = (p.y / dist) * speed;
+    sendOut(world, flag, world.rings[flag.layer], active.length - i);
+  });
+  return true;
+};
+
+// Widest angle from straight back in that a bounce off the closed ring can take
+const HOLD_SCATTER = 85 * (Math.PI / 180);
+
+const stepScatter = (world: World, dt: number) => {
+  const { config: cfg, rng } = world;
+  let activeCount = world.flags.filter(f => f.status === 'active').length;
+  const holding = gapOpening(world) === 0;
+
+  const moving = world.flags.filter(f => f.status === 'active' || f.status === 'exiting');
+
+  moving.forEach(({ physics: p }) => {
+    p.x += p.vx * dt;
+    p.y += p.vy * dt;
+    p.angle += p.vAngle * dt;
+  });
+
+  expireEffects(world);
+  if (cfg.flagCollisions) resolveFlagCollisions(moving, cfg);
+  collideEntities(world, moving);
+
+  const lastLayer = world.rings.length - 1;
+
+  moving.forEach(flag => {
+    const p = flag.physics;
+    const dist = Math.sqrt(p.x * p.x + p.y * p.y);
+    const radius = flagRadius(flag, cfg);
+
+    if (flag.status === 'exiting') {
+      if (dist > cfg.boundaryRadius * cfg.exitDistance) {
+        flag.status = 'eliminated';
+      }
+      return;
+    }
+
+    // Flags that escaped an inner ring cannot drift back into it
+    const inner = flag.layer > 0 ? world.rings[flag.layer - 1] : null;
+    if (inner && dist - radius < inner.radius) {
+      const nx = p.x / dist;
+      const ny = p.y / dist;
+      const radial = p.vx * nx + p.vy * ny;
+      if (radial < 0) {
+        p.vx -= 2 * radial * nx;
+        p.vy -= 2 * radial * ny;
+      }
+      if (dist >= inner.radius) {
+        const overlap = inner.radius - (dist - radius);
+        p.x += nx * overlap;
+        p.y += ny * overlap;
+      }
+    }
+
+    // Check Collision with Ring
+    const ring = world.rings[flag.layer];
+    if (dist + radius < ring.radius) return;
+
+    const angle = pointAngle(p.x, p.y);
+    const inGap = isInsideRingGap(ring, angle, cfg.gapTolerance);
+    // A shield spends itself turning what would be an elimination into a bounce
+    const shielded = inGap && flag.layer === lastLayer && activeCount > 1 && flag.effects.shield;
+    if (shielded) {
+      flag.effects.shield = false;
+      world.events.push({ type: 'shieldUsed', id: flag.id, time: world.time });
+    }
+
+    if (inGap && flag.layer < lastLayer) {
+      // Through an inner ring: on to the next one
+      flag.layer++;
+      world.events.push({ type: 'ringEscaped', id: flag.id, layer: flag.layer, time: world.time });
+    } else if (inGap && activeCount > 1 && !shielded) {
+      // Eliminate
+      sendOut(world, flag, ring, activeCount);
+      activeCount--;
+    } else {
+      // Bounce
+      const nx = p.x / dist;
+      const ny = p.y / dist;
+      const dotProduct = p.vx * nx + p.vy * ny;
+      p.vx = p.vx - 2 * dotProduct * nx;
+      p.vy = p.vy - 2 * dotProduct * ny;
+      if (holding) {
+        // Off a still-closed ring in a random direction: a mirror bounce keeps
+        // a flag circling the same way, so it would remember where it started
+        const speed = Math.hypot(p.vx, p.vy);
+        const turn = Math.atan2(-ny, -nx) + (rng.next() - 0.5) * 2 * HOLD_SCATTER;
+        p.vx = Math.cos(turn) * speed;
+        p.vy = Math.sin(turn) * speed;
+      }
+      world.events.push({
+        type: 'bounced',
+        id: flag.id,
+        layer: flag.layer,
+        speed: Math.abs(dotProduct),
+        missBy: gapDistance(ring, angle) - cfg.gapTolerance,
+        time: world.time
+      });
+      const overlap = (dist + radius) - ring.radius;
+      p.x -= nx * overlap;
+      p.y -= ny * overlap;
+      p.vx += (rng.next() - 0.5) * cfg.bounceJitter;
+      p.vy += (rng.next() - 0.5) * cfg.bounceJitter;
+    }
+  });
+
+  // WINNER CHECK
+  if (activeCount === 1) {
+    const winner = world.flags.find(f => f.status === 'active') ?? null;
+    if (winner) {
+      winner.status = 'winner';
+      world.winner = winner;
+      world.phase = 'finished';
+      world.events.push({ type: 'winner', id: winner.id, time: world.time });
+      recordDifficulty(world);
+    }
+  }
+};
+
+// Advance the world by exactly one fixed tick of TICK_MS.
+export const stepWorld = (world: World) => {
+  if (world.phase === 'finished') return;
+
+  const dt = TICK_MS / 1000;
+  world.tick++;
+  world.time += TICK_MS;
+
+  world.flags.forEach(({ physics: p }) => {
+    p.prevX = p.x;
+    p.prevY = p.y;
+    p.prevAngle = p.angle;
+  });
+
+  world.rings.forEach(ring => stepRing(ring, dt));
+  stepEntities(world, dt);
+
+  if (world.phase === 'formation') {
+    stepFormation(world, dt);
+    if (world.time >= world.formationEndsAt) {
+      world.phase = 'scatter';
+      world.scatterStartedAt = world.time;
+      world.events.push({ type: 'scatterStarted', time: world.time });
+    }
+    return;
+  }
+
+  const mode = getGameMode(world.config.mode);
+  // Reshape while pacing moves the gap, and on every tick the gap is opening
+  const paced = updatePacing(world, dt);
+  if (paced || gapOpening(world, world.time - TICK_MS) < 1) mode.tune(world, pacedConfig(world));
+  mode.update?.(world, dt, pacedConfig(world));
+  stepScatter(world, dt);
+};
+
+// Feed real elapsed time into the world and run as many fixed ticks as it
+// covers. Returns how far (0-1) the leftover time is into the next tick, which
+// the renderer uses to interpolate between the previous and current pose.
+// `onTick` runs after every tick, e.g. to record a replay.
+export const advanceWorld = (world: World, deltaMs: number, onTick?: (world: World) => void) => {
+  world.accumulator += Math.min(deltaMs, MAX_FRAME_MS);
+
+  while (world.accumulator >= TICK_MS && world.phase !== 'finished') {
+    stepWorld(world);
+    onTick?.(world);
+    world.accumulator -= TICK_MS;
+  }
+
+  if (world.phase === 'finished') return 1;
+  return world.accumulator / TICK_MS;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Rendered pose of a flag `alpha` of the way from its previous tick to its current one
+export const interpolatePose = (flag: EntrantFlag, alpha: number) => {
+  const p = flag.physics;
+  return {
+    x: lerp(p.prevX, p.x, alpha),
+    y: lerp(p.prevY, p.y, alpha),
+    angle: lerp(p.prevAngle, p.angle, alpha)
+  };
+};
+
+// Hand over everything that happened since the last call
+export const drainEvents = (world: World) => {
+  const events = world.events;
+  world.events = [];
+  return events;
+};
+
+// Flags still in the running (active, or the winner once decided)
+export const remainingCount = (world: World) =>
+  world.flags.filter(f => f.status === 'active' || f.status === 'winner').length;
+
+// Final standings, winner first. Only meaningful once the round has finished.
+export const finishingOrder = (world: World) => {
+  const escaped = world.eliminations.map(e => e.id).reverse();
+  return world.winner ? [world.winner.id, ...escaped] : escaped;
+};
+
+// The entrants in flag order (the shuffled order replays and renderers use)
+export const worldEntrants = (world: World): Entrant[] =>
+  world.flags.map(({ id, name, image, country, continent, subregion }) => ({ id, name, image, country, continent, subregion }));
+
+// Run a whole round without rendering, e.g. under Node. Returns the finished
+// world, or the world as it stood after `maxTicks` if nobody won by then.
+export const simulateRound = (
+  options: CreateWorldOptions,
+  maxTicks = TICK_RATE * 60 * 30
+): World => {
+  const world = createWorld(options);
+  while (world.phase !== 'finished' && world.tick < maxTicks) {
+    stepWorld(world);
+  }
+  return world;
+};
@@ -0,0 +1,35 @@
+import { EngineConfig } from '../engine/config';
+import { ReplayPose } from '../engine/replay';
+import { Camera, Highlight } from './camera';
+
+// The arena can be drawn two ways. Both take the same per-frame pose, so the
+// live round, replays and the video export never care which one is on screen.
+
+export type RendererId = 'dom' | 'canvas';
+
+export const RENDERERS: { id: RendererId; name: string }[] = [
+  { id: 'dom', name: 'DOM (one element per flag)' },
+  { id: 'canvas', name: 'Canvas (batched, for 200+ flags)' }
+];
+
+// Presentation on top of the pose: camera framing and flashing flags
+export interface ArenaView {
+  camera: Camera;
+  highlights: Highlight[];
+}
+
+// Imperative handle every arena exposes; the render loop calls it once per frame
+export interface ArenaHandle {
+  render: (pose: ReplayPose, clock: number, view?: ArenaView) => void;
+}
+
+// --- SIZING ---
+// Physics runs in arena units and never sees pixels. Each renderer measures
+// the ring's box and maps units so the outer ring (boundaryRadius units)
+// lands exactly on the drawn ring, at any output size.
+
+export const ARENA_STAGE_FRACTION = 0.72; // Box size as a fraction of the stage's short side
+export const RING_RADIUS_FRACTION = 0.48; // Full-size ring radius as a fraction of the box
+
+export const pixelsPerUnit = (boxPx: number, config: Pick<EngineConfig, 'boundaryRadius'>) =>
+  (boxPx * RING_RADIUS_FRACTION) / config.boundaryRadius;
@@ -0,0 +1,85 @@
+import { EngineConfig } from '../engine/config';
+import { ReplayPose } from '../engine/replay';
+import { SimulationEvent } from '../engine/simulation';
+import { gapDistance } from '../engine/arena';
+import { pointAngle } from '../engine/geometry';
+
+// Cinematic camera over the arena: pan, zoom and a time scale that the render
+// loop applies to how fast it feeds time to the world. The simulation still
+// runs the same fixed ticks, so the camera changes how a round looks and how
+// quickly it plays, never how it ends.
+
+export interface Camera {
+  x: number;         // Arena units the view centres on
+  y: number;
+  zoom: number;      // 1 = the whole ring
+  timeScale: number; // Simulated ms per real ms
+}
+
+export interface CameraSettings {
+  enabled: boolean;
+  slowMotion: number; // Time scale for the finale
+  zoom: number;       // Zoom for the finale
+  nearMisses: boolean;
+}
+
+// A flag to flash, e.g. after a near miss
+export interface Highlight {
+  id: string;
+  at: number; // Render clock ms when it happened
+}
+
+export const IDLE_CAMERA: Camera = { x: 0, y: 0, zoom: 1, timeScale: 1 };
+
+export const FINALE_FLAGS = 3; // This few left: the finale
+const APPROACH_FLAGS = 5;     // Flags heading for the gap only count once the field is this small
+const APPROACH_DISTANCE = 30; // Units from the ring
+const APPROACH_DEGREES = 12;  // Beyond the gap's catch zone
+const PAN_FOLLOW = 0.7;       // How far the view moves towards the action
+const CAMERA_EASE_MS = 400;
+export const NEAR_MISS_DEGREES = 4;
+export const HIGHLIGHT_MS = 900;
+
+// Close to its ring and lined up (or nearly) with a gap
+const approachingGap = (flag: ReplayPose['flags'][number], pose: ReplayPose, config: EngineConfig) => {
+  const ring = pose.rings[flag.layer];
+  if (!ring) return false;
+  const dist = Math.hypot(flag.x, flag.y);
+  return ring.radius - (dist + config.flagRadius) < APPROACH_DISTANCE
+    && gapDistance(ring, pointAngle(flag.x, flag.y)) < config.gapTolerance + APPROACH_DEGREES;
+};
+
+// Where the camera wants to be for this pose
+export const cameraTarget = (pose: ReplayPose, config: EngineConfig, settings: CameraSettings): Camera => {
+  if (!settings.enabled || !pose.scattering) return IDLE_CAMERA;
+  const active = pose.flags.filter(f => f.status === 'active');
+  if (active.length < 2) return IDLE_CAMERA; // Round over, make way for the champion
+
+  const approaching = active.length <= APPROACH_FLAGS ? active.filter(f => approachingGap(f, pose, config)) : [];
+  if (active.length > FINALE_FLAGS && approaching.length === 0) return IDLE_CAMERA;
+
+  // Frame whoever is about to decide it, keeping the ring edge in view
+  const focus = approaching.length > 0 ? approaching : active;
+  const x = (focus.reduce((sum, f) => sum + f.x, 0) / focus.length) * PAN_FOLLOW;
+  const y = (focus.reduce((sum, f) => sum + f.y, 0) / focus.length) * PAN_FOLLOW;
+  const reach = config.boundaryRadius * (1 - 1 / settings.zoom);
+  const clamp = Math.min(1, reach / (Math.hypot(x, y) || 1));
+  // Full slow motion is kept for the moments a flag could go out
+  const timeScale = approaching.length > 0 ? settings.slowMotion : (1 + settings.slowMotion) / 2;
+  return { x: x * clamp, y: y * clamp, zoom: settings.zoom, timeScale };
+};
+
+// Ease towards the target so cuts never happen; `deltaMs` is real time
+export const followCamera = (camera: Camera, target: Camera, deltaMs: number): Camera => {
+  const k = 1 - Math.exp(-deltaMs / CAMERA_EASE_MS);
+  return {
+    x: camera.x + (target.x - camera.x) * k,
+    y: camera.y + (target.y - camera.y) * k,
+    zoom: camera.zoom + (target.zoom - camera.zoom) * k,
+    timeScale: camera.timeScale + (target.timeScale - camera.timeScale) * k
+  };
+};
+
+// Bounces that came within a few degrees of going out
+export const nearMisses = (events: SimulationEvent[]) =>
+  events.flatMap(e => (e.type === 'bounced' && e.missBy < NEAR_MISS_DEGREES ? [e.id] : []));
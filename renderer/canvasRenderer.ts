@@ -0,0 +1,666 @@
+import { EliminationEvent, Entrant } from '../types';
+import { EngineConfig } from '../engine/config';
+import { ReplayPose } from '../engine/replay';
+import { solidArcs } from '../engine/arena';
+import { createRng } from '../engine/rng';
+import { POWER_STYLES, flagPowers, flagVisual, fallbackColor, tileLabel } from './flagVisuals';
+import { ordinal } from '../utils/format';
+import { Camera, HIGHLIGHT_MS, Highlight } from './camera';
+import { ARENA_STAGE_FRACTION, pixelsPerUnit } from './arenaRenderer';
+import { Theme, accent, surface } from '../services/themes';
+
+// Canvas 2D drawing of a whole frame: Background, GlowingRing, the flags,
+// counter, kill feed and the champion screen, laid out like the DOM version.
+// Written against the standard CanvasRenderingContext2D API so it runs both
+// in the browser (CanvasArena draws just the arena, see drawArena) and
+// headless under Node (the video export draws everything, see drawFrame).
+
+// Box size the ring's glow was tuned at; larger boxes glow proportionally wider
+const ARENA_DESIGN_SIZE = 320;
+const RING_STROKE_FRACTION = 0.03; // strokeWidth=3 in the same viewBox
+const FLAG_WIDTH = 28;
+const FLAG_HEIGHT = 20;
+const WINNER_WIDTH = 96;
+const WINNER_HEIGHT = 64;
+const WINNER_SCALE = 3.5;
+const FEED_LENGTH = 6;
+
+const AMBER = '#fbbf24';
+
+export interface CanvasLayout {
+  width: number;
+  height: number;
+  cx: number;
+  cy: number;
+  unit: number;    // Pixels per arena unit
+  arena: number;   // Pixel size of the ring's box
+  ui: number;      // Pixels per CSS pixel for text and panels
+}
+
+export interface CanvasAssets {
+  flags: Map<string, CanvasImageSource>;  // Arena-sized images by entrant id
+  hiRes?: Map<string, CanvasImageSource>; // Sharper images for the enlarged winner
+  noise?: CanvasImageSource;
+  backdrop?: CanvasImageSource; // Theme background image
+  logo?: CanvasImageSource;     // Theme banner logo
+}
+
+export interface WinnerState {
+  entrant: Entrant;
+  from: { x: number; y: number }; // Where the winner was when the round ended
+  elapsed: number;                // ms since the champion screen began
+}
+
+export interface ChampionState extends WinnerState {
+  podium: Entrant[];
+}
+
+// Everything inside the arena: rings, flags and the winner
+export interface ArenaScene {
+  pose: ReplayPose;
+  entrants: Entrant[];
+  config: EngineConfig;
+  clock: number;                  // Steady ms clock for cosmetic motion
+  champion: WinnerState | null;
+  highlights?: Highlight[];       // Flags to flash, timed on `clock`
+  theme: Theme;
+}
+
+export interface CanvasScene extends ArenaScene {
+  eliminations: EliminationEvent[]; // Those that have happened so far, oldest first
+  champion: ChampionState | null;
+}
+
+// Arena sized from the short side exactly like the browser stage
+export const computeLayout = (width: number, height: number, config: Pick<EngineConfig, 'boundaryRadius'>): CanvasLayout => {
+  const short = Math.min(width, height);
+  const arenaPx = short * ARENA_STAGE_FRACTION;
+  return {
+    width,
+    height,
+    cx: width / 2,
+    cy: height / 2,
+    unit: pixelsPerUnit(arenaPx, config),
+    arena: arenaPx,
+    ui: short / 540
+  };
+};
+
+// The same layout seen through the camera. Arena units move and scale; text
+// and panels sized by `ui` stay put.
+export const cameraLayout = (layout: CanvasLayout, camera: Camera): CanvasLayout => ({
+  ...layout,
+  cx: layout.cx - camera.x * layout.unit * camera.zoom,
+  cy: layout.cy - camera.y * layout.unit * camera.zoom,
+  unit: layout.unit * camera.zoom,
+  arena: layout.arena * camera.zoom
+});
+
+// --- BACKGROUND ---
+
+export const drawBackground = (
+  ctx: CanvasRenderingContext2D,
+  layout: CanvasLayout,
+  theme: Theme,
+  assets: Pick<CanvasAssets, 'noise' | 'backdrop'>
+) => {
+  const { width: w, height: h, cx, cy } = layout;
+  const { background } = theme;
+
+  // Diagonal base gradient
+  const base = ctx.createLinearGradient(0, 0, w, h);
+  base.addColorStop(0, background.from);
+  base.addColorStop(0.5, background.via);
+  base.addColorStop(1, background.to);
+  ctx.fillStyle = base;
+  ctx.fillRect(0, 0, w, h);
+  if (assets.backdrop) drawCover(ctx, assets.backdrop, 0, 0, w, h);
+
+  const far = Math.hypot(w, h) / 2;
+
+  // Vignette
+  const vignette = ctx.createRadialGradient(cx, cy, 0, cx, cy, far);
+  vignette.addColorStop(0, 'rgba(0,0,0,0)');
+  vignette.addColorStop(1, `rgba(0,0,0,${background.vignette})`);
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, w, h);
+
+  // Subtle tint in the centre
+  const tint = ctx.createRadialGradient(cx, cy, 0, cx, cy, far * 0.6);
+  tint.addColorStop(0, background.tint);
+  tint.addColorStop(1, 'rgba(0,0,0,0)');
+  ctx.fillStyle = tint;
+  ctx.fillRect(0, 0, w, h);
+
+  // Ambient light source at the bottom
+  const ambient = ctx.createRadialGradient(cx, h, 0, cx, h, 300 * layout.ui);
+  ambient.addColorStop(0, accent(theme, 500, 0.05));
+  ambient.addColorStop(1, accent(theme, 500, 0));
+  ctx.fillStyle = ambient;
+  ctx.fillRect(0, 0, w, h);
+
+  if (assets.noise) {
+    ctx.save();
+    ctx.globalAlpha = background.noise;
+    ctx.drawImage(assets.noise, 0, 0, w, h);
+    ctx.restore();
+  }
+};
+
+// --- RING ---
+
+export const drawRings = (
+  ctx: CanvasRenderingContext2D,
+  pose: ReplayPose,
+  layout: CanvasLayout,
+  theme: Theme,
+  opacity = 1
+) => {
+  if (opacity <= 0) return;
+  const { cx, cy, arena, unit } = layout;
+  const stroke = arena * RING_STROKE_FRACTION;
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+
+  // Outer Glow Bloom
+  const bloomRadius = arena * 0.5;
+  const bloom = ctx.createRadialGradient(cx, cy, bloomRadius * 0.6, cx, cy, bloomRadius * 1.3);
+  bloom.addColorStop(0, accent(theme, 500, 0.2 * Math.min(1, theme.glow)));
+  bloom.addColorStop(1, accent(theme, 500, 0));
+  ctx.fillStyle = bloom;
+  ctx.beginPath();
+  ctx.arc(cx, cy, bloomRadius * 1.3, 0, Math.PI * 2);
+  ctx.fill();
+
+  pose.rings.forEach(ring => {
+    const r = ring.radius * unit; // On the physics boundary by construction
+    const rotation = ring.angle * (Math.PI / 180);
+
+    ctx.save();
+    ctx.translate(cx, cy);
+    ctx.rotate(rotation);
+
+    // Theme gradient across the ring's bounding box, rotating with it
+    const gradient = ctx.createLinearGradient(-r, -r, r, r);
+    gradient.addColorStop(0, theme.ring.from);
+    gradient.addColorStop(1, theme.ring.to);
+    ctx.strokeStyle = gradient;
+    ctx.lineWidth = stroke;
+    ctx.lineCap = 'round';
+    ctx.shadowColor = theme.ring.glow;
+    ctx.shadowBlur = 4 * theme.glow * (arena / ARENA_DESIGN_SIZE);
+
+    solidArcs(ring.gaps).forEach(([start, end]) => {
+      ctx.beginPath();
+      ctx.arc(0, 0, r, start * (Math.PI / 180), end * (Math.PI / 180));
+      ctx.stroke();
+    });
+    ctx.restore();
+  });
+
+  ctx.restore();
+};
+
+// --- OBSTACLES ---
+
+// Bumpers, the bar and pickups, styled like ArenaEntity
+export const drawEntities = (
+  ctx: CanvasRenderingContext2D,
+  pose: ReplayPose,
+  layout: CanvasLayout,
+  theme: Theme,
+  clock: number
+) => {
+  const { cx, cy, unit } = layout;
+
+  pose.entities.forEach(e => {
+    if (!e.active) return;
+    const r = e.radius * unit;
+    ctx.save();
+    ctx.translate(cx + e.x * unit, cy + e.y * unit);
+
+    if (e.kind === 'bar') {
+      const w = e.width * unit;
+      ctx.rotate(e.angle * (Math.PI / 180));
+      const gradient = ctx.createLinearGradient(-r, 0, r, 0);
+      gradient.addColorStop(0, accent(theme, 400));
+      gradient.addColorStop(0.5, accent(theme, 200));
+      gradient.addColorStop(1, accent(theme, 400));
+      ctx.fillStyle = gradient;
+      ctx.shadowColor = theme.ring.glow;
+      ctx.shadowBlur = w;
+      roundedRect(ctx, -r, -w / 2, r * 2, w, w / 2);
+      ctx.fill();
+    } else if (e.kind === 'bumper') {
+      ctx.fillStyle = accent(theme, 500, 0.15);
+      ctx.strokeStyle = accent(theme, 400);
+      ctx.lineWidth = 2 * unit;
+      ctx.shadowColor = theme.ring.glow;
+      ctx.shadowBlur = r * 0.5;
+      ctx.beginPath();
+      ctx.arc(0, 0, r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = accent(theme, 400, 0.4);
+      ctx.beginPath();
+      ctx.arc(0, 0, r / 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      const style = POWER_STYLES[e.power ?? 'shield'];
+      const pulse = 0.75 + 0.25 * Math.sin(clock / 250);
+      ctx.globalAlpha = pulse;
+      ctx.strokeStyle = style.color;
+      ctx.lineWidth = 2 * unit;
+      ctx.shadowColor = style.color;
+      ctx.shadowBlur = r;
+      ctx.beginPath();
+      ctx.arc(0, 0, r, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = style.color;
+      ctx.font = `bold ${r * 1.1}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(style.glyph, 0, 0);
+    }
+    ctx.restore();
+  });
+};
+
+// --- FLAGS ---
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+};
+
+interface FlagCardOptions {
+  width: number;
+  height: number;
+  radius: number;
+  border: string;
+  borderWidth: number;
+  base: string;  // Behind the image
+  tint?: string; // Over it, e.g. while exiting
+  glow?: string;
+}
+
+// Draw `image` over the rect, cropped like object-fit: cover
+const drawCover = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, x: number, y: number, w: number, h: number) => {
+  const { width: iw, height: ih } = image as { width: number; height: number };
+  if (!(iw > 0 && ih > 0)) return;
+  const scale = Math.max(w / iw, h / ih);
+  ctx.drawImage(image, x + (w - iw * scale) / 2, y + (h - ih * scale) / 2, iw * scale, ih * scale);
+};
+
+type TileEntrant = Pick<Entrant, 'id' | 'name' | 'country'>;
+
+// Generated tile for an entrant without a usable image: colour plus a label
+const drawFallbackTile = (ctx: CanvasRenderingContext2D, entrant: TileEntrant, x: number, y: number, w: number, h: number) => {
+  ctx.fillStyle = fallbackColor(entrant.id);
+  ctx.fillRect(x, y, w, h);
+  ctx.fillStyle = 'rgba(255,255,255,0.9)';
+  ctx.font = `bold ${h * 0.45}px monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(tileLabel(entrant), x + w / 2, y + h / 2, w * 0.9);
+};
+
+// One flag card centred on the current origin
+const drawFlagCard = (
+  ctx: CanvasRenderingContext2D,
+  entrant: TileEntrant,
+  image: CanvasImageSource | undefined,
+  o: FlagCardOptions
+) => {
+  const { width: w, height: h } = o;
+  const x = -w / 2;
+  const y = -h / 2;
+
+  ctx.save();
+  ctx.shadowColor = o.glow ?? 'rgba(0,0,0,0.35)';
+  ctx.shadowBlur = o.glow ? w * 0.5 : h * 0.4;
+  ctx.shadowOffsetY = o.glow ? 0 : h * 0.1;
+  roundedRect(ctx, x, y, w, h, o.radius);
+  ctx.fillStyle = o.base; // bg-surface-800 under the image
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  roundedRect(ctx, x, y, w, h, o.radius);
+  ctx.clip();
+  if (image) drawCover(ctx, image, x, y, w, h);
+  else drawFallbackTile(ctx, entrant, x, y, w, h);
+
+  // Gloss overlay
+  const gloss = ctx.createLinearGradient(x, y + h, x + w, y);
+  gloss.addColorStop(0, 'rgba(0,0,0,0.3)');
+  gloss.addColorStop(1, 'rgba(0,0,0,0)');
+  ctx.fillStyle = gloss;
+  ctx.fillRect(x, y, w, h);
+
+  // Subtle accent tint when exiting to simulate energy charge
+  if (o.tint) {
+    ctx.fillStyle = o.tint;
+    ctx.fillRect(x, y, w, h);
+  }
+  ctx.restore();
+
+  roundedRect(ctx, x, y, w, h, o.radius);
+  ctx.strokeStyle = o.border;
+  ctx.lineWidth = o.borderWidth;
+  ctx.stroke();
+};
+
+export const drawFlags = (ctx: CanvasRenderingContext2D, scene: ArenaScene, layout: CanvasLayout, assets: CanvasAssets) => {
+  const { pose, config, entrants, clock, champion, theme } = scene;
+  const { cx, cy, unit } = layout;
+  const fadeStart = pose.rings[pose.rings.length - 1]?.radius ?? config.boundaryRadius;
+  const fadeEnd = config.boundaryRadius * config.exitDistance;
+
+  pose.flags.forEach((f, i) => {
+    if (f.status === 'eliminated') return;
+    const entrant = entrants[i];
+    if (champion && entrant.id === champion.entrant.id) return; // Drawn by drawWinner
+
+    const visual = flagVisual({ ...f, scattering: pose.scattering, time: clock, fadeStart, fadeEnd });
+    if (visual.opacity <= 0) return;
+
+    ctx.save();
+    ctx.globalAlpha = visual.opacity;
+    ctx.translate(cx + f.x * unit, cy + f.y * unit);
+    ctx.rotate(f.angle * (Math.PI / 180));
+    ctx.scale(visual.scale, visual.scale);
+    drawFlagCard(ctx, entrant, assets.flags.get(entrant.id), {
+      width: FLAG_WIDTH * unit,
+      height: FLAG_HEIGHT * unit,
+      radius: 2 * unit,
+      border: 'rgba(255,255,255,0.2)',
+      borderWidth: unit,
+      base: theme.palette.surface[800],
+      tint: f.status === 'exiting' ? accent(theme, 400, 0.2) : undefined
+    });
+
+    // One coloured outline per power the flag holds, like PhysicsFlag
+    flagPowers(f.effects).forEach((power, p) => {
+      const pad = (p + 1) * 2 * unit;
+      ctx.strokeStyle = POWER_STYLES[power].color;
+      ctx.shadowColor = POWER_STYLES[power].color;
+      ctx.shadowBlur = (8 + p * 4) * unit;
+      ctx.lineWidth = 2 * unit;
+      roundedRect(ctx, -FLAG_WIDTH * unit / 2 - pad, -FLAG_HEIGHT * unit / 2 - pad, FLAG_WIDTH * unit + pad * 2, FLAG_HEIGHT * unit + pad * 2, 2 * unit + pad);
+      ctx.stroke();
+    });
+    ctx.restore();
+  });
+};
+
+// Expanding amber ring and a "close!" tag on each highlighted flag
+export const drawHighlights = (ctx: CanvasRenderingContext2D, scene: ArenaScene, layout: CanvasLayout) => {
+  const { pose, entrants, clock, highlights = [] } = scene;
+  const { cx, cy, unit, ui } = layout;
+
+  highlights.forEach(h => {
+    const progress = (clock - h.at) / HIGHLIGHT_MS;
+    const f = pose.flags[entrants.findIndex(e => e.id === h.id)];
+    if (!f || f.status === 'eliminated' || progress < 0 || progress > 1) return;
+
+    ctx.save();
+    ctx.translate(cx + f.x * unit, cy + f.y * unit);
+    ctx.globalAlpha = 1 - progress;
+    ctx.strokeStyle = AMBER;
+    ctx.lineWidth = 2 * unit;
+    ctx.shadowColor = AMBER;
+    ctx.shadowBlur = 10 * unit;
+    ctx.beginPath();
+    ctx.arc(0, 0, (FLAG_WIDTH * 0.6 + 14 * progress) * unit, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = AMBER;
+    ctx.font = `bold ${9 * ui}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.fillText('CLOSE!', 0, -(FLAG_HEIGHT + 6 * progress) * unit);
+    ctx.restore();
+  });
+};
+
+// --- CHAMPION ---
+
+// Under-damped spring from 0 to 1, close to framer-motion's
+// { type: "spring", duration: 1.5, bounce: 0.5 } used by WinnerFlag
+export const springProgress = (ms: number) => {
+  const t = ms / 1000;
+  const zeta = 0.5;
+  const omega = 6;
+  const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+  const decay = Math.exp(-zeta * omega * t);
+  return 1 - decay * (Math.cos(omegaD * t) + (zeta * omega / omegaD) * Math.sin(omegaD * t));
+};
+
+const drawBurst = (ctx: CanvasRenderingContext2D, champion: WinnerState, layout: CanvasLayout) => {
+  const rng = createRng(champion.entrant.id.split('').reduce((h, c) => h * 31 + c.charCodeAt(0), 7));
+  const { ui } = layout;
+
+  for (let i = 0; i < 8; i++) {
+    const tx = (rng.next() - 0.5) * 150 * ui;
+    const ty = (rng.next() - 0.5) * 150 * ui;
+    const repeatDelay = rng.next() * 500;
+    const cycle = (champion.elapsed % (1000 + repeatDelay)) / 1000;
+    if (cycle > 1) continue;
+    const eased = 1 - Math.pow(1 - cycle, 2); // easeOut
+
+    ctx.save();
+    ctx.globalAlpha = 1 - cycle;
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(tx * eased, ty * eased, 4 * ui * 1.5 * eased, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+};
+
+// The winner flying to the centre with its particle burst, like WinnerFlag
+export const drawWinner = (
+  ctx: CanvasRenderingContext2D,
+  champion: WinnerState,
+  layout: CanvasLayout,
+  assets: CanvasAssets,
+  theme: Theme
+) => {
+  const { cx, cy, unit, ui } = layout;
+  const p = springProgress(champion.elapsed);
+  const x = champion.from.x * (1 - p);
+  const y = champion.from.y * (1 - p);
+  const scale = 1 + (WINNER_SCALE - 1) * p;
+
+  ctx.save();
+  ctx.translate(cx + x * unit, cy + y * unit);
+  ctx.save();
+  ctx.scale(scale, scale);
+  const { entrant } = champion;
+  drawFlagCard(ctx, entrant, assets.hiRes?.get(entrant.id) ?? assets.flags.get(entrant.id), {
+    width: WINNER_WIDTH * ui,
+    height: WINNER_HEIGHT * ui,
+    radius: 6 * ui,
+    border: theme.palette.accent[400],
+    borderWidth: 2 * ui,
+    base: theme.palette.surface[800],
+    glow: accent(theme, 400, Math.min(1, 0.5 * theme.glow))
+  });
+  ctx.restore();
+  drawBurst(ctx, champion, layout);
+  ctx.restore();
+};
+
+// Champion banner, fading in after half a second like ChampionBanner
+export const drawChampionBanner = (
+  ctx: CanvasRenderingContext2D,
+  champion: ChampionState,
+  layout: CanvasLayout,
+  assets: CanvasAssets,
+  theme: Theme,
+  title = theme.banner.title
+) => {
+  const { cx, cy, ui } = layout;
+  const { fonts, banner } = theme;
+  const bannerAlpha = Math.max(0, Math.min(1, (champion.elapsed - 500) / 300));
+  if (bannerAlpha <= 0) return;
+  const top = cy + 128 * ui + (1 - bannerAlpha) * 20 * ui;
+
+  ctx.save();
+  ctx.globalAlpha = bannerAlpha;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+
+  if (assets.logo) {
+    const { width: lw, height: lh } = assets.logo as { width: number; height: number };
+    const scale = Math.min(240 * ui / lw, 64 * ui / lh);
+    if (scale > 0) ctx.drawImage(assets.logo, cx - lw * scale / 2, top - 12 * ui - lh * scale, lw * scale, lh * scale);
+  }
+
+  // Letter-spaced like tracking-[0.5em]
+  ctx.fillStyle = theme.palette.accent[400];
+  ctx.font = `bold ${14 * ui}px ${fonts.body}`;
+  ctx.fillText(title.toUpperCase().split('').join(' '), cx, top);
+
+  ctx.fillStyle = theme.palette.ink;
+  ctx.shadowColor = accent(theme, 400, Math.min(1, 0.6 * theme.glow));
+  ctx.shadowBlur = 25 * ui;
+  ctx.font = `900 ${48 * ui}px ${fonts.display}`;
+  ctx.fillText(champion.entrant.name.toUpperCase(), cx, top + 26 * ui);
+  ctx.shadowBlur = 0;
+
+  const podiumTop = banner.tagline ? top + 96 * ui : top + 78 * ui;
+  if (banner.tagline) {
+    ctx.fillStyle = theme.palette.surface[300];
+    ctx.font = `${12 * ui}px ${fonts.body}`;
+    ctx.fillText(banner.tagline.toUpperCase(), cx, top + 80 * ui);
+  }
+
+  champion.podium.slice(1, 3).forEach((entry, i) => {
+    const px = cx + (i === 0 ? -60 : 60) * ui;
+    const py = podiumTop + 18 * ui;
+    ctx.fillStyle = i === 0 ? theme.palette.surface[300] : '#d97706';
+    ctx.font = `bold ${10 * ui}px monospace`;
+    ctx.fillText(ordinal(i + 2), px, py);
+    ctx.save();
+    ctx.translate(px, py + 30 * ui);
+    drawFlagCard(ctx, entry, assets.hiRes?.get(entry.id) ?? assets.flags.get(entry.id), {
+      width: 40 * ui,
+      height: 28 * ui,
+      radius: 2 * ui,
+      border: 'rgba(255,255,255,0.2)',
+      borderWidth: ui,
+      base: theme.palette.surface[800]
+    });
+    ctx.restore();
+    ctx.fillStyle = theme.palette.surface[300];
+    ctx.font = `bold ${12 * ui}px ${fonts.body}`;
+    ctx.fillText(entry.name.toUpperCase(), px, py + 50 * ui);
+  });
+
+  ctx.restore();
+};
+
+// --- HUD ---
+
+const drawPanel = (ctx: CanvasRenderingContext2D, theme: Theme, x: number, y: number, w: number, h: number, ui: number) => {
+  roundedRect(ctx, x, y, w, h, 8 * ui);
+  ctx.fillStyle = surface(theme, 900, 0.8);
+  ctx.fill();
+  ctx.strokeStyle = accent(theme, 500, 0.2);
+  ctx.lineWidth = ui;
+  ctx.stroke();
+};
+
+export const drawHud = (ctx: CanvasRenderingContext2D, scene: CanvasScene, layout: CanvasLayout, assets: CanvasAssets) => {
+  const { ui, width } = layout;
+  const { theme } = scene;
+  const { fonts } = theme;
+  const margin = 24 * ui;
+  const total = scene.entrants.length;
+  const remaining = total - scene.eliminations.length;
+
+  // Remaining counter, top right
+  const counterW = 170 * ui;
+  const counterH = 44 * ui;
+  const counterX = width - margin - counterW;
+  drawPanel(ctx, theme, counterX, margin, counterW, counterH, ui);
+  ctx.save();
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = theme.palette.ink;
+  ctx.font = `900 ${24 * ui}px ${fonts.mono}`;
+  ctx.fillText(String(remaining), counterX + 16 * ui, margin + counterH / 2);
+  ctx.fillStyle = theme.palette.accent[400];
+  ctx.font = `bold ${10 * ui}px ${fonts.body}`;
+  ctx.fillText('REMAINING', counterX + 60 * ui, margin + counterH / 2);
+  ctx.fillStyle = theme.palette.surface[500];
+  ctx.font = `${10 * ui}px ${fonts.mono}`;
+  ctx.fillText(`/ ${total}`, counterX + 130 * ui, margin + counterH / 2);
+  ctx.restore();
+
+  // Kill feed, top left, newest first
+  const recent = scene.eliminations.slice(-FEED_LENGTH).reverse();
+  recent.forEach((e, i) => {
+    const entrant = scene.entrants.find(en => en.id === e.id) ?? e;
+    const rowH = 22 * ui;
+    const y = margin + i * (rowH + 4 * ui);
+    ctx.save();
+    ctx.globalAlpha = 1 - i * 0.12;
+    drawPanel(ctx, theme, margin, y, 190 * ui, rowH, ui / 2);
+    ctx.save();
+    ctx.translate(margin + 16 * ui, y + rowH / 2);
+    drawFlagCard(ctx, entrant, assets.flags.get(e.id), {
+      width: 16 * ui,
+      height: 12 * ui,
+      radius: 2 * ui,
+      border: 'rgba(255,255,255,0.1)',
+      borderWidth: ui / 2,
+      base: theme.palette.surface[800]
+    });
+    ctx.restore();
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = theme.palette.surface[300];
+    ctx.font = `500 ${10 * ui}px ${fonts.body}`;
+    ctx.fillText(e.name, margin + 30 * ui, y + rowH / 2);
+    const nameWidth = ctx.measureText(e.name).width;
+    ctx.fillStyle = theme.palette.surface[500];
+    ctx.font = `${10 * ui}px ${fonts.mono}`;
+    ctx.fillText(`out — ${ordinal(e.place)}`, margin + 36 * ui + nameWidth, y + rowH / 2);
+    ctx.restore();
+  });
+};
+
+// Rings, flags and winner; the rings are hidden once there is a champion
+export const drawArena = (
+  ctx: CanvasRenderingContext2D,
+  scene: ArenaScene,
+  layout: CanvasLayout,
+  assets: CanvasAssets
+) => {
+  drawRings(ctx, scene.pose, layout, scene.theme, scene.champion ? 0 : 1);
+  if (!scene.champion) drawEntities(ctx, scene.pose, layout, scene.theme, scene.clock);
+  drawFlags(ctx, scene, layout, assets);
+  drawHighlights(ctx, scene, layout);
+  if (scene.champion) drawWinner(ctx, scene.champion, layout, assets, scene.theme);
+};
+
+// Full frame, back to front
+export const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasScene,
+  layout: CanvasLayout,
+  assets: CanvasAssets
+) => {
+  drawBackground(ctx, layout, scene.theme, assets);
+  drawArena(ctx, scene, layout, assets);
+  drawHud(ctx, scene, layout, assets);
+  if (scene.champion) drawChampionBanner(ctx, scene.champion, layout, assets, scene.theme);
+};
@@ -0,0 +1,76 @@
+import { Entrant, FlagStatus } from '../types';
+import { PowerId, SHRINK_SCALE, hasEffect } from '../engine/entities';
+
+// Purely cosmetic per-flag scale and opacity, shared by every renderer so the
+// live arena and replays look identical. Never feeds back into the physics.
+
+export interface FlagVisual {
+  scale: number;
+  opacity: number;
+}
+
+export interface FlagVisualInput {
+  status: FlagStatus;
+  x: number;
+  y: number;
+  scattering: boolean; // false during the formation spin
+  time: number;        // Any steadily increasing ms clock, drives the breathing
+  fadeStart: number;   // Distance at which an escaping flag starts to fade
+  fadeEnd: number;     // Distance at which it is gone
+  effects?: number;    // Power-up bitmask from the pose
+}
+
+const baseVisual = ({ status, x, y, scattering, time, fadeStart, fadeEnd }: FlagVisualInput): FlagVisual => {
+  if (!scattering) return { scale: 1, opacity: 1 };
+
+  if (status === 'active') {
+    // --- BREATHING / MOTION EFFECT ---
+    // Add a subtle sine wave scale pulse based on time and position to create "floating" feel
+    return { scale: 1 + Math.sin((time / 600) + (x * 0.05)) * 0.1, opacity: 1 };
+  }
+
+  if (status === 'exiting') {
+    // "Fly off" effect: fade out and shrink slightly to 0.7
+    const dist = Math.sqrt(x * x + y * y);
+    let progress = (dist - fadeStart) / (fadeEnd - fadeStart);
+    progress = Math.max(0, Math.min(1, progress));
+    return { scale: 1 - (progress * 0.3), opacity: 1 - progress };
+  }
+
+  return { scale: 1, opacity: status === 'eliminated' ? 0 : 1 };
+};
+
+export const flagVisual = (input: FlagVisualInput): FlagVisual => {
+  const visual = baseVisual(input);
+  // A shrunk flag is drawn at the size it collides at
+  return input.effects && hasEffect(input.effects, 'shrink') ? { ...visual, scale: visual.scale * SHRINK_SCALE } : visual;
+};
+
+// --- POWER-UPS ---
+// Pickup colours and glyphs, also used for the indicator on a powered flag
+
+export const POWER_STYLES: Record<PowerId, { color: string; glyph: string; label: string }> = {
+  shield: { color: '#38bdf8', glyph: 'S', label: 'Shield' },
+  boost: { color: '#fbbf24', glyph: '»', label: 'Boost' },
+  shrink: { color: '#a78bfa', glyph: '–', label: 'Shrink' }
+};
+
+export const POWER_IDS = Object.keys(POWER_STYLES) as PowerId[];
+
+// Powers in a flag's effect bitmask, in drawing order
+export const flagPowers = (effects: number) => POWER_IDS.filter(power => hasEffect(effects, power));
+
+// Stand-in for a missing or broken image: a tile whose colour is derived from
+// the entrant id, so the same entrant always gets the same tile
+export const fallbackColor = (id: string) => {
+  const hash = id.split('').reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+  return `hsl(${hash % 360}, 55%, 38%)`;
+};
+
+// Text on the tile: the country code for countries, otherwise initials
+export const tileLabel = ({ name, country }: Pick<Entrant, 'name' | 'country'>) => {
+  if (country) return country.toUpperCase();
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const label = words.length > 1 ? words.slice(0, 3).map(w => w[0]).join('') : (words[0] ?? '?').slice(0, 2);
+  return label.toUpperCase();
+};
@@ -0,0 +1,340 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GlobalFonts, createCanvas, loadImage, Image } from '@napi-rs/canvas';
+import wae from 'web-audio-engine';
+import { createWorld, drainEvents, stepWorld } from '../engine/simulation';
+import { createReplay, parseReplayJson, recordTick, replayDuration, replayPoseAt, Replay } from '../engine/replay';
+import { createRng, randomSeed } from '../engine/rng';
+import { DEFAULT_GAME_CONFIG, GameConfig, configFromParams, roundEngineConfig, selectEntrants, soundSettings } from '../services/gameConfig';
+import { CanvasAssets, ChampionState, computeLayout, drawFrame } from '../renderer/canvasRenderer';
+import { TimedCue, replaySoundCues, soundCues } from '../audio/soundCues';
+import { SoundSettings, createSoundEngine } from '../audio/soundEngine';
+import { encodeWav } from '../audio/wav';
+import { BUILT_IN_THEMES, Theme, parseThemeJson, resolveTheme } from '../services/themes';
+
+// Offline video export. Plays a round headlessly (or loads a saved replay),
+// renders every frame with the Canvas 2D renderer and writes a PNG sequence
+// or pipes it through ffmpeg into a WebM. No browser or GPU is needed, and
+// the same seed and config always give the same frames. With --audio on the
+// sound effects are rendered offline through the same synth as the live game
+// and muxed into the WebM, or written next to the PNGs as soundtrack.wav.
+//
+//   npm run export:video -- --seed 42 --size 1080x1920 --format webm --audio on
+//   npm run export:video -- --replay replay-42.json --fps 30 --out frames
+//   npm run export:video -- --seed 7 --theme sponsor-theme.json
+
+const USAGE = `Usage: npm run export:video -- [options]
+
+  --seed <n>            Round seed (default: random)
+  --params <query>      Config as URL parameters, e.g. "mode=nested&gapDegrees=30"
+                        (also sets the sound mix and built-in theme, e.g. "soundVolume=0.8&theme=sports")
+  --theme <file>        Custom theme JSON, as imported in the settings panel
+  --replay <file>       Render a saved replay instead of simulating
+  --size <WxH>          Output size (default 1080x1920)
+  --fps <n>             Frames per second (default 60)
+  --champion <seconds>  Champion screen length (default: restartDelayMs)
+  --format png|webm     PNG sequence or WebM via ffmpeg (default png)
+  --out <path>          Output directory for PNGs, or file for WebM
+  --audio on|off        Render the sound effects (default off)
+  --flags <dir>         Flag images named <entrant id>.svg or .png (default: bundled country flags)
+  --ffmpeg <path>       ffmpeg binary (default: ffmpeg on PATH)`;
+
+const MAX_TICKS = 120 * 60 * 30;
+const BUNDLED_FLAGS = fileURLToPath(new URL('../node_modules/flag-icons/flags/4x3', import.meta.url));
+const NOISE_SIZE = 256;
+const SAMPLE_RATE = 48000;
+const SOUNDTRACK_FILE = 'soundtrack.wav';
+
+interface ExportOptions {
+  seed: number;
+  params: string;
+  replay: string | null;
+  width: number;
+  height: number;
+  fps: number;
+  championSeconds: number | null;
+  format: 'png' | 'webm';
+  out: string | null;
+  audio: boolean;
+  theme: string | null;
+  flags: string | null;
+  ffmpeg: string;
+}
+
+const fail = (message: string): never => {
+  console.error(`export-video: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): ExportOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) fail(`unexpected argument "${arg}"`);
+    args.set(arg.slice(2), argv[++i]);
+  }
+
+  const number = (key: string, fallback: number, allowZero = false) => {
+    if (!args.has(key)) return fallback;
+    const value = Number(args.get(key));
+    if (!Number.isFinite(value) || value < 0 || (value === 0 && !allowZero)) {
+      fail(`--${key} must be ${allowZero ? 'zero or more' : 'a positive number'}`);
+    }
+    return value;
+  };
+
+  // 0 is a seed like any other
+  const seed = () => {
+    const value = Number(args.get('seed'));
+    if (!Number.isInteger(value) || value < 0) fail('--seed must be a whole number, 0 or more');
+    return value;
+  };
+
+  const size = (args.get('size') ?? '1080x1920').match(/^(\d+)x(\d+)$/);
+  if (!size) fail('--size must look like 1080x1920');
+  const format = args.get('format') ?? 'png';
+  if (format !== 'png' && format !== 'webm') fail('--format must be png or webm');
+  const audio = args.get('audio') ?? 'off';
+  if (audio !== 'on' && audio !== 'off') fail('--audio must be on or off');
+
+  return {
+    seed: args.has('seed') ? seed() : randomSeed(),
+    params: args.get('params') ?? '',
+    replay: args.get('replay') ?? null,
+    width: Number(size![1]),
+    height: Number(size![2]),
+    fps: number('fps', 60),
+    championSeconds: args.has('champion') ? number('champion', 0, true) : null, // 0 = no champion screen
+    format: format as ExportOptions['format'],
+    out: args.get('out') ?? null,
+    audio: audio === 'on',
+    theme: args.get('theme') ?? null,
+    flags: args.get('flags') ?? null,
+    ffmpeg: args.get('ffmpeg') ?? 'ffmpeg'
+  };
+};
+
+// Play the round at full speed, recording it and its sound cues exactly like the live arena
+const simulateReplay = (seed: number, config: GameConfig) => {
+  const world = createWorld({ seed, entrants: selectEntrants(config), config: roundEngineConfig(config) });
+  const replay = createReplay(world);
+  const cues: TimedCue[] = [];
+  while (world.phase !== 'finished' && world.tick < MAX_TICKS) {
+    const before = world.time;
+    stepWorld(world);
+    recordTick(replay, world);
+    cues.push(...soundCues(world, drainEvents(world), before));
+  }
+  if (world.phase !== 'finished') fail(`round ${seed} did not finish within ${MAX_TICKS} ticks`);
+  return { replay, cues, championMs: config.restartDelayMs };
+};
+
+// Offline render of the whole soundtrack through the live game's synth
+const renderSoundtrack = async (cues: TimedCue[], durationMs: number, settings: SoundSettings) => {
+  const length = Math.ceil((durationMs / 1000) * SAMPLE_RATE);
+  // web-audio-engine implements the standard OfflineAudioContext in plain JS
+  const context = new wae.OfflineAudioContext(2, length, SAMPLE_RATE) as OfflineAudioContext;
+  const sound = createSoundEngine(context, settings);
+  cues.forEach(c => sound.play(c.cue, c.time / 1000));
+  return encodeWav(await context.startRendering());
+};
+
+// An entrant's own image wins; otherwise <id> from --flags, or its bundled country flag
+const loadFlagImages = async (replay: Replay, dir: string | null) => {
+  const images = new Map<string, Image>();
+  let missing = 0;
+  for (const { id, image, country } of replay.entrants) {
+    const name = dir ? id : country;
+    const file = name && [`${name}.svg`, `${name}.png`].map(n => join(dir ?? BUNDLED_FLAGS, n)).find(existsSync);
+    try {
+      if (!image && !file) throw new Error('missing');
+      images.set(id, await loadImage(image ?? file!));
+    } catch {
+      missing++; // Drawn as a generated tile instead
+    }
+  }
+  if (missing > 0) console.warn(`export-video: ${missing} flag image(s) unavailable, drawing generated tiles`);
+  return images;
+};
+
+// Theme fonts, logo and backdrop. Each may be a URL or a local path; any
+// that fail to load are left out with a warning.
+const loadThemeAssets = async (theme: Theme) => {
+  const fetchBytes = async (source: string) =>
+    /^https?:/.test(source) ? Buffer.from(await (await fetch(source)).arrayBuffer()) : readFile(source);
+  const image = async (source: string | null, label: string) => {
+    if (!source) return undefined;
+    try {
+      return await loadImage(await fetchBytes(source));
+    } catch (err) {
+      console.warn(`export-video: could not load theme ${label} "${source}" (${err instanceof Error ? err.message : err})`);
+      return undefined;
+    }
+  };
+
+  for (const font of theme.fonts.sources) {
+    try {
+      if (!GlobalFonts.register(await fetchBytes(font.url), font.family)) throw new Error('unsupported font');
+    } catch (err) {
+      console.warn(`export-video: could not load font "${font.family}" (${err instanceof Error ? err.message : err})`);
+    }
+  }
+  return { logo: await image(theme.banner.logo, 'logo'), backdrop: await image(theme.background.image, 'background') };
+};
+
+// Same grain every export, so frames stay reproducible
+const createNoise = (seed: number) => {
+  const canvas = createCanvas(NOISE_SIZE, NOISE_SIZE);
+  const ctx = canvas.getContext('2d');
+  const pixels = ctx.createImageData(NOISE_SIZE, NOISE_SIZE);
+  const rng = createRng(seed);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const v = Math.floor(rng.next() * 256);
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = v;
+    pixels.data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+// Writes PNG buffers either to numbered files or into ffmpeg's stdin, with
+// the soundtrack (if any) beside the frames or muxed into the WebM
+const createSink = async (options: ExportOptions, name: string, soundtrack: Uint8Array | null) => {
+  if (options.format === 'png') {
+    const dir = options.out ?? `export-${name}`;
+    await mkdir(dir, { recursive: true });
+    if (soundtrack) await writeFile(join(dir, SOUNDTRACK_FILE), soundtrack);
+    return {
+      target: dir,
+      write: (index: number, png: Buffer) => writeFile(join(dir, `frame-${String(index).padStart(6, '0')}.png`), png),
+      close: async () => {}
+    };
+  }
+
+  const file = options.out ?? `export-${name}.webm`;
+  const audioDir = soundtrack ? await mkdtemp(join(tmpdir(), 'export-video-')) : null;
+  const audioFile = audioDir && join(audioDir, SOUNDTRACK_FILE);
+  if (audioFile) await writeFile(audioFile, soundtrack!);
+
+  const ffmpeg = spawn(options.ffmpeg, [
+    '-y', '-loglevel', 'error',
+    '-f', 'image2pipe', '-framerate', String(options.fps), '-c:v', 'png', '-i', '-',
+    ...(audioFile ? ['-i', audioFile, '-c:a', 'libopus', '-b:a', '160k'] : []),
+    '-c:v', 'libvpx-vp9', '-pix_fmt', 'yuv420p', '-b:v', '0', '-crf', '30', '-row-mt', '1',
+    file
+  ], { stdio: ['pipe', 'inherit', 'inherit'] });
+
+  const exited = new Promise<void>((resolve, reject) => {
+    ffmpeg.on('error', err => reject(
+      (err as NodeJS.ErrnoException).code === 'ENOENT'
+        ? new Error(`ffmpeg not found ("${options.ffmpeg}"). Install it, pass --ffmpeg <path>, or use --format png`)
+        : err
+    ));
+    ffmpeg.on('close', code => (code === 0 ? resolve() : reject(new Error(`ffmpeg exited with code ${code}`))));
+  }).finally(() => audioDir && rm(audioDir, { recursive: true, force: true }));
+  exited.catch(() => {}); // Surfaced by write/close below
+  ffmpeg.stdin.on('error', () => {}); // EPIPE when ffmpeg dies; reported through `exited`
+
+  return {
+    target: file,
+    write: async (_index: number, png: Buffer) => {
+      if (ffmpeg.exitCode !== null || ffmpeg.stdin.destroyed) await exited;
+      if (!ffmpeg.stdin.write(png)) {
+        await Promise.race([new Promise(resolve => ffmpeg.stdin.once('drain', resolve)), exited]);
+      }
+    },
+    close: async () => {
+      ffmpeg.stdin.end();
+      await exited;
+    }
+  };
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const { config, issues } = configFromParams(new URLSearchParams(options.params), DEFAULT_GAME_CONFIG);
+  issues.forEach(issue => console.warn(`export-video: ${issue.message}`));
+  // No localStorage here, so custom themes come from --theme
+  const theme = options.theme
+    ? parseThemeJson(await readFile(options.theme, 'utf8'), BUILT_IN_THEMES)
+    : resolveTheme(config.theme, BUILT_IN_THEMES);
+
+  const saved = options.replay ? parseReplayJson(await readFile(options.replay, 'utf8')) : null;
+  const { replay, cues, championMs } = saved
+    ? { replay: saved, cues: replaySoundCues(saved), championMs: DEFAULT_GAME_CONFIG.restartDelayMs }
+    : simulateReplay(options.seed, config);
+
+  if (options.flags && !existsSync(options.flags)) fail(`flag directory "${options.flags}" does not exist`);
+
+  const roundMs = replayDuration(replay);
+  const totalMs = roundMs + (options.championSeconds !== null ? options.championSeconds * 1000 : championMs);
+  const frameCount = Math.ceil((totalMs / 1000) * options.fps);
+
+  // @napi-rs/canvas images and canvases stand in for their DOM counterparts
+  const assets = {
+    flags: await loadFlagImages(replay, options.flags),
+    noise: createNoise(replay.seed),
+    ...(await loadThemeAssets(theme))
+  } as unknown as CanvasAssets;
+  const canvas = createCanvas(options.width, options.height);
+  const ctx = canvas.getContext('2d');
+  const layout = computeLayout(options.width, options.height, replay.config);
+
+  const finalPose = replayPoseAt(replay, roundMs);
+  const winnerIndex = replay.entrants.findIndex(e => e.id === replay.winner);
+  const podium = [
+    ...(winnerIndex >= 0 ? [replay.entrants[winnerIndex]] : []),
+    ...[...replay.eliminations].reverse()
+  ].slice(0, 3);
+
+  let soundtrack: Uint8Array | null = null;
+  if (options.audio) {
+    console.log(`export-video: rendering ${cues.length} sound cues`);
+    soundtrack = await renderSoundtrack(cues, (frameCount * 1000) / options.fps, soundSettings(config));
+  }
+
+  const sink = await createSink(options, String(replay.seed), soundtrack);
+  console.log(`export-video: seed ${replay.seed}, ${frameCount} frames at ${options.fps} fps -> ${sink.target}`);
+
+  for (let i = 0; i < frameCount; i++) {
+    const time = (i * 1000) / options.fps;
+    const pose = replayPoseAt(replay, Math.min(time, roundMs));
+    const champion: ChampionState | null = time > roundMs && winnerIndex >= 0
+      ? {
+          entrant: replay.entrants[winnerIndex],
+          from: finalPose.flags[winnerIndex],
+          elapsed: time - roundMs,
+          podium
+        }
+      : null;
+
+    drawFrame(ctx as unknown as CanvasRenderingContext2D, {
+      pose,
+      entrants: replay.entrants,
+      config: replay.config,
+      clock: time,
+      eliminations: replay.eliminations.filter(e => e.time <= time),
+      champion,
+      theme
+    }, layout, assets);
+
+    await sink.write(i + 1, await canvas.encode('png'));
+    if ((i + 1) % options.fps === 0) process.stdout.write(`\rexport-video: ${i + 1}/${frameCount}`);
+  }
+
+  await sink.close();
+  console.log(`\nexport-video: done`);
+};
+
+main().catch(err => {
+  console.error(`export-video: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
@@ -0,0 +1,287 @@
+import { writeFile } from 'node:fs/promises';
+import { Entrant } from '../types';
+import { World, createWorld, stepWorld } from '../engine/simulation';
+import { pointAngle, normalizeAngle } from '../engine/geometry';
+import { randomSeed } from '../engine/rng';
+import { DEFAULT_GAME_CONFIG, GameConfig, configFromParams, roundEngineConfig, selectEntrants } from '../services/gameConfig';
+import { ChiSquareResult, chiSquare, chiSquareUniform, percentile } from '../utils/stats';
+
+// Monte Carlo fairness check. Plays thousands of headless rounds with
+// consecutive seeds and tests whether any entrant, or any starting position
+// relative to the gap, wins more often than chance allows. Exits with 1 when
+// the config is detectably unfair and 3 when there were too few rounds to
+// tell, so it can gate a new mode or tuning change.
+//
+//   npm run fairness -- --rounds 2000 --params "gapOpenDelayMs=5000"
+//   npm run fairness -- --params "mode=nested&gapDegrees=30" --json nested.json
+//   npm run fairness -- --rounds 500 --fixed-offset 0   (self-check: must come out UNFAIR)
+
+const USAGE = `Usage: npm run fairness -- [options]
+
+  --rounds <n>      Rounds to simulate (default 1000)
+  --seed <n>        First seed; round i uses seed + i (default: random)
+  --params <query>  Config as URL parameters, e.g. "mode=shrinking&region=europe"
+  --alpha <p>       Significance level across both tests (default 0.01)
+  --json <file>     Also write the full report as JSON
+  --fixed-offset <degrees>
+                    Start every formation at the same rotation, as the engine
+                    once did, with the gap open from the release
+                    (gapOpenDelayMs=0). The start test should then find the bias.
+
+Exit status:
+  0  fair
+  1  detectably unfair, or a round never finished
+  2  bad arguments or a crash
+  3  inconclusive: too few rounds for a test to be reliable`;
+
+const MAX_TICKS = 120 * 60 * 30;
+const MIN_EXPECTED = 5; // Below this many expected wins per category the chi-square test is unreliable
+const SECTORS = 8;      // Starting positions are binned into this many sectors round the gap
+const LISTED = 5;       // Entrants shown at each end of the win table
+const DURATION_PERCENTILES = [0.1, 0.5, 0.9, 0.99];
+
+interface FairnessOptions {
+  rounds: number;
+  seed: number;
+  params: string;
+  alpha: number;
+  json: string | null;
+  fixedOffset: number | undefined;
+}
+
+type Verdict = 'fair' | 'unfair' | 'inconclusive';
+
+interface FairnessTest extends ChiSquareResult {
+  verdict: Verdict;
+}
+
+interface FairnessReport {
+  seeds: { first: number; last: number };
+  rounds: number;
+  unfinished: number;   // Rounds still running after MAX_TICKS; they have no winner
+  mode: string;
+  entrants: number;
+  alpha: number;        // Per test, after splitting --alpha across the two tests
+  wins: { id: string; name: string; wins: number }[]; // Most wins first
+  // By starting angle from the first gap's centre on the innermost ring at
+  // release; sector 1 is centred on the gap, then clockwise. `expected` is
+  // the wins due if every flag were equally likely to win.
+  startWins: { fromDegrees: number; toDegrees: number; wins: number; expected: number }[];
+  fixedOffset: number | null;
+  durationMs: Record<string, number>; // Round length percentiles, formation included
+  targetDurationMs: number;           // 0 without a target
+  suddenDeaths: number;               // Rounds that overran the target
+  entrantTest: FairnessTest;
+  startTest: FairnessTest;
+  verdict: Verdict;
+}
+
+const fail = (message: string): never => {
+  console.error(`fairness: ${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const parseArgs = (argv: string[]): FairnessOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) fail(`unexpected argument "${arg}"`);
+    args.set(arg.slice(2), argv[++i]);
+  }
+
+  const number = (key: string, fallback: number) => {
+    if (!args.has(key)) return fallback;
+    const value = Number(args.get(key));
+    if (!Number.isFinite(value) || value <= 0) fail(`--${key} must be a positive number`);
+    return value;
+  };
+
+  // Seeds are uint32, and 0 is as good a seed as any
+  const seed = () => {
+    const value = Number(args.get('seed'));
+    if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) fail('--seed must be a whole number from 0 to 4294967295');
+    return value;
+  };
+
+  const fixedOffset = args.has('fixed-offset') ? Number(args.get('fixed-offset')) : undefined;
+  if (fixedOffset !== undefined && !Number.isFinite(fixedOffset)) fail('--fixed-offset must be a number of degrees');
+
+  const alpha = number('alpha', 0.01);
+  if (alpha >= 1) fail('--alpha must be below 1');
+
+  return {
+    rounds: Math.floor(number('rounds', 1000)),
+    seed: args.has('seed') ? seed() : randomSeed(),
+    params: args.get('params') ?? '',
+    alpha,
+    json: args.get('json') ?? null,
+    fixedOffset
+  };
+};
+
+const runTest = (result: ChiSquareResult, alpha: number): FairnessTest => {
+  const verdict: Verdict = result.expected < MIN_EXPECTED ? 'inconclusive' : result.pValue < alpha ? 'unfair' : 'fair';
+  return { ...result, verdict };
+};
+
+// --- SIMULATION ---
+
+const SECTOR_DEGREES = 360 / SECTORS;
+
+// Sector of each flag's position, measured from the centre of the innermost
+// ring's first gap. Sector 0 is centred on the gap.
+const startSectors = (world: World) => {
+  const ring = world.rings[0];
+  const gap = ring.gaps[0];
+  const gapCentre = gap ? ring.angle + gap.offset + gap.size / 2 : 0;
+  return world.flags.map(({ physics: p }) => {
+    const fromGap = normalizeAngle(pointAngle(p.x, p.y) - gapCentre + SECTOR_DEGREES / 2);
+    return Math.min(SECTORS - 1, Math.floor(fromGap / SECTOR_DEGREES));
+  });
+};
+
+const simulate = (options: FairnessOptions, entrants: Entrant[], config: GameConfig) => {
+  const winsById = new Map(entrants.map(e => [e.id, 0]));
+  const sectorWins: number[] = Array(SECTORS).fill(0);
+  const sectorExpected: number[] = Array(SECTORS).fill(0);
+  const durations: number[] = [];
+  let unfinished = 0;
+  let suddenDeaths = 0;
+
+  for (let i = 0; i < options.rounds; i++) {
+    const world = createWorld({ seed: (options.seed + i) >>> 0, entrants, config, formationOffset: options.fixedOffset });
+    // Where everyone is relative to the gap at the moment they are released
+    while (world.phase === 'formation') stepWorld(world);
+    const sectors = startSectors(world);
+    while (world.phase !== 'finished' && world.tick < MAX_TICKS) {
+      stepWorld(world);
+    }
+
+    if (world.winner) {
+      const winnerIndex = world.flags.indexOf(world.winner);
+      winsById.set(world.winner.id, (winsById.get(world.winner.id) ?? 0) + 1);
+      sectorWins[sectors[winnerIndex]]++;
+      // A fair round gives every flag the same chance, so each sector is due
+      // its share of the field
+      sectors.forEach(sector => (sectorExpected[sector] += 1 / sectors.length));
+      durations.push(world.time);
+    } else {
+      unfinished++;
+    }
+    if (world.pacing?.suddenDeathAt != null) suddenDeaths++;
+    if ((i + 1) % 100 === 0) process.stdout.write(`\rfairness: ${i + 1}/${options.rounds} rounds`);
+  }
+  process.stdout.write('\n');
+
+  return { winsById, sectorWins, sectorExpected, durations: durations.sort((a, b) => a - b), unfinished, suddenDeaths };
+};
+
+// --- REPORT ---
+
+const formatP = (p: number) => (p < 0.0001 ? p.toExponential(1) : p.toFixed(4));
+const formatRate = (wins: number, rounds: number) => `${((wins / Math.max(1, rounds)) * 100).toFixed(2)}%`;
+
+const describeTest = (label: string, test: FairnessTest) =>
+  `${label}: chi2 = ${test.statistic.toFixed(1)}, df = ${test.df}, p = ${formatP(test.pValue)} -> ${test.verdict.toUpperCase()}` +
+  (test.verdict === 'inconclusive' ? ` (only ${test.expected.toFixed(1)} expected wins each; need ${MIN_EXPECTED})` : '');
+
+const printReport = (report: FairnessReport) => {
+  const decided = report.rounds - report.unfinished;
+  console.log(`\nMode ${report.mode}, ${report.entrants} entrants, ${report.rounds} rounds (seeds ${report.seeds.first}-${report.seeds.last})`);
+  if (report.unfinished > 0) console.log(`${report.unfinished} rounds had no winner after ${MAX_TICKS} ticks`);
+
+  console.log(`\nWins per entrant (uniform: ${formatRate(1, report.entrants)})`);
+  const listed = report.wins.length > LISTED * 2
+    ? [...report.wins.slice(0, LISTED), null, ...report.wins.slice(-LISTED)]
+    : report.wins;
+  listed.forEach(row => console.log(row
+    ? `  ${row.name.padEnd(28)} ${String(row.wins).padStart(6)}  ${formatRate(row.wins, decided)}`
+    : '  ...'));
+
+  const pinned = report.fixedOffset !== null ? `, formation pinned at ${report.fixedOffset} degrees` : '';
+  console.log(`\nWins by starting angle from the gap centre at release${pinned}`);
+  report.startWins.forEach(sector => {
+    const range = `${sector.fromDegrees} to ${sector.toDegrees}`.padEnd(12);
+    console.log(`  ${range} ${String(sector.wins).padStart(6)}  ${formatRate(sector.wins, decided)} (fair ${formatRate(sector.expected, decided)})`);
+  });
+
+  console.log('\nRound duration');
+  Object.entries(report.durationMs).forEach(([label, ms]) => console.log(`  ${label.padEnd(4)} ${(ms / 1000).toFixed(1)}s`));
+  if (report.targetDurationMs > 0) {
+    console.log(`  Target ${(report.targetDurationMs / 1000).toFixed(1)}s, overrun into sudden death in ${report.suddenDeaths} rounds`);
+  }
+
+  console.log(`\nChi-square against uniform, alpha ${report.alpha} per test`);
+  console.log(`  ${describeTest('Entrants', report.entrantTest)}`);
+  console.log(`  ${describeTest('Start', report.startTest)}`);
+  console.log(`\nVerdict: ${report.verdict.toUpperCase()}`);
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const { config, issues } = configFromParams(new URLSearchParams(options.params), DEFAULT_GAME_CONFIG);
+  issues.forEach(issue => console.warn(`fairness: ${issue.message}`));
+  const entrants = selectEntrants(config);
+  if (entrants.length < 2) fail('the config selects fewer than two entrants');
+
+  // The same engine config a live round gets, prediction window included. The
+  // self-check also needs the gap open from the release: the hold is there
+  // to hide exactly the bias a pinned formation creates.
+  const engineConfig = options.fixedOffset === undefined ? roundEngineConfig(config) : { ...roundEngineConfig(config), gapOpenDelayMs: 0 };
+  const { winsById, sectorWins, sectorExpected, durations, unfinished, suddenDeaths } = simulate(options, entrants, engineConfig);
+
+  // Two tests at once: split alpha so the chance of a false alarm stays at --alpha
+  const alpha = options.alpha / 2;
+  const entrantTest = runTest(chiSquareUniform(entrants.map(e => winsById.get(e.id) ?? 0)), alpha);
+  const startTest = runTest(chiSquare(sectorWins, sectorExpected), alpha);
+  const tests = [entrantTest, startTest];
+  // Rounds that never end are a fairness problem of their own
+  const verdict: Verdict = tests.some(t => t.verdict === 'unfair') || unfinished > 0
+    ? 'unfair'
+    : tests.some(t => t.verdict === 'inconclusive') ? 'inconclusive' : 'fair';
+
+  const report: FairnessReport = {
+    seeds: { first: options.seed, last: (options.seed + options.rounds - 1) >>> 0 },
+    rounds: options.rounds,
+    unfinished,
+    mode: engineConfig.mode,
+    entrants: entrants.length,
+    alpha,
+    wins: entrants
+      .map(e => ({ id: e.id, name: e.name, wins: winsById.get(e.id) ?? 0 }))
+      .sort((a, b) => b.wins - a.wins || a.name.localeCompare(b.name)),
+    startWins: sectorWins.map((wins, s) => ({
+      fromDegrees: s * SECTOR_DEGREES - SECTOR_DEGREES / 2,
+      toDegrees: s * SECTOR_DEGREES + SECTOR_DEGREES / 2,
+      wins,
+      expected: Math.round(sectorExpected[s] * 100) / 100
+    })),
+    fixedOffset: options.fixedOffset ?? null,
+    durationMs: Object.fromEntries([
+      ...DURATION_PERCENTILES.map(p => [`p${Math.round(p * 100)}`, percentile(durations, p)]),
+      ['max', durations[durations.length - 1] ?? NaN]
+    ]),
+    targetDurationMs: engineConfig.targetDurationMs,
+    suddenDeaths,
+    entrantTest,
+    startTest,
+    verdict
+  };
+
+  printReport(report);
+  if (options.json) {
+    await writeFile(options.json, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${options.json}`);
+  }
+  // Too few rounds to tell is not a pass either
+  if (verdict !== 'fair') process.exit(verdict === 'unfair' ? 1 : 3);
+};
+
+main().catch(err => {
+  console.error(`fairness: ${err instanceof Error ? err.message : err}`);
+  process.exit(2);
+});
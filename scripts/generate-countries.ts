@@ -0,0 +1,43 @@
+import { writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import countries from 'world-countries';
+
+// Regenerates data/isoCountries.ts from the world-countries package:
+//   npm run generate:countries
+
+const OUTPUT = fileURLToPath(new URL('../data/isoCountries.ts', import.meta.url));
+
+// world-countries groups the Americas together; split them into continents
+const continentOf = (region: string, subregion: string) => {
+  if (region === 'Americas') return subregion === 'South America' ? 'South America' : 'North America';
+  if (region === 'Antarctic') return 'Antarctica';
+  return region;
+};
+
+const rows = countries
+  .map(c => ({
+    code: c.cca2.toLowerCase(),
+    name: c.name.common,
+    continent: continentOf(c.region, c.subregion),
+    subregion: c.subregion || continentOf(c.region, c.subregion)
+  }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const quote = (s: string) => `'${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const source = `// Generated by scripts/generate-countries.ts from the world-countries package. Do not edit.
+
+export interface CountryInfo {
+  code: string;      // ISO 3166-1 alpha-2, lower case
+  name: string;
+  continent: string;
+  subregion: string;
+}
+
+export const ISO_COUNTRIES: CountryInfo[] = [
+${rows.map(r => `  { code: ${quote(r.code)}, name: ${quote(r.name)}, continent: ${quote(r.continent)}, subregion: ${quote(r.subregion)} }`).join(',\n')}
+];
+`;
+
+await writeFile(OUTPUT, source);
+console.log(`Wrote ${rows.length} countries to ${OUTPUT}`);
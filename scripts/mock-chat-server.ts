@@ -0,0 +1,120 @@
+import { createInterface } from 'node:readline';
+import { WebSocketServer, WebSocket } from 'ws';
+import { countriesList } from '../data/countries';
+
+// Local stand-in for a streaming platform's chat. Bot viewers post picks and
+// chatter, anything typed on stdin is sent as chat, and messages from any
+// connected client are relayed to the others. Point the show at it with
+// ?chat=ws://localhost:8787
+//
+//   npm run mock:chat
+//   npm run mock:chat -- --bots 50 --irc
+
+const USAGE = `Usage: npm run mock:chat -- [options]
+
+  --port <n>         Port to listen on (default 8787)
+  --bots <n>         Simulated viewers (default 20, 0 = none)
+  --interval <ms>    Average gap between bot messages (default 400)
+  --ids <a,b,...>    Entrant ids bots pick from (default: the classic roster)
+  --irc              Send IRC PRIVMSG lines instead of JSON
+
+Type "name: message" (or just a message) to chat as someone yourself.`;
+
+const CHATTER = ['gg', 'lets gooo', 'so close', 'no way', 'again!', 'that gap though', 'lol', 'unlucky'];
+
+interface ServerOptions {
+  port: number;
+  bots: number;
+  interval: number;
+  ids: string[];
+  irc: boolean;
+}
+
+const fail = (message: string): never => {
+  console.error(`mock-chat: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): ServerOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg === '--irc') {
+      args.set('irc', '1');
+      continue;
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) fail(`unexpected argument "${arg}"`);
+    args.set(arg.slice(2), argv[++i]);
+  }
+
+  const number = (key: string, fallback: number) => {
+    if (!args.has(key)) return fallback;
+    const value = Number(args.get(key));
+    if (!Number.isInteger(value) || value < 0) fail(`--${key} must be a whole number`);
+    return value;
+  };
+
+  const ids = args.get('ids')?.split(',').map(id => id.trim()).filter(Boolean) ?? countriesList.map(c => c.id);
+  if (ids.length === 0) fail('--ids needs at least one id');
+
+  return {
+    port: number('port', 8787),
+    bots: number('bots', 20),
+    interval: Math.max(1, number('interval', 400)),
+    ids,
+    irc: args.has('irc')
+  };
+};
+
+const options = parseArgs(process.argv.slice(2));
+const server = new WebSocketServer({ port: options.port });
+
+const frame = (user: string, text: string) =>
+  options.irc ? `:${user}!${user}@mock PRIVMSG #show :${text}` : JSON.stringify({ user, text });
+
+const broadcast = (user: string, text: string, except?: WebSocket) => {
+  const data = frame(user, text);
+  server.clients.forEach(client => {
+    if (client !== except && client.readyState === WebSocket.OPEN) client.send(data);
+  });
+};
+
+server.on('connection', socket => {
+  console.log(`mock-chat: client connected (${server.clients.size} total)`);
+  // Relay as-is so a second client (e.g. wscat) can chat into the show
+  socket.on('message', data => {
+    server.clients.forEach(client => {
+      if (client !== socket && client.readyState === WebSocket.OPEN) client.send(data.toString());
+    });
+  });
+  socket.on('close', () => console.log(`mock-chat: client disconnected (${server.clients.size} total)`));
+});
+
+server.on('listening', () => {
+  console.log(`mock-chat: listening on ws://localhost:${options.port} with ${options.bots} bot viewer(s)`);
+});
+
+server.on('error', err => {
+  console.error(`mock-chat: ${err.message}`);
+  process.exit(1);
+});
+
+// Bots mostly pick, sometimes change their mind, sometimes just chat
+const pickOne = <T,>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+const botMessage = () => {
+  const user = `viewer${Math.floor(Math.random() * options.bots) + 1}`;
+  const text = Math.random() < 0.7 ? `!pick ${pickOne(options.ids)}` : pickOne(CHATTER);
+  broadcast(user, text);
+  setTimeout(botMessage, Math.random() * options.interval * 2);
+};
+if (options.bots > 0) botMessage();
+
+createInterface({ input: process.stdin }).on('line', line => {
+  const match = /^([\w-]+):\s*(.+)$/.exec(line.trim());
+  if (match) broadcast(match[1], match[2]);
+  else if (line.trim()) broadcast('host', line.trim());
+});
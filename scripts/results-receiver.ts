@@ -0,0 +1,153 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { appendFile } from 'node:fs/promises';
+import type { RoundSummary } from '../services/resultsApi';
+
+// Local endpoint for the results webhook. Prints each round summary the show
+// POSTs, optionally appends it to a JSON Lines file, and can fail on purpose
+// to exercise the show's retry and offline queue. Point the show at it with
+// ?webhook=http://localhost:8788/results
+//
+//   npm run receive:results
+//   npm run receive:results -- --out results.jsonl --fail 0.5
+
+const USAGE = `Usage: npm run receive:results -- [options]
+
+  --port <n>     Port to listen on (default 8788)
+  --out <file>   Append every new summary to this file, one JSON object per line
+  --fail <p>     Answer this fraction of requests with 503, e.g. 0.5 (default 0)`;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const PODIUM = 3;
+
+interface ReceiverOptions {
+  port: number;
+  out: string | null;
+  fail: number;
+}
+
+const fail = (message: string): never => {
+  console.error(`results-receiver: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): ReceiverOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) fail(`unexpected argument "${arg}"`);
+    args.set(arg.slice(2), argv[++i]);
+  }
+
+  const port = Number(args.get('port') ?? 8788);
+  if (!Number.isInteger(port) || port <= 0) fail('--port must be a whole number');
+  const failRate = Number(args.get('fail') ?? 0);
+  if (!Number.isFinite(failRate) || failRate < 0 || failRate > 1) fail('--fail must be between 0 and 1');
+
+  return { port, out: args.get('out') ?? null, fail: failRate };
+};
+
+const options = parseArgs(process.argv.slice(2));
+const seen = new Set<string>(); // Deliveries are at least once; a retry may repeat a round
+
+// The show runs on another origin, so the browser asks first
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const reply = (res: ServerResponse, status: number, body: object) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const isSummary = (value: unknown): value is RoundSummary => {
+  const summary = value as RoundSummary;
+  return !!summary && typeof summary.roundId === 'string' && Array.isArray(summary.placements) && !!summary.winner;
+};
+
+const describe = (summary: RoundSummary) => {
+  const podium = summary.placements
+    .slice(0, PODIUM)
+    .map(p => `${p.place}. ${p.name}`)
+    .join('  ');
+  const heat = summary.heat ? ` [${summary.heat}]` : '';
+  return `round ${summary.roundId}${heat}: ${summary.winner.name} won in ${(summary.durationMs / 1000).toFixed(1)}s ` +
+    `(${summary.placements.length} entrants, seed ${summary.seed})\n  ${podium}`;
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    reply(res, 405, { error: 'POST a round summary' });
+    return;
+  }
+  if (Math.random() < options.fail) {
+    console.log('results-receiver: failing this request on purpose (--fail)');
+    reply(res, 503, { error: 'simulated failure' });
+    return;
+  }
+
+  let summary: unknown;
+  try {
+    summary = JSON.parse(await readBody(req));
+  } catch (err) {
+    reply(res, 400, { error: `unreadable body: ${err instanceof Error ? err.message : err}` });
+    return;
+  }
+  if (!isSummary(summary)) {
+    reply(res, 400, { error: 'not a round summary' });
+    return;
+  }
+
+  if (seen.has(summary.roundId)) {
+    console.log(`results-receiver: round ${summary.roundId} again (a retry), ignored`);
+  } else {
+    seen.add(summary.roundId);
+    console.log(`results-receiver: ${describe(summary)}`);
+    if (options.out) await appendFile(options.out, `${JSON.stringify(summary)}\n`);
+  }
+  reply(res, 200, { ok: true });
+};
+
+const server = createServer((req, res) => {
+  handle(req, res).catch(err => {
+    console.error(`results-receiver: ${err instanceof Error ? err.message : err}`);
+    if (!res.headersSent) reply(res, 500, { error: 'receiver failed' });
+  });
+});
+
+server.on('error', err => {
+  console.error(`results-receiver: ${err.message}`);
+  process.exit(1);
+});
+
+server.listen(options.port, () => {
+  const extras = [options.out && `appending to ${options.out}`, options.fail > 0 && `failing ${options.fail * 100}% of requests`].filter(Boolean);
+  console.log(`results-receiver: listening on http://localhost:${options.port}${extras.length ? ` (${extras.join(', ')})` : ''}`);
+});
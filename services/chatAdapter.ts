@@ -0,0 +1,90 @@
+// Chat input from whatever platform the show streams to. The game only sees
+// ChatMessages; an adapter turns a platform's stream into them. Ships with a
+// WebSocket adapter that understands JSON and IRC-style lines, which is what
+// scripts/mock-chat-server.ts speaks.
+
+export interface ChatMessage {
+  user: string; // Display name, also the key for viewer points
+  text: string;
+  at: number;   // Epoch ms when received
+}
+
+export type ChatStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface ChatAdapter {
+  // Start delivering messages; the returned function disconnects
+  connect: (onMessage: (message: ChatMessage) => void, onStatus: (status: ChatStatus) => void) => () => void;
+}
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// `:nick!user@host PRIVMSG #channel :text`, optionally with IRCv3 tags first
+const IRC_PRIVMSG = /^(?:@\S+ )?:([^!\s]+)(?:!\S*)? PRIVMSG \S+ :(.*)$/;
+
+// One frame from the socket: `{"user": "...", "text": "..."}` or an IRC line
+export const parseChatLine = (line: string): ChatMessage | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed.user === 'string' && typeof parsed.text === 'string') {
+        return { user: parsed.user, text: parsed.text, at: Date.now() };
+      }
+    } catch {
+      // Not JSON after all
+    }
+    return null;
+  }
+
+  const irc = IRC_PRIVMSG.exec(trimmed);
+  return irc ? { user: irc[1], text: irc[2], at: Date.now() } : null;
+};
+
+// Reconnects with exponential backoff until disconnected
+export const createWebSocketChat = (url: string): ChatAdapter => ({
+  connect: (onMessage, onStatus) => {
+    let socket: WebSocket | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+    let delay = RECONNECT_MIN_MS;
+    let closed = false;
+
+    const open = () => {
+      onStatus('connecting');
+      try {
+        socket = new WebSocket(url);
+      } catch (err) {
+        console.warn(`Chat: cannot connect to ${url}`, err);
+        onStatus('disconnected');
+        return;
+      }
+      socket.onopen = () => {
+        delay = RECONNECT_MIN_MS;
+        onStatus('connected');
+      };
+      socket.onmessage = event => {
+        if (typeof event.data !== 'string') return;
+        // A frame may carry several IRC lines
+        event.data.split(/\r?\n/).forEach(line => {
+          const message = parseChatLine(line);
+          if (message) onMessage(message);
+        });
+      };
+      socket.onclose = () => {
+        onStatus('disconnected');
+        if (closed) return;
+        retryTimeout = setTimeout(open, delay);
+        delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    open();
+    return () => {
+      closed = true;
+      if (retryTimeout) clearTimeout(retryTimeout);
+      socket?.close();
+    };
+  }
+});
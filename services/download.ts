@@ -0,0 +1,14 @@
+// Browser file helpers shared by the export/import actions
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Date stamp for export filenames, e.g. 2024-05-01-1830
+export const fileStamp = (date = new Date()) =>
+  date.toISOString().slice(0, 16).replace('T', '-').replace(':', '');
@@ -0,0 +1,94 @@
+import { Entrant } from '../types';
+import { CanvasAssets } from '../renderer/canvasRenderer';
+
+// Entrant artwork. Every ISO 3166-1 flag ships with the app as an SVG (from
+// the flag-icons package), so countries never depend on the network; custom
+// entrants bring their own image URL or data URI. The DOM renderer uses the
+// images directly at any size; the canvas renderer draws small pre-rasterized
+// sprites and keeps the full image for the enlarged winner.
+
+const FLAG_URLS: Record<string, string> = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>('/node_modules/flag-icons/flags/4x3/*.svg', { eager: true, query: '?url', import: 'default' })
+  ).map(([path, url]) => [path.slice(path.lastIndexOf('/') + 1, -'.svg'.length), url])
+);
+
+// 4x the 28x20 arena card, enough for the breathing scale on high-DPI screens
+const SPRITE_WIDTH = 112;
+const SPRITE_HEIGHT = 80;
+const LOAD_TIMEOUT_MS = 8000; // A stalled image must not hold the round back
+
+const sprites = new Map<string, HTMLCanvasElement>();
+const vectors = new Map<string, HTMLImageElement>();
+const pending = new Map<string, Promise<void>>();
+
+export const flagCanvasAssets: CanvasAssets = { flags: sprites, hiRes: vectors };
+
+export const flagUrl = (code: string): string | undefined => FLAG_URLS[code.toLowerCase()];
+
+// The entrant's own image, else its country's bundled flag
+export const entrantImageUrl = ({ image, country }: Pick<Entrant, 'image' | 'country'>) =>
+  image || (country ? flagUrl(country) : undefined);
+
+// Draw the image into a card-shaped sprite, cropped like object-fit: cover
+const rasterize = (img: HTMLImageElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SPRITE_WIDTH;
+  canvas.height = SPRITE_HEIGHT;
+  const scale = Math.max(SPRITE_WIDTH / img.naturalWidth, SPRITE_HEIGHT / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  canvas.getContext('2d')?.drawImage(img, (SPRITE_WIDTH - w) / 2, (SPRITE_HEIGHT - h) / 2, w, h);
+  return canvas;
+};
+
+// Resolves true once the image is in, false if it failed or took longer than
+// LOAD_TIMEOUT_MS; either way the round can start
+const loadImage = (id: string, url: string) =>
+  new Promise<boolean>(resolve => {
+    const img = new Image();
+    const finish = (loaded: boolean) => {
+      clearTimeout(timeout);
+      img.onload = null;
+      img.onerror = null;
+      if (!loaded) {
+        // Falls back to a generated tile
+        vectors.delete(id);
+        sprites.delete(id);
+      }
+      resolve(loaded);
+    };
+    const timeout = setTimeout(() => {
+      console.warn(`Flag image for ${id} timed out; using a generated tile`);
+      img.src = ''; // Stop the stalled request
+      finish(false);
+    }, LOAD_TIMEOUT_MS);
+    img.onload = () => {
+      // Some browsers report 0x0 for SVGs without intrinsic size
+      if (img.naturalWidth > 0 && img.naturalHeight > 0) {
+        vectors.set(id, img);
+        sprites.set(id, rasterize(img));
+      }
+      finish(true);
+    };
+    img.onerror = () => finish(false);
+    img.src = url;
+  });
+
+// Decode every image of a round up front, so the formation never shows
+// half-loaded flags. Never rejects: failures simply fall back to tiles, and
+// are tried again for the next round.
+export const preloadFlags = (entrants: Entrant[]) =>
+  Promise.all(entrants.map(entrant => {
+    const url = entrantImageUrl(entrant);
+    if (!url) return Promise.resolve();
+    const key = `${entrant.id}\n${url}`; // Reload if an entrant's image changes
+    let load = pending.get(key);
+    if (!load) {
+      load = loadImage(entrant.id, url).then(loaded => {
+        if (!loaded) pending.delete(key);
+      });
+      pending.set(key, load);
+    }
+    return load;
+  })).then(() => undefined);
@@ -0,0 +1,449 @@
+import { EngineConfig, DEFAULT_ENGINE_CONFIG } from '../engine/config';
+import { DEFAULT_ROSTER_ID, filterByRegion, findRoster } from './rosters';
+import { DEFAULT_THEME_ID, findTheme } from './themes';
+import { GAME_MODES } from '../engine/modes';
+import { CUSTOM_LAYOUT, LAYOUT_OPTIONS, layoutIssues } from '../engine/layouts';
+import { RENDERERS, RendererId } from '../renderer/arenaRenderer';
+import { TournamentGrouping, TournamentSettings } from './tournament';
+import { BACKGROUNDS, BackgroundId, SLOTS, STAGES, SlotId, StageId } from './overlay';
+import { SoundSettings } from '../audio/soundEngine';
+import { CameraSettings } from '../renderer/camera';
+
+// Runtime show configuration: the engine tunables plus the show-level timings
+// and entrant list. Loaded from URL query parameters, saved as named presets
+// and edited live from the settings panel, so a show can be tuned without a
+// redeploy.
+
+export interface GameConfig extends EngineConfig {
+  restartDelayMs: number; // Champion screen duration before the next round
+  roster: string;         // Roster the entrants are drawn from
+  region: string;         // Continent or subregion filter; empty = whole roster
+  entrants: string[];     // Entrant ids taking part; empty = everyone left after the region filter
+  instantReplay: boolean; // Replay the end of the round before the champion screen
+  instantReplaySeconds: number;
+  renderer: RendererId;   // How the arena is drawn
+  predictions: boolean;   // Viewers pick a winner in chat during the formation
+  predictionWindowMs: number; // Minimum formation length while predictions are on
+  chatUrl: string;        // WebSocket chat feed; empty = no chat
+  webhookUrl: string;     // Round summaries are POSTed here; empty = off
+  embedOrigin: string;    // Parent page origin when embedded; '' = off, '*' = events to any parent, no commands
+  background: BackgroundId; // Scene, or transparent/chroma for compositing
+  stage: StageId;         // Output resolution the page is laid out for
+  leaderboardSlot: SlotId;
+  feedSlot: SlotId;
+  counterSlot: SlotId;    // Remaining counter and predictions
+  bannerSlot: SlotId;
+  tournamentGrouping: TournamentGrouping;
+  tournamentHeatSize: number;
+  tournamentAdvance: number; // Top finishers of each heat that go through
+  soundVolume: number;    // Master volume, 0-1
+  soundTicks: boolean;
+  soundWhoosh: boolean;
+  soundDrone: boolean;
+  soundCountdown: boolean;
+  soundFanfare: boolean;
+  cinematicCamera: boolean; // Slow motion and zoom for the finale
+  slowMotion: number;       // Finale time scale
+  finaleZoom: number;
+  nearMissHighlights: boolean;
+  theme: string;           // Built-in or imported theme id
+}
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  ...DEFAULT_ENGINE_CONFIG,
+  restartDelayMs: 5000,
+  roster: DEFAULT_ROSTER_ID,
+  region: '',
+  entrants: [],
+  instantReplay: true,
+  instantReplaySeconds: 5,
+  renderer: 'dom',
+  predictions: false,
+  predictionWindowMs: 15000,
+  chatUrl: '',
+  webhookUrl: '',
+  embedOrigin: '',
+  background: 'scene',
+  stage: 'fit',
+  leaderboardSlot: 'top-left',
+  feedSlot: 'top-left',
+  counterSlot: 'top-right',
+  bannerSlot: 'center',
+  tournamentGrouping: 'random',
+  tournamentHeatSize: 10,
+  tournamentAdvance: 2,
+  soundVolume: 0.6,
+  soundTicks: true,
+  soundWhoosh: true,
+  soundDrone: true,
+  soundCountdown: true,
+  soundFanfare: true,
+  cinematicCamera: true,
+  slowMotion: 0.4,
+  finaleZoom: 1.6,
+  nearMissHighlights: true,
+  theme: DEFAULT_THEME_ID
+};
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+type NumericKey = { [K in keyof GameConfig]: GameConfig[K] extends number ? K : never }[keyof GameConfig];
+type BooleanKey = { [K in keyof GameConfig]: GameConfig[K] extends boolean ? K : never }[keyof GameConfig];
+type SelectKey = 'mode' | 'layout' | 'renderer' | 'background' | 'stage' | 'leaderboardSlot' | 'feedSlot' | 'counterSlot' | 'bannerSlot' | 'tournamentGrouping';
+
+const SLOT_OPTIONS = SLOTS.map(s => ({ value: s.id, label: s.name }));
+
+export type ConfigField =
+  | { key: NumericKey; kind: 'number'; label: string; group: string; min: number; max: number; step: number; live: boolean }
+  | { key: BooleanKey; kind: 'boolean'; label: string; group: string; live: boolean }
+  | { key: SelectKey; kind: 'select'; label: string; group: string; live: boolean; options: { value: string; label: string }[] };
+
+// Fields exposed to URL parameters and the settings panel. `live` fields take
+// effect in the running round; the rest apply from the next round.
+export const CONFIG_FIELDS: ConfigField[] = [
+  {
+    key: 'mode', kind: 'select', label: 'Game mode', group: 'Mode', live: false,
+    options: Object.values(GAME_MODES).map(m => ({ value: m.id, label: m.name }))
+  },
+  { key: 'layout', kind: 'select', label: 'Obstacles and pickups', group: 'Mode', live: false, options: LAYOUT_OPTIONS },
+  { key: 'gapCount', kind: 'number', label: 'Multi-gap: gaps', group: 'Mode', min: 2, max: 8, step: 1, live: false },
+  { key: 'shrinkDurationMs', kind: 'number', label: 'Shrink: duration (ms)', group: 'Mode', min: 5000, max: 600000, step: 1000, live: true },
+  { key: 'shrinkMinRatio', kind: 'number', label: 'Shrink: min size', group: 'Mode', min: 0.2, max: 1, step: 0.05, live: true },
+  { key: 'maxGapDegrees', kind: 'number', label: 'Shrink: max gap (°)', group: 'Mode', min: 5, max: 270, step: 1, live: true },
+  { key: 'innerRingRatio', kind: 'number', label: 'Nested: inner ring size', group: 'Mode', min: 0.3, max: 0.85, step: 0.05, live: true },
+  { key: 'gapDegrees', kind: 'number', label: 'Gap size (°)', group: 'Ring', min: 5, max: 180, step: 1, live: true },
+  { key: 'gapTolerance', kind: 'number', label: 'Gap tolerance (°)', group: 'Ring', min: 0, max: 20, step: 0.5, live: true },
+  { key: 'gapOpenDelayMs', kind: 'number', label: 'Gap closed after release (ms)', group: 'Ring', min: 0, max: 20000, step: 250, live: false },
+  { key: 'rotationSpeed', kind: 'number', label: 'Ring speed (°/s)', group: 'Ring', min: -360, max: 360, step: 1, live: true },
+  { key: 'baseSpeed', kind: 'number', label: 'Flag speed (units/s)', group: 'Flags', min: 10, max: 600, step: 5, live: false },
+  { key: 'initialRadius', kind: 'number', label: 'Formation radius', group: 'Flags', min: 0, max: 150, step: 1, live: false },
+  { key: 'bounceJitter', kind: 'number', label: 'Bounce jitter', group: 'Flags', min: 0, max: 200, step: 1, live: true },
+  { key: 'flagCollisions', kind: 'boolean', label: 'Flag-to-flag collisions', group: 'Flags', live: true },
+  { key: 'formationDurationMs', kind: 'number', label: 'Formation delay (ms)', group: 'Timing', min: 0, max: 30000, step: 100, live: false },
+  { key: 'restartDelayMs', kind: 'number', label: 'Restart delay (ms)', group: 'Timing', min: 1000, max: 60000, step: 500, live: true },
+  { key: 'targetDurationMs', kind: 'number', label: 'Target round length (simulated ms, 0 = off)', group: 'Pacing', min: 0, max: 600000, step: 5000, live: false },
+  { key: 'pacingMinGapScale', kind: 'number', label: 'Narrowest gap (×)', group: 'Pacing', min: 0.1, max: 1, step: 0.05, live: true },
+  { key: 'pacingMaxGapScale', kind: 'number', label: 'Widest gap (×)', group: 'Pacing', min: 1, max: 6, step: 0.1, live: true },
+  { key: 'pacingMaxSpeedScale', kind: 'number', label: 'Fastest ring (×)', group: 'Pacing', min: 1, max: 4, step: 0.05, live: true },
+  { key: 'suddenDeathGapGrowth', kind: 'number', label: 'Sudden death: gap growth (×/s)', group: 'Pacing', min: 0, max: 2, step: 0.05, live: true },
+  { key: 'instantReplay', kind: 'boolean', label: 'Instant replay', group: 'Replay', live: true },
+  { key: 'instantReplaySeconds', kind: 'number', label: 'Instant replay length (s)', group: 'Replay', min: 1, max: 30, step: 1, live: true },
+  {
+    key: 'renderer', kind: 'select', label: 'Renderer', group: 'Display', live: true,
+    options: RENDERERS.map(r => ({ value: r.id, label: r.name }))
+  },
+  {
+    key: 'background', kind: 'select', label: 'Background', group: 'Overlay', live: true,
+    options: BACKGROUNDS.map(b => ({ value: b.id, label: b.name }))
+  },
+  {
+    key: 'stage', kind: 'select', label: 'Output size', group: 'Overlay', live: true,
+    options: STAGES.map(s => ({ value: s.id, label: s.name }))
+  },
+  { key: 'leaderboardSlot', kind: 'select', label: 'Leaderboard', group: 'Overlay', live: true, options: SLOT_OPTIONS },
+  { key: 'feedSlot', kind: 'select', label: 'Kill feed', group: 'Overlay', live: true, options: SLOT_OPTIONS },
+  { key: 'counterSlot', kind: 'select', label: 'Counter', group: 'Overlay', live: true, options: SLOT_OPTIONS },
+  { key: 'bannerSlot', kind: 'select', label: 'Champion banner', group: 'Overlay', live: true, options: SLOT_OPTIONS },
+  {
+    key: 'tournamentGrouping', kind: 'select', label: 'Heats', group: 'Tournament', live: false,
+    options: [{ value: 'random', label: 'Random' }, { value: 'continent', label: 'By continent' }]
+  },
+  { key: 'tournamentHeatSize', kind: 'number', label: 'Heat size', group: 'Tournament', min: 2, max: 100, step: 1, live: false },
+  { key: 'tournamentAdvance', kind: 'number', label: 'Advance per heat', group: 'Tournament', min: 1, max: 50, step: 1, live: false },
+  { key: 'predictions', kind: 'boolean', label: 'Viewer predictions', group: 'Viewers', live: false },
+  { key: 'predictionWindowMs', kind: 'number', label: 'Prediction window (ms)', group: 'Viewers', min: 2000, max: 120000, step: 1000, live: false },
+  { key: 'soundVolume', kind: 'number', label: 'Volume', group: 'Sound', min: 0, max: 1, step: 0.05, live: true },
+  { key: 'soundTicks', kind: 'boolean', label: 'Bounce ticks', group: 'Sound', live: true },
+  { key: 'soundWhoosh', kind: 'boolean', label: 'Exit whoosh', group: 'Sound', live: true },
+  { key: 'soundDrone', kind: 'boolean', label: 'Tension drone', group: 'Sound', live: true },
+  { key: 'soundCountdown', kind: 'boolean', label: 'Countdown', group: 'Sound', live: true },
+  { key: 'soundFanfare', kind: 'boolean', label: 'Winner fanfare', group: 'Sound', live: true },
+  { key: 'cinematicCamera', kind: 'boolean', label: 'Finale camera', group: 'Camera', live: true },
+  { key: 'slowMotion', kind: 'number', label: 'Finale speed', group: 'Camera', min: 0.1, max: 1, step: 0.05, live: true },
+  { key: 'finaleZoom', kind: 'number', label: 'Finale zoom', group: 'Camera', min: 1, max: 3, step: 0.1, live: true },
+  { key: 'nearMissHighlights', kind: 'boolean', label: 'Near-miss highlights', group: 'Camera', live: true }
+];
+
+export const validateConfig = (config: GameConfig): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  CONFIG_FIELDS.forEach(field => {
+    const value = config[field.key];
+    if (field.kind === 'boolean') {
+      if (typeof value !== 'boolean') issues.push({ key: field.key, message: `${field.label} must be on or off` });
+      return;
+    }
+    if (field.kind === 'select') {
+      if (!field.options.some(o => o.value === value)) {
+        issues.push({ key: field.key, message: `${field.label}: "${value}" is not one of ${field.options.map(o => o.value).join(', ')}` });
+      }
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ key: field.key, message: `${field.label} must be a number` });
+    } else if (value < field.min || value > field.max) {
+      issues.push({ key: field.key, message: `${field.label} must be between ${field.min} and ${field.max}` });
+    }
+  });
+
+  if (config.chatUrl && !/^wss?:\/\//.test(config.chatUrl)) {
+    issues.push({ key: 'chatUrl', message: 'Chat URL must start with ws:// or wss://' });
+  }
+
+  if (config.webhookUrl && !/^https?:\/\//.test(config.webhookUrl)) {
+    issues.push({ key: 'webhookUrl', message: 'Webhook URL must start with http:// or https://' });
+  }
+
+  if (config.embedOrigin !== '' && config.embedOrigin !== '*' && !/^https?:\/\/[^/]+$/.test(config.embedOrigin)) {
+    issues.push({ key: 'embedOrigin', message: 'Embed origin must be blank, * or a scheme and host, e.g. https://example.com' });
+  }
+
+  layoutIssues(config.customLayouts).forEach(message => {
+    issues.push({ key: 'customLayouts', message: `Custom layouts: ${message}` });
+  });
+  if (config.layout === CUSTOM_LAYOUT && Array.isArray(config.customLayouts) && config.customLayouts.length === 0) {
+    issues.push({ key: 'layout', message: 'The custom layout needs at least one layout in layouts=' });
+  }
+
+  if (config.maxGapDegrees < config.gapDegrees) {
+    issues.push({ key: 'maxGapDegrees', message: 'Shrink: max gap must be at least the gap size' });
+  }
+
+  if (config.targetDurationMs > 0 && config.targetDurationMs <= roundEngineConfig(config).formationDurationMs) {
+    issues.push({ key: 'targetDurationMs', message: 'Target round length must be longer than the formation' });
+  }
+
+  if (config.tournamentAdvance >= config.tournamentHeatSize) {
+    issues.push({ key: 'tournamentAdvance', message: 'Advance per heat must be less than the heat size' });
+  }
+
+  if (config.initialRadius + config.flagRadius >= config.boundaryRadius) {
+    issues.push({ key: 'initialRadius', message: 'Formation radius puts flags outside the ring' });
+  }
+
+  if (!findTheme(config.theme)) {
+    issues.push({ key: 'theme', message: `No theme called "${config.theme}"` });
+  }
+
+  const roster = findRoster(config.roster);
+  if (!roster) {
+    issues.push({ key: 'roster', message: `No roster called "${config.roster}"` });
+    return issues;
+  }
+  const knownIds = new Set(roster.entrants.map(e => e.id));
+  const unknown = config.entrants.filter(id => !knownIds.has(id));
+  if (unknown.length > 0) {
+    issues.push({ key: 'entrants', message: `Not in ${roster.name}: ${unknown.join(', ')}` });
+  }
+  if (filterByRegion(roster.entrants, config.region).length === 0) {
+    issues.push({ key: 'region', message: `${roster.name} has nobody in "${config.region}"` });
+  } else if (selectEntrants(config).length < 2) {
+    issues.push({ key: 'entrants', message: 'A round needs at least 2 entrants' });
+  }
+
+  return issues;
+};
+
+// The entrants a config actually puts into the arena
+export const selectEntrants = (config: GameConfig) => {
+  const roster = findRoster(config.roster) ?? findRoster(DEFAULT_ROSTER_ID)!;
+  const pool = filterByRegion(roster.entrants, config.region);
+  return config.entrants.length === 0 ? pool : pool.filter(e => config.entrants.includes(e.id));
+};
+
+// Engine config for a new round: predictions hold the formation open long enough to pick
+export const roundEngineConfig = (config: GameConfig): GameConfig =>
+  config.predictions
+    ? { ...config, formationDurationMs: Math.max(config.formationDurationMs, config.predictionWindowMs) }
+    : config;
+
+export const tournamentSettings = (config: GameConfig): TournamentSettings => ({
+  grouping: config.tournamentGrouping,
+  heatSize: config.tournamentHeatSize,
+  advance: config.tournamentAdvance
+});
+
+export const soundSettings = (config: GameConfig): SoundSettings => ({
+  volume: config.soundVolume,
+  enabled: {
+    ticks: config.soundTicks,
+    whoosh: config.soundWhoosh,
+    drone: config.soundDrone,
+    countdown: config.soundCountdown,
+    fanfare: config.soundFanfare
+  }
+});
+
+export const cameraSettings = (config: GameConfig): CameraSettings => ({
+  enabled: config.cinematicCamera,
+  slowMotion: config.slowMotion,
+  zoom: config.finaleZoom,
+  nearMisses: config.nearMissHighlights
+});
+
+// Parse a comma separated list like "us, gb,jp" into ids
+export const parseEntrantList = (text: string) =>
+  text.split(',').map(id => id.trim()).filter(Boolean);
+
+// --- URL PARAMETERS ---
+// e.g. ?gapDegrees=30&rotationSpeed=60&roster=world&region=Europe&entrants=us,gb,jp&chat=ws://localhost:8787&theme=sports&preset=Finals
+// Custom arena layouts go in as JSON: ?layout=custom&layouts=[[{"kind":"bumper","x":0,"y":0,"radius":0.1}]]
+
+export const configFromParams = (
+  params: URLSearchParams,
+  base: GameConfig
+): { config: GameConfig; issues: ConfigIssue[] } => {
+  const config: GameConfig = { ...base };
+  const issues: ConfigIssue[] = [];
+
+  CONFIG_FIELDS.forEach(field => {
+    const raw = params.get(field.key);
+    if (raw === null) return;
+    if (field.kind === 'boolean') {
+      if (raw === '1' || raw === 'true') config[field.key] = true;
+      else if (raw === '0' || raw === 'false') config[field.key] = false;
+      else issues.push({ key: field.key, message: `${field.label}: "${raw}" is not true/false` });
+      return;
+    }
+    if (field.kind === 'select') {
+      (config as Record<SelectKey, string>)[field.key] = raw; // Checked by validateConfig below
+      return;
+    }
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value)) {
+      issues.push({ key: field.key, message: `${field.label}: "${raw}" is not a number` });
+      return;
+    }
+    config[field.key] = value;
+  });
+
+  const roster = params.get('roster');
+  if (roster !== null) config.roster = roster;
+  const region = params.get('region');
+  if (region !== null) config.region = region;
+  const entrants = params.get('entrants');
+  if (entrants !== null) config.entrants = parseEntrantList(entrants);
+  const chat = params.get('chat');
+  if (chat !== null) config.chatUrl = chat;
+  const webhook = params.get('webhook');
+  if (webhook !== null) config.webhookUrl = webhook;
+  const embedOrigin = params.get('embedOrigin');
+  if (embedOrigin !== null) config.embedOrigin = embedOrigin;
+  const theme = params.get('theme');
+  if (theme !== null) config.theme = theme;
+  const layouts = params.get('layouts');
+  if (layouts !== null) {
+    try {
+      config.customLayouts = JSON.parse(layouts); // Shape checked by validateConfig below
+    } catch {
+      issues.push({ key: 'customLayouts', message: 'Custom layouts: layouts= is not valid JSON' });
+    }
+  }
+
+  const resolved = resolveConfig(config, base);
+  return { config: resolved.config, issues: [...issues, ...resolved.issues] };
+};
+
+const showValue = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+// Replaces whatever validateConfig finds wrong with the fallback's value and
+// reports each replacement with the value actually used. Fields that fail on
+// their own go first. A cross-field rule can still be broken after that, e.g.
+// ?gapDegrees=150 against the fallback's max gap, so then each other changed
+// field whose reset clears an issue falls back too.
+export const resolveConfig = (candidate: GameConfig, fallback: GameConfig) => {
+  const config: GameConfig = { ...candidate };
+  const values = config as unknown as Record<string, unknown>;
+  const issues: ConfigIssue[] = [];
+  const reset = (key: keyof GameConfig, reason: string) => {
+    values[key] = fallback[key];
+    issues.push({ key, message: `${reason}; using ${key}=${showValue(fallback[key])}` });
+  };
+
+  validateConfig(config).forEach(issue => {
+    const key = issue.key as keyof GameConfig;
+    if (key in fallback && config[key] !== fallback[key]) reset(key, issue.message);
+  });
+
+  (Object.keys(fallback) as (keyof GameConfig)[]).forEach(key => {
+    const remaining = validateConfig(config);
+    if (remaining.length === 0 || config[key] === fallback[key]) return;
+    const after = validateConfig({ ...config, [key]: fallback[key] });
+    if (after.length >= remaining.length) return;
+    const cleared = remaining.find(r => !after.some(a => a.key === r.key && a.message === r.message)) ?? remaining[0];
+    reset(key, cleared.message);
+  });
+
+  // Anything still wrong is the fallback's own problem; report it as it is
+  return { config, issues: [...issues, ...validateConfig(config)] };
+};
+
+// Query string containing only the values that differ from the defaults
+export const configToParams = (config: GameConfig) => {
+  const params = new URLSearchParams();
+  CONFIG_FIELDS.forEach(field => {
+    const value = config[field.key];
+    if (value !== DEFAULT_GAME_CONFIG[field.key]) params.set(field.key, String(value));
+  });
+  if (config.roster !== DEFAULT_GAME_CONFIG.roster) params.set('roster', config.roster);
+  if (config.region) params.set('region', config.region);
+  if (config.entrants.length > 0) params.set('entrants', config.entrants.join(','));
+  if (config.chatUrl) params.set('chat', config.chatUrl);
+  if (config.webhookUrl) params.set('webhook', config.webhookUrl);
+  if (config.embedOrigin !== DEFAULT_GAME_CONFIG.embedOrigin) params.set('embedOrigin', config.embedOrigin);
+  if (config.theme !== DEFAULT_GAME_CONFIG.theme) params.set('theme', config.theme);
+  if (config.customLayouts.length > 0) params.set('layouts', JSON.stringify(config.customLayouts));
+  return params;
+};
+
+// --- PRESETS ---
+
+const PRESETS_KEY = 'nexus.presets.v1';
+
+export const loadPresets = (): Record<string, GameConfig> => {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const stored: Record<string, Partial<GameConfig>> = raw ? JSON.parse(raw) : {};
+    // Fill in fields added since the preset was saved
+    return Object.fromEntries(
+      Object.entries(stored).map(([name, preset]) => [name, { ...DEFAULT_GAME_CONFIG, ...preset }])
+    );
+  } catch (err) {
+    console.warn('Discarding unreadable presets', err);
+    return {};
+  }
+};
+
+export const savePresets = (presets: Record<string, GameConfig>) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('Could not save presets', err);
+  }
+};
+
+// Config for this page load: defaults, then ?preset=, then individual parameters
+export const loadInitialConfig = (search = window.location.search) => {
+  const params = new URLSearchParams(search);
+  const issues: ConfigIssue[] = [];
+  let base = DEFAULT_GAME_CONFIG;
+
+  const presetName = params.get('preset');
+  if (presetName !== null) {
+    const preset = loadPresets()[presetName];
+    if (preset) {
+      // Presets saved by older builds, or edited by hand, get the same checks as the URL
+      const checked = resolveConfig(preset, DEFAULT_GAME_CONFIG);
+      base = checked.config;
+      issues.push(...checked.issues.map(issue => ({ ...issue, message: `Preset "${presetName}": ${issue.message}` })));
+    } else {
+      issues.push({ key: 'preset', message: `No saved preset called "${presetName}"` });
+    }
+  }
+
+  const parsed = configFromParams(params, base);
+  return { config: parsed.config, issues: [...issues, ...parsed.issues] };
+};
@@ -0,0 +1,83 @@
+// Host controls for the show window: keyboard shortcuts on the window itself,
+// and a BroadcastChannel that lets remote.html drive it from another window
+// (a second monitor, or a tablet pointed at the same origin) without anyone
+// clicking on the captured page.
+
+import { LifecycleState } from './lifecycle';
+
+export type HostCommand =
+  | 'togglePause'
+  | 'restart'           // Start the round again with a new seed
+  | 'skip'              // Straight on to whatever comes next
+  | 'finale'            // Send out all but the last few flags
+  | 'toggleLeaderboard'
+  | 'toggleAutoRestart';
+
+export const HOST_COMMANDS: { command: HostCommand; label: string; key: string }[] = [
+  { command: 'togglePause', label: 'Pause / resume', key: 'p' },
+  { command: 'restart', label: 'Restart round', key: 'n' },
+  { command: 'skip', label: 'Skip to next', key: 's' },
+  { command: 'finale', label: 'Force finale', key: 'f' },
+  { command: 'toggleLeaderboard', label: 'Leaderboard', key: 'l' },
+  { command: 'toggleAutoRestart', label: 'Auto-restart', key: 'a' }
+];
+
+export const commandForKey = (key: string) =>
+  HOST_COMMANDS.find(c => c.key === key.toLowerCase())?.command ?? null;
+
+// What the remote shows; published by the show window whenever it changes
+export interface ShowState {
+  phase: LifecycleState; // Never 'paused'; that is `paused` below
+  paused: boolean;
+  autoRestart: boolean;
+  leaderboardVisible: boolean;
+  remaining: number;
+  total: number;
+  heat: string | null;                         // Tournament heat being run
+  winner: { id: string; name: string } | null; // This round's, once decided
+  leader: { id: string; name: string; wins: number } | null; // Top of the season standings
+  theme: string;                               // Theme id, so the remote can match the show
+}
+
+const CHANNEL_NAME = 'nexus.host.v1';
+
+type HostMessage =
+  | { type: 'command'; command: HostCommand }
+  | { type: 'state'; state: ShowState }
+  | { type: 'hello' }; // A remote opened and wants the current state
+
+const openChannel = (onMessage: (message: HostMessage) => void) => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = event => onMessage(event.data as HostMessage);
+  return channel;
+};
+
+// Show window side. Commands arrive through `onCommand`; `publish` sends the
+// latest state, which is also repeated to any remote that opens later.
+export const connectShow = (onCommand: (command: HostCommand) => void) => {
+  let latest: ShowState | null = null;
+  const channel = openChannel(message => {
+    if (message.type === 'command') onCommand(message.command);
+    if (message.type === 'hello' && latest) channel?.postMessage({ type: 'state', state: latest });
+  });
+  return {
+    publish: (state: ShowState) => {
+      latest = state;
+      channel?.postMessage({ type: 'state', state });
+    },
+    close: () => channel?.close()
+  };
+};
+
+// Remote side
+export const connectRemote = (onState: (state: ShowState) => void) => {
+  const channel = openChannel(message => {
+    if (message.type === 'state') onState(message.state);
+  });
+  channel?.postMessage({ type: 'hello' });
+  return {
+    send: (command: HostCommand) => channel?.postMessage({ type: 'command', command }),
+    close: () => channel?.close()
+  };
+};
@@ -0,0 +1,264 @@
+// Persistent leaderboard. Every finished round is appended to the current
+// season and folded into per-entrant career stats, all kept in localStorage so
+// a long stream survives reloads. Only the latest rounds are kept in full;
+// the stats cover them all. Resetting a season archives it instead of
+// deleting it.
+
+import { csvCell, parseCsvRows } from '../utils/csv';
+
+const STORAGE_KEY = 'nexus.leaderboard.v1';
+const LEADERBOARD_VERSION = 1;
+const PODIUM_SIZE = 3;
+const MAX_STORED_ROUNDS = 500; // Per season, so a 24/7 stream stays within the storage quota
+
+export interface RoundRecord {
+  id: string;
+  finishedAt: number;   // epoch ms
+  seed: number;
+  placements: string[]; // Entrant ids, winner first
+}
+
+export interface EntrantStats {
+  id: string;
+  name: string;
+  rounds: number;
+  wins: number;
+  podiums: number;
+  positionTotal: number; // Sum of finishing positions, for the average
+  currentStreak: number;
+  longestStreak: number;
+  lastWinAt: number | null;
+}
+
+export interface Season {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number | null;
+  rounds: RoundRecord[];  // The latest MAX_STORED_ROUNDS, oldest first
+  roundCount: number;     // Every round played, including ones dropped from `rounds`
+  stats: Record<string, EntrantStats>; // By entrant id
+  lastWinner: string | null;
+}
+
+export interface LeaderboardData {
+  version: typeof LEADERBOARD_VERSION;
+  current: Season;
+  archive: Season[];
+}
+
+export interface Standing extends EntrantStats {
+  averagePosition: number;
+}
+
+const createSeason = (now: number, index: number): Season => ({
+  id: `season-${now}`,
+  name: `Season ${index}`,
+  startedAt: now,
+  endedAt: null,
+  rounds: [],
+  roundCount: 0,
+  stats: {},
+  lastWinner: null
+});
+
+export const createLeaderboard = (now = Date.now()): LeaderboardData => ({
+  version: LEADERBOARD_VERSION,
+  current: createSeason(now, 1),
+  archive: []
+});
+
+const emptyStats = (id: string, name: string): EntrantStats => ({
+  id,
+  name,
+  rounds: 0,
+  wins: 0,
+  podiums: 0,
+  positionTotal: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  lastWinAt: null
+});
+
+// Fold one finished round into the current season
+export const recordRound = (
+  data: LeaderboardData,
+  round: RoundRecord,
+  names: Record<string, string>
+): LeaderboardData => {
+  const season = data.current;
+  const stats = { ...season.stats };
+  const winner = round.placements[0] ?? null;
+
+  round.placements.forEach((id, i) => {
+    const prev = stats[id] ?? emptyStats(id, names[id] ?? id);
+    const position = i + 1;
+    const won = position === 1;
+    const streak = won ? (season.lastWinner === id ? prev.currentStreak + 1 : 1) : 0;
+
+    stats[id] = {
+      ...prev,
+      name: names[id] ?? prev.name,
+      rounds: prev.rounds + 1,
+      wins: prev.wins + (won ? 1 : 0),
+      podiums: prev.podiums + (position <= PODIUM_SIZE ? 1 : 0),
+      positionTotal: prev.positionTotal + position,
+      currentStreak: streak,
+      longestStreak: Math.max(prev.longestStreak, streak),
+      lastWinAt: won ? round.finishedAt : prev.lastWinAt
+    };
+  });
+
+  return {
+    ...data,
+    current: {
+      ...season,
+      rounds: [...season.rounds, round].slice(-MAX_STORED_ROUNDS),
+      roundCount: season.roundCount + 1,
+      stats,
+      lastWinner: winner
+    }
+  };
+};
+
+// Archive the current season and start a fresh one
+export const resetSeason = (data: LeaderboardData, now = Date.now()): LeaderboardData => ({
+  ...data,
+  current: createSeason(now, data.archive.length + 2),
+  archive: [...data.archive, { ...data.current, endedAt: now }]
+});
+
+// Sorted by wins, then podiums, then best average finish
+export const computeStandings = (season: Season): Standing[] =>
+  Object.values(season.stats)
+    .map(s => ({ ...s, averagePosition: s.rounds > 0 ? s.positionTotal / s.rounds : 0 }))
+    .sort((a, b) =>
+      b.wins - a.wins ||
+      b.podiums - a.podiums ||
+      a.averagePosition - b.averagePosition ||
+      a.name.localeCompare(b.name)
+    );
+
+// --- PERSISTENCE ---
+
+export const loadLeaderboard = (): LeaderboardData => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseLeaderboardJson(raw) : createLeaderboard();
+  } catch (err) {
+    console.warn('Discarding unreadable leaderboard data', err);
+    return createLeaderboard();
+  }
+};
+
+export const saveLeaderboard = (data: LeaderboardData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (err) {
+    console.warn('Could not save leaderboard', err);
+  }
+};
+
+// --- IMPORT / EXPORT ---
+
+export const leaderboardToJson = (data: LeaderboardData) => JSON.stringify(data, null, 2);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const STAT_COUNTS = ['rounds', 'wins', 'podiums', 'positionTotal', 'currentStreak', 'longestStreak'] as const;
+
+const isRound = (value: unknown): value is RoundRecord => {
+  const round = value as RoundRecord;
+  return !!round && isString(round.id) && isNumber(round.finishedAt) && isNumber(round.seed) &&
+    Array.isArray(round.placements) && round.placements.every(isString);
+};
+
+const isStats = (value: unknown): value is EntrantStats => {
+  const stats = value as EntrantStats;
+  return !!stats && isString(stats.id) && isString(stats.name) && STAT_COUNTS.every(key => isNumber(stats[key])) &&
+    (stats.lastWinAt === null || isNumber(stats.lastWinAt));
+};
+
+// What is wrong with an imported season, if anything. Standings are computed
+// straight from these fields, so a bad one would break the leaderboard view.
+const seasonIssue = (value: unknown): string | null => {
+  const season = value as Season;
+  if (!season || typeof season !== 'object') return 'is not an object';
+  if (!isString(season.id) || !isString(season.name)) return 'needs an id and a name';
+  if (!isNumber(season.startedAt) || (season.endedAt !== null && !isNumber(season.endedAt))) return 'has invalid dates';
+  if (!isNumber(season.roundCount)) return 'has no round count';
+  if (season.lastWinner !== null && !isString(season.lastWinner)) return 'has an invalid last winner';
+  if (!Array.isArray(season.rounds)) return 'has no rounds list';
+  const badRound = season.rounds.findIndex(round => !isRound(round));
+  if (badRound >= 0) return `has an invalid round ${badRound + 1}`;
+  if (!season.stats || typeof season.stats !== 'object') return 'has no stats';
+  const badStats = Object.keys(season.stats).find(id => !isStats(season.stats[id]));
+  return badStats !== undefined ? `has invalid stats for "${badStats}"` : null;
+};
+
+export const parseLeaderboardJson = (text: string): LeaderboardData => {
+  const parsed = JSON.parse(text);
+  if (!parsed || parsed.version !== LEADERBOARD_VERSION || !parsed.current || !Array.isArray(parsed.archive)) {
+    throw new Error(`Not a leaderboard export (expected version ${LEADERBOARD_VERSION} with current and archive seasons)`);
+  }
+  const check = (season: unknown, label: string) => {
+    const issue = seasonIssue(season);
+    if (issue) throw new Error(`${label} ${issue}`);
+  };
+  check(parsed.current, 'The current season');
+  parsed.archive.forEach((season: unknown, i: number) => check(season, `Archived season ${i + 1}`));
+  return parsed as LeaderboardData;
+};
+
+const CSV_HEADER = ['id', 'name', 'rounds', 'wins', 'podiums', 'average_position', 'longest_streak', 'last_win_at'];
+
+export const standingsToCsv = (season: Season) => {
+  const rows = computeStandings(season).map(s => [
+    s.id,
+    s.name,
+    s.rounds,
+    s.wins,
+    s.podiums,
+    s.averagePosition.toFixed(2),
+    s.longestStreak,
+    s.lastWinAt ? new Date(s.lastWinAt).toISOString() : ''
+  ]);
+  return [CSV_HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+// Standings CSV (as produced by standingsToCsv) becomes the stats of a new
+// current season. The previous current season is archived, not overwritten.
+export const importStandingsCsv = (data: LeaderboardData, text: string, now = Date.now()): LeaderboardData => {
+  const [header, ...lines] = parseCsvRows(text);
+  const missing = CSV_HEADER.filter(col => !header?.includes(col));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+  const col = (row: string[], name: string) => row[header.indexOf(name)] ?? '';
+
+  const stats: Record<string, EntrantStats> = {};
+  lines.forEach((row, i) => {
+    const id = col(row, 'id');
+    const rounds = Number(col(row, 'rounds'));
+    const average = Number(col(row, 'average_position'));
+    const lastWin = col(row, 'last_win_at');
+    if (!id || !Number.isFinite(rounds) || !Number.isFinite(average)) {
+      throw new Error(`CSV row ${i + 2} is invalid`);
+    }
+    stats[id] = {
+      ...emptyStats(id, col(row, 'name') || id),
+      rounds,
+      wins: Number(col(row, 'wins')) || 0,
+      podiums: Number(col(row, 'podiums')) || 0,
+      positionTotal: average * rounds,
+      longestStreak: Number(col(row, 'longest_streak')) || 0,
+      lastWinAt: lastWin ? Date.parse(lastWin) : null
+    };
+  });
+
+  const archived = resetSeason(data, now);
+  return {
+    ...archived,
+    current: { ...archived.current, name: `${archived.current.name} (imported)`, stats }
+  };
+};
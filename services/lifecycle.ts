@@ -0,0 +1,133 @@
+import { Entrant, EntrantFlag, EliminationEvent } from '../types';
+import { World, SimulationEvent } from '../engine/simulation';
+import { Replay } from '../engine/replay';
+import { HeatRef } from './tournament';
+import { EventBus, createEventBus } from '../utils/eventBus';
+
+// The show's round lifecycle as an explicit state machine. Every change goes
+// through `transition`, which rejects moves the table below does not allow,
+// and every timer belongs to the state that started it, so leaving a state
+// (or unmounting) can never leave a stale restart running. Features follow
+// the round through the typed events instead of reaching into the loop.
+
+export type LifecycleState =
+  | 'idle'         // Nothing loaded yet, or shut down
+  | 'preloading'   // Decoding the next round's flags; the previous screen stays up
+  | 'formation'    // Flags gathered in the centre, predictions open
+  | 'countdown'    // Last seconds of the formation
+  | 'scatter'
+  | 'finale'       // Down to the last few flags
+  | 'celebration'  // Instant replay, then the champion screen
+  | 'intermission' // Bracket between tournament heats
+  | 'paused';      // Host pause; resumes into the state it interrupted
+
+const TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+  idle: ['preloading'],
+  preloading: ['preloading', 'formation', 'paused'],
+  formation: ['countdown', 'scatter', 'preloading', 'paused'],
+  countdown: ['formation', 'scatter', 'preloading', 'paused'], // Back to formation when predictions extend it
+  scatter: ['finale', 'celebration', 'preloading', 'paused'],
+  finale: ['celebration', 'preloading', 'paused'],
+  celebration: ['intermission', 'preloading', 'paused'],
+  intermission: ['preloading', 'paused'],
+  paused: [] // Left through resume; see transition
+};
+
+export interface LifecycleEvents {
+  // While paused only `resumeTo` moves on, with from and to both 'paused'
+  stateChanged: { from: LifecycleState; to: LifecycleState; resumeTo: LifecycleState | null };
+  roundStarted: { world: World; entrants: Entrant[]; heat: HeatRef | null };
+  worldAdvanced: { world: World; events: SimulationEvent[]; since: number }; // Each frame the round moves on
+  flagEliminated: { elimination: EliminationEvent; remaining: number };
+  winnerDecided: { world: World; winner: EntrantFlag; placements: string[]; replay: Replay | null };
+}
+
+export interface Lifecycle {
+  state: () => LifecycleState;
+  activeState: () => LifecycleState; // What the show is doing, looking through a pause
+  round: () => number;               // Bumped on each preload, to drop superseded ones
+  events: EventBus<LifecycleEvents>;
+  transition: (to: LifecycleState) => boolean;
+  pause: () => boolean;
+  resume: () => boolean;
+  after: (ms: number, fn: () => void) => void; // Timer cancelled when the state changes
+  cancelTimers: () => void;
+  dispose: () => void;
+}
+
+export const canTransition = (from: LifecycleState, to: LifecycleState) => TRANSITIONS[from].includes(to);
+
+export const createLifecycle = (): Lifecycle => {
+  const events = createEventBus<LifecycleEvents>();
+  let state: LifecycleState = 'idle';
+  let pausedFrom: LifecycleState | null = null;
+  let round = 0;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const clearTimers = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+  };
+
+  const enter = (to: LifecycleState) => {
+    const from = state;
+    clearTimers();
+    if (to === 'preloading') round++;
+    state = to;
+    events.emit('stateChanged', { from, to, resumeTo: pausedFrom });
+  };
+
+  const transition = (to: LifecycleState) => {
+    // While paused the show still moves on underneath (a restart, a skip, a
+    // preload finishing); it is the state the pause resumes into that changes
+    if (state === 'paused' && pausedFrom) {
+      if (!canTransition(pausedFrom, to) || to === 'paused') return false;
+      if (to === 'preloading') round++;
+      pausedFrom = to;
+      events.emit('stateChanged', { from: 'paused', to: 'paused', resumeTo: to });
+      return true;
+    }
+    if (!canTransition(state, to)) {
+      console.warn(`Ignoring lifecycle transition ${state} -> ${to}`);
+      return false;
+    }
+    enter(to);
+    return true;
+  };
+
+  return {
+    state: () => state,
+    activeState: () => pausedFrom ?? state,
+    round: () => round,
+    events,
+    transition,
+    pause: () => {
+      if (!canTransition(state, 'paused')) return false;
+      pausedFrom = state;
+      enter('paused');
+      return true;
+    },
+    resume: () => {
+      if (state !== 'paused' || !pausedFrom) return false;
+      const to = pausedFrom;
+      pausedFrom = null;
+      enter(to);
+      return true;
+    },
+    after: (ms, fn) => {
+      const timer = setTimeout(() => {
+        timers = timers.filter(t => t !== timer);
+        fn();
+      }, ms);
+      timers.push(timer);
+    },
+    cancelTimers: clearTimers,
+    // Back to idle without any events; a preload still in flight is dropped
+    dispose: () => {
+      clearTimers();
+      pausedFrom = null;
+      round++;
+      state = 'idle';
+    }
+  };
+};
@@ -0,0 +1,50 @@
+// Broadcast overlay options: what sits behind the arena, the output size the
+// page is laid out for, and where each panel goes. Used as an OBS browser
+// source, e.g. ?stage=vertical&background=transparent&leaderboardSlot=hidden
+
+export type BackgroundId = 'scene' | 'transparent' | 'green' | 'blue' | 'magenta';
+
+export const BACKGROUNDS: { id: BackgroundId; name: string; color: string | null }[] = [
+  { id: 'scene', name: 'Scene', color: null },
+  { id: 'transparent', name: 'Transparent', color: 'transparent' },
+  { id: 'green', name: 'Chroma green', color: '#00b140' },
+  { id: 'blue', name: 'Chroma blue', color: '#0047bb' },
+  { id: 'magenta', name: 'Chroma magenta', color: '#ff00ff' }
+];
+
+export type StageId = 'fit' | 'landscape' | 'vertical' | 'square';
+
+// `fit` follows the browser window; the rest are fixed output resolutions
+export const STAGES: { id: StageId; name: string; width: number; height: number }[] = [
+  { id: 'fit', name: 'Fit window', width: 0, height: 0 },
+  { id: 'landscape', name: '1920x1080', width: 1920, height: 1080 },
+  { id: 'vertical', name: '1080x1920', width: 1080, height: 1920 },
+  { id: 'square', name: '1080x1080', width: 1080, height: 1080 }
+];
+
+// Output pixels per CSS pixel on a fixed stage. The UI is designed for a
+// desktop viewport, so a 1920x1080 stage is laid out as 960x540 and scaled up.
+export const STAGE_ZOOM = 2;
+
+export type SlotId =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right'
+  | 'hidden';
+
+export const SLOTS: { id: SlotId; name: string }[] = [
+  { id: 'top-left', name: 'Top left' },
+  { id: 'top', name: 'Top' },
+  { id: 'top-right', name: 'Top right' },
+  { id: 'left', name: 'Left' },
+  { id: 'center', name: 'Below ring' },
+  { id: 'right', name: 'Right' },
+  { id: 'bottom-left', name: 'Bottom left' },
+  { id: 'bottom', name: 'Bottom' },
+  { id: 'bottom-right', name: 'Bottom right' },
+  { id: 'hidden', name: 'Hidden' }
+];
+
+export const getStage = (id: StageId) => STAGES.find(s => s.id === id) ?? STAGES[0];
+
+export const getBackground = (id: BackgroundId) => BACKGROUNDS.find(b => b.id === id) ?? BACKGROUNDS[0];
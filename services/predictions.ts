@@ -0,0 +1,142 @@
+// Viewer predictions. While the formation spins, viewers pick an entrant in
+// chat (`!pick jp`); once the round is decided every pick scores by where
+// that entrant finished, and the points build a persistent viewer leaderboard.
+
+import { Entrant } from '../types';
+import { ChatMessage } from './chatAdapter';
+
+const STORAGE_KEY = 'nexus.viewers.v1';
+
+const PICK_COMMANDS = ['!pick', '!predict', '!p'];
+const MIN_PREFIX_LENGTH = 3;
+
+// Points by finishing place of the picked entrant: the winner, then near misses
+export const PLACEMENT_POINTS = [100, 50, 25, 10, 10];
+
+export interface PredictionRound {
+  open: boolean;
+  picks: Record<string, string>; // Viewer key -> entrant id; a later pick replaces an earlier one
+  names: Record<string, string>; // Viewer key -> display name
+}
+
+export interface PredictionResult {
+  user: string;
+  pick: string;  // Entrant id
+  place: number; // Where the pick finished, 1 = won
+  points: number;
+}
+
+export interface ViewerStats {
+  user: string;
+  points: number;
+  predictions: number;
+  correct: number; // Picked the winner
+  lastPoints: number;
+}
+
+export interface ViewerPointsData {
+  version: 1;
+  viewers: Record<string, ViewerStats>; // By lower-cased user name
+}
+
+export const createPredictionRound = (): PredictionRound => ({ open: true, picks: {}, names: {} });
+
+const viewerKey = (user: string) => user.trim().toLowerCase();
+
+// --- PARSING ---
+
+// By id, then full name, then an unambiguous name prefix
+export const resolvePick = (query: string, entrants: Entrant[]): Entrant | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return null;
+  const exact = entrants.find(e => e.id.toLowerCase() === q) ?? entrants.find(e => e.name.toLowerCase() === q);
+  if (exact) return exact;
+  if (q.length < MIN_PREFIX_LENGTH) return null;
+  const matches = entrants.filter(e => e.name.toLowerCase().startsWith(q));
+  return matches.length === 1 ? matches[0] : null;
+};
+
+// The entrant a chat message picks, if it is a pick command
+export const parsePick = (text: string, entrants: Entrant[]): Entrant | null => {
+  const [command, ...rest] = text.trim().split(/\s+/);
+  if (!PICK_COMMANDS.includes(command?.toLowerCase())) return null;
+  return resolvePick(rest.join(' '), entrants);
+};
+
+// Apply a chat message to the open round; returns the round unchanged if it was not a valid pick
+export const applyChatMessage = (round: PredictionRound, message: ChatMessage, entrants: Entrant[]) => {
+  if (!round.open) return round;
+  const pick = parsePick(message.text, entrants);
+  if (!pick) return round;
+  const key = viewerKey(message.user);
+  return {
+    ...round,
+    picks: { ...round.picks, [key]: pick.id },
+    names: { ...round.names, [key]: message.user }
+  };
+};
+
+// Entrant ids with how many viewers picked them, most popular first
+export const tallyPicks = (round: PredictionRound) => {
+  const counts = new Map<string, number>();
+  Object.values(round.picks).forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return [...counts].map(([id, count]) => ({ id, count })).sort((a, b) => b.count - a.count);
+};
+
+// --- SCORING ---
+
+// `placements` is the finishing order, winner first
+export const scorePredictions = (round: PredictionRound, placements: string[]): PredictionResult[] =>
+  Object.entries(round.picks)
+    .map(([key, pick]) => {
+      const place = placements.indexOf(pick) + 1;
+      return { user: round.names[key] ?? key, pick, place, points: PLACEMENT_POINTS[place - 1] ?? 0 };
+    })
+    .sort((a, b) => b.points - a.points || a.user.localeCompare(b.user));
+
+export const createViewerPoints = (): ViewerPointsData => ({ version: 1, viewers: {} });
+
+// Fold one round's results into the viewer standings
+export const recordPredictions = (data: ViewerPointsData, results: PredictionResult[]): ViewerPointsData => {
+  const viewers = { ...data.viewers };
+  results.forEach(r => {
+    const key = viewerKey(r.user);
+    const prev = viewers[key] ?? { user: r.user, points: 0, predictions: 0, correct: 0, lastPoints: 0 };
+    viewers[key] = {
+      user: r.user,
+      points: prev.points + r.points,
+      predictions: prev.predictions + 1,
+      correct: prev.correct + (r.place === 1 ? 1 : 0),
+      lastPoints: r.points
+    };
+  });
+  return { ...data, viewers };
+};
+
+export const viewerStandings = (data: ViewerPointsData) =>
+  Object.values(data.viewers).sort((a, b) =>
+    b.points - a.points ||
+    b.correct - a.correct ||
+    a.user.localeCompare(b.user)
+  );
+
+// --- PERSISTENCE ---
+
+export const loadViewerPoints = (): ViewerPointsData => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed?.version === 1 && parsed.viewers ? parsed : createViewerPoints();
+  } catch (err) {
+    console.warn('Discarding unreadable viewer points', err);
+    return createViewerPoints();
+  }
+};
+
+export const saveViewerPoints = (data: ViewerPointsData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (err) {
+    console.warn('Could not save viewer points', err);
+  }
+};
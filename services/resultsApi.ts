@@ -0,0 +1,284 @@
+// Round results for the rest of a production stack: a scoreboard graphic, a
+// chat bot, a spreadsheet. Two channels carry the same RoundSummary:
+// - postMessage to the parent page when the show is embedded in an iframe;
+//   the parent can send commands back (start, pause, resume, restart, skip)
+// - an optional webhook that POSTs each summary, retried with backoff and
+//   queued in localStorage while the endpoint is unreachable
+// scripts/results-receiver.ts is a local endpoint to test the webhook with.
+
+import { World, finishingOrder } from '../engine/simulation';
+import { EngineConfig } from '../engine/config';
+import { Lifecycle, LifecycleState } from './lifecycle';
+import { HeatRef, heatLabel } from './tournament';
+
+export const RESULTS_API_VERSION = 1;
+const MESSAGE_SOURCE = 'nexus'; // Tags our messages among whatever else the page posts
+
+export interface RoundPlacement {
+  place: number;              // 1 = winner
+  id: string;
+  name: string;
+  country: string | null;
+  eliminatedAt: number | null; // Simulated ms; null for the winner
+}
+
+export interface RoundSummary {
+  version: typeof RESULTS_API_VERSION;
+  roundId: string;   // Unique per round; webhook deliveries may repeat, so dedupe on this
+  finishedAt: number; // Epoch ms
+  seed: number;      // Replays the round exactly with the same config
+  durationMs: number; // Simulated, formation included
+  heat: string | null; // Tournament heat, if the round was one
+  winner: { id: string; name: string };
+  placements: RoundPlacement[];
+  config: EngineConfig;
+}
+
+const roundId = (world: World, startedAt: number) => `${startedAt}-${world.seed}`;
+
+export const roundSummary = (world: World, id: string, heat: HeatRef | null, now = Date.now()): RoundSummary => {
+  const byId = new Map(world.flags.map(f => [f.id, f]));
+  const escapedAt = new Map(world.eliminations.map(e => [e.id, e.time]));
+  const placements = finishingOrder(world).map((flagId, i) => {
+    const flag = byId.get(flagId)!;
+    return { place: i + 1, id: flagId, name: flag.name, country: flag.country ?? null, eliminatedAt: escapedAt.get(flagId) ?? null };
+  });
+  return {
+    version: RESULTS_API_VERSION,
+    roundId: id,
+    finishedAt: now,
+    seed: world.seed,
+    durationMs: Math.round(world.time),
+    heat: heat ? heatLabel(heat) : null,
+    winner: { id: placements[0]?.id ?? '', name: placements[0]?.name ?? '' },
+    placements,
+    config: world.config
+  };
+};
+
+// --- EMBED (postMessage) ---
+
+export type EmbedEvent =
+  | { type: 'ready' }
+  | { type: 'stateChanged'; state: LifecycleState; paused: boolean } // `state` looks through a pause
+  | { type: 'roundStarted'; roundId: string; seed: number; entrants: { id: string; name: string }[]; heat: string | null }
+  | { type: 'flagEliminated'; roundId: string; id: string; name: string; place: number; time: number; remaining: number }
+  | { type: 'roundFinished'; summary: RoundSummary };
+
+export type EmbedCommand = 'start' | 'pause' | 'resume' | 'restart' | 'skip';
+
+const EMBED_COMMANDS: EmbedCommand[] = ['start', 'pause', 'resume', 'restart', 'skip'];
+
+// What the parent page may send. `hello` asks for the current state again.
+type EmbedRequest = { type: 'command'; command: EmbedCommand } | { type: 'hello' };
+
+const parseRequest = (data: unknown): EmbedRequest | null => {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as { source?: unknown; type?: unknown; command?: unknown };
+  if (message.source !== MESSAGE_SOURCE) return null;
+  if (message.type === 'hello') return { type: 'hello' };
+  if (message.type === 'command' && EMBED_COMMANDS.includes(message.command as EmbedCommand)) {
+    return { type: 'command', command: message.command as EmbedCommand };
+  }
+  return null;
+};
+
+// The show's side of the bridge. Events go to `origin`; commands are only
+// accepted from the parent window at that exact origin. With '*' any parent
+// gets the events, but none may control the show.
+const connectEmbed = (origin: string, onCommand: (command: EmbedCommand) => void) => {
+  if (!origin || typeof window === 'undefined' || window.parent === window) return null;
+  const parent = window.parent;
+  let lastState: EmbedEvent | null = null;
+
+  const post = (event: EmbedEvent) => {
+    if (event.type === 'stateChanged') lastState = event;
+    try {
+      parent.postMessage({ source: MESSAGE_SOURCE, version: RESULTS_API_VERSION, ...event }, origin);
+    } catch (err) {
+      console.warn('Results API: could not post to the parent page', err);
+    }
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== parent) return;
+    const request = parseRequest(event.data);
+    if (request?.type === 'command' && event.origin === origin) onCommand(request.command);
+    if (request?.type === 'hello') {
+      post({ type: 'ready' });
+      if (lastState) post(lastState);
+    }
+  };
+
+  window.addEventListener('message', onMessage);
+  post({ type: 'ready' });
+  return {
+    post,
+    close: () => window.removeEventListener('message', onMessage)
+  };
+};
+
+// --- WEBHOOK ---
+
+const QUEUE_KEY = 'nexus.webhook.v1';
+const MAX_QUEUED = 200;       // Oldest summaries are dropped past this
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const loadQueue = (): RoundSummary[] => {
+  try {
+    const raw = localStorage.getItem(QUEUE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('Discarding unreadable webhook queue', err);
+    return [];
+  }
+};
+
+const saveQueue = (queue: RoundSummary[]) => {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (err) {
+    console.warn('Could not save webhook queue', err);
+  }
+};
+
+// Client errors other than a timeout or rate limit will not succeed on retry
+const isPermanentFailure = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+// Delivers queued summaries in order, one at a time. The queue outlives the
+// page, so results from a round played while offline are sent on the next load.
+const connectWebhook = (url: string) => {
+  let queue = loadQueue();
+  let sending = false;
+  let closed = false;
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  let delay = RETRY_MIN_MS;
+  const connection = new AbortController(); // Aborted by close(), with any request in flight
+
+  // A closed connection leaves the stored queue to whichever one replaced it
+  const update = (next: RoundSummary[]) => {
+    if (closed) return;
+    queue = next;
+    saveQueue(queue);
+  };
+
+  const scheduleRetry = () => {
+    retryTimeout = setTimeout(() => {
+      retryTimeout = null;
+      flush();
+    }, delay);
+    delay = Math.min(delay * 2, RETRY_MAX_MS);
+  };
+
+  const flush = async () => {
+    if (sending || closed || retryTimeout) return;
+    sending = true;
+    while (queue.length > 0 && !closed) {
+      const summary = queue[0];
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const abort = () => controller.abort();
+      connection.signal.addEventListener('abort', abort);
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(summary),
+          signal: controller.signal
+        });
+        if (!response.ok && !isPermanentFailure(response.status)) throw new Error(`HTTP ${response.status}`);
+        if (!response.ok) console.warn(`Webhook rejected round ${summary.roundId} with HTTP ${response.status}; dropping it`);
+        update(queue.filter(s => s !== summary));
+        delay = RETRY_MIN_MS;
+      } catch (err) {
+        sending = false;
+        if (closed) return;
+        console.warn(`Webhook delivery to ${url} failed; retrying in ${delay / 1000}s`, err);
+        scheduleRetry();
+        return;
+      } finally {
+        clearTimeout(timeout);
+        connection.signal.removeEventListener('abort', abort);
+      }
+    }
+    sending = false;
+  };
+
+  // Back online: try straight away instead of waiting out the backoff
+  const onOnline = () => {
+    if (retryTimeout) clearTimeout(retryTimeout);
+    retryTimeout = null;
+    delay = RETRY_MIN_MS;
+    flush();
+  };
+  window.addEventListener('online', onOnline);
+  flush();
+
+  return {
+    send: (summary: RoundSummary) => {
+      const next = [...queue, summary];
+      if (next.length > MAX_QUEUED) console.warn(`Webhook queue full; dropping ${next.length - MAX_QUEUED} oldest round(s)`);
+      update(next.slice(-MAX_QUEUED));
+      flush();
+    },
+    close: () => {
+      closed = true;
+      connection.abort();
+      if (retryTimeout) clearTimeout(retryTimeout);
+      window.removeEventListener('online', onOnline);
+    }
+  };
+};
+
+// --- WIRING ---
+
+export interface ResultsApiOptions {
+  webhookUrl: string;  // Empty = no webhook
+  embedOrigin: string; // Parent origin to talk to; '' = off, '*' = any, events only
+  onCommand: (command: EmbedCommand) => void;
+}
+
+// Follows the round through the lifecycle and publishes it on every channel
+// that is configured. Returns a function that disconnects everything.
+export const connectResultsApi = (lifecycle: Lifecycle, options: ResultsApiOptions) => {
+  const embed = connectEmbed(options.embedOrigin, options.onCommand);
+  const webhook = options.webhookUrl ? connectWebhook(options.webhookUrl) : null;
+  if (!embed && !webhook) return () => {};
+
+  let current: { id: string; heat: HeatRef | null } | null = null;
+
+  const offs = [
+    lifecycle.events.on('stateChanged', ({ to, resumeTo }) => {
+      embed?.post({ type: 'stateChanged', state: resumeTo ?? to, paused: to === 'paused' });
+    }),
+    lifecycle.events.on('roundStarted', ({ world, entrants, heat }) => {
+      current = { id: roundId(world, Date.now()), heat };
+      embed?.post({
+        type: 'roundStarted',
+        roundId: current.id,
+        seed: world.seed,
+        entrants: entrants.map(({ id, name }) => ({ id, name })),
+        heat: heat ? heatLabel(heat) : null
+      });
+    }),
+    lifecycle.events.on('flagEliminated', ({ elimination: e, remaining }) => {
+      if (!current) return;
+      embed?.post({ type: 'flagEliminated', roundId: current.id, id: e.id, name: e.name, place: e.place, time: e.time, remaining });
+    }),
+    // Connected mid-round (e.g. the webhook URL was just set): still report it
+    lifecycle.events.on('winnerDecided', ({ world }) => {
+      const summary = roundSummary(world, current?.id ?? roundId(world, Date.now()), current?.heat ?? null);
+      embed?.post({ type: 'roundFinished', summary });
+      webhook?.send(summary);
+    })
+  ];
+
+  return () => {
+    offs.forEach(off => off());
+    embed?.close();
+    webhook?.close();
+  };
+};
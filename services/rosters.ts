@@ -0,0 +1,154 @@
+import { Entrant } from '../types';
+import { countriesList, countryEntrant, isCountryCode, worldCountriesList } from '../data/countries';
+import { parseCsvRows } from '../utils/csv';
+
+// Rosters are the pools of entrants a round draws from: the built-in country
+// lists, or custom ones imported from JSON/CSV (viewer names, teams, sponsor
+// logos...) and kept in localStorage so they can be picked per round.
+
+export interface Roster {
+  id: string;
+  name: string;
+  entrants: Entrant[];
+  builtIn: boolean;
+}
+
+const STORAGE_KEY = 'nexus.rosters.v1';
+
+export const DEFAULT_ROSTER_ID = 'classic';
+
+export const BUILT_IN_ROSTERS: Roster[] = [
+  { id: 'classic', name: 'Classic 50', entrants: countriesList, builtIn: true },
+  { id: 'world', name: 'All countries', entrants: worldCountriesList, builtIn: true }
+];
+
+// --- STORAGE ---
+
+export const loadSavedRosters = (): Roster[] => {
+  if (typeof localStorage === 'undefined') return []; // Headless export
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: Roster[] = raw ? JSON.parse(raw) : [];
+    return stored.map(r => ({ ...r, builtIn: false }));
+  } catch (err) {
+    console.warn('Discarding unreadable rosters', err);
+    return [];
+  }
+};
+
+export const saveSavedRosters = (rosters: Roster[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rosters.filter(r => !r.builtIn)));
+  } catch (err) {
+    console.warn('Could not save rosters', err);
+  }
+};
+
+export const allRosters = () => [...BUILT_IN_ROSTERS, ...loadSavedRosters()];
+
+export const findRoster = (id: string) => allRosters().find(r => r.id === id);
+
+// Looks up any known entrant by id, e.g. to show images for leaderboard
+// rows. Custom entrant ids start with their roster's id, so only a roster
+// imported twice under the same name can clash; the earlier one wins.
+export const createEntrantLookup = (rosters = allRosters()) => {
+  const byId = new Map<string, Entrant>();
+  [...rosters].reverse().forEach(r => r.entrants.forEach(e => byId.set(e.id, e)));
+  return (id: string) => byId.get(id) ?? (isCountryCode(id) ? countryEntrant(id) : undefined);
+};
+
+// --- REGIONS ---
+
+// Continents first, then subregions, each alphabetical
+export const regionsOf = (entrants: Entrant[]) => {
+  const continents = new Set<string>();
+  const subregions = new Set<string>();
+  entrants.forEach(e => {
+    if (e.continent) continents.add(e.continent);
+    if (e.subregion && e.subregion !== e.continent) subregions.add(e.subregion);
+  });
+  return { continents: [...continents].sort(), subregions: [...subregions].sort() };
+};
+
+// Entrants in a continent or subregion; a blank region keeps everyone
+export const filterByRegion = (entrants: Entrant[], region: string) => {
+  const wanted = region.trim().toLowerCase();
+  if (!wanted) return entrants;
+  return entrants.filter(e => e.continent?.toLowerCase() === wanted || e.subregion?.toLowerCase() === wanted);
+};
+
+// --- IMPORT ---
+
+const slugify = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+interface RawEntrant {
+  id?: string;
+  name?: string;
+  image?: string;
+  country?: string;
+}
+
+// Fill in ids and country metadata, and make ids unique within the roster
+const normalizeEntrants = (raw: RawEntrant[]): Entrant[] => {
+  const seen = new Set<string>();
+  return raw.map((item, i) => {
+    const name = item.name?.trim();
+    if (!name) throw new Error(`Entry ${i + 1} has no name`);
+
+    const country = item.country?.trim().toLowerCase() || undefined;
+    if (country && !isCountryCode(country)) {
+      throw new Error(`Entry ${i + 1} ("${name}"): "${item.country}" is not an ISO country code`);
+    }
+
+    const base = item.id?.trim() || slugify(name) || `entrant-${i + 1}`;
+    let id = base;
+    for (let n = 2; seen.has(id); n++) id = `${base}-${n}`;
+    seen.add(id);
+
+    const { continent, subregion } = country ? countryEntrant(country) : ({} as Entrant);
+    const image = item.image?.trim() || undefined;
+    return { id, name, image, country, continent, subregion };
+  });
+};
+
+// Either an array of names/entrants or { name, entrants: [...] }
+export const parseRosterJson = (text: string): { name?: string; entrants: Entrant[] } => {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : parsed?.entrants;
+  if (!Array.isArray(list)) throw new Error('Expected an array of entrants or { "name", "entrants": [...] }');
+  const raw = list.map((item: unknown): RawEntrant => (typeof item === 'string' ? { name: item } : (item as RawEntrant) ?? {}));
+  return { name: typeof parsed?.name === 'string' ? parsed.name : undefined, entrants: normalizeEntrants(raw) };
+};
+
+// Header row with a `name` column and optional `id`, `image` and `country`
+export const parseRosterCsv = (text: string): { entrants: Entrant[] } => {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = header?.map(col => col.trim().toLowerCase()) ?? [];
+  if (!columns.includes('name')) throw new Error('CSV roster needs a "name" column');
+  const col = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? undefined : row[index];
+  };
+  return {
+    entrants: normalizeEntrants(rows.map(row => ({
+      id: col(row, 'id'),
+      name: col(row, 'name'),
+      image: col(row, 'image'),
+      country: col(row, 'country')
+    })))
+  };
+};
+
+// A saved roster from an uploaded file, named after the file unless the JSON names itself
+export const parseRosterFile = (fileName: string, text: string): Roster => {
+  const isCsv = fileName.toLowerCase().endsWith('.csv');
+  const parsed: { name?: string; entrants: Entrant[] } = isCsv ? parseRosterCsv(text) : parseRosterJson(text);
+  if (parsed.entrants.length < 2) throw new Error('A roster needs at least 2 entrants');
+  const name = parsed.name?.trim() || fileName.replace(/\.[^.]+$/, '');
+  const id = `custom:${slugify(name) || 'roster'}`;
+  // Entrant ids carry the roster's, so a viewer called "US" is not the
+  // United States, nor the same "alice" as in another roster
+  const entrants = parsed.entrants.map(e => ({ ...e, id: `${id}:${e.id}` }));
+  return { id, name, entrants, builtIn: false };
+};
@@ -0,0 +1,315 @@
+import { isHexColor, mixHex, rgbTriple, withAlpha } from '../utils/color';
+
+// Themes restyle the whole show: palette, ring, glow, background, fonts and
+// the champion banner. Built-in ones ship with the app; custom ones (e.g. a
+// sponsor's branding) are imported from JSON and kept in localStorage, like
+// rosters. The DOM picks colours up through CSS variables, so switching is
+// instant and never touches the running round.
+
+export const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+export type Shade = typeof SHADES[number];
+export type Scale = Record<Shade, string>; // Hex colours, lightest first
+
+export interface ThemeFont {
+  family: string;
+  url: string; // Font file (woff2, ttf...) loaded with the FontFace API
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  mode: 'dark' | 'light';
+  palette: {
+    accent: Scale;  // Highlights, borders, labels (cyan in the original look)
+    surface: Scale; // Panels and muted text
+    ink: string;    // Main text
+  };
+  ring: { from: string; to: string; glow: string }; // Stroke gradient and its shadow
+  glow: number; // Strength of every glow and bloom, 1 = neon
+  background: {
+    from: string; // Diagonal gradient, top left to bottom right
+    via: string;
+    to: string;
+    vignette: number; // Darkening at the edges, 0-1
+    tint: string;     // Colour glowing from the centre
+    noise: number;    // Grain opacity
+    image: string | null; // Drawn over the gradient, e.g. a sponsor backdrop
+  };
+  fonts: {
+    body: string;    // CSS font-family lists
+    display: string; // Champion name and titles
+    mono: string;
+    sources: ThemeFont[];
+  };
+  banner: {
+    title: string;           // Above the champion's name
+    tournamentTitle: string; // Same, when a tournament is won
+    tagline: string;         // Under it; blank = none
+    logo: string | null;     // Image URL shown above the banner
+  };
+  builtIn: boolean;
+}
+
+const STORAGE_KEY = 'nexus.themes.v1';
+
+export const DEFAULT_THEME_ID = 'neon';
+
+// --- PALETTES ---
+// Tailwind's own scales, so the neon theme matches the original classes exactly
+
+const scale = (...hex: string[]) => Object.fromEntries(SHADES.map((shade, i) => [shade, hex[i]])) as Scale;
+
+const CYAN = scale('#ecfeff', '#cffafe', '#a5f3fc', '#67e8f9', '#22d3ee', '#06b6d4', '#0891b2', '#0e7490', '#155e75', '#164e63', '#083344');
+const SLATE = scale('#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617');
+const RED = scale('#fef2f2', '#fee2e2', '#fecaca', '#fca5a5', '#f87171', '#ef4444', '#dc2626', '#b91c1c', '#991b1b', '#7f1d1d', '#450a0a');
+const BLUE = scale('#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554');
+const EMERALD = scale('#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22');
+const STONE = scale('#fafaf9', '#f5f5f4', '#e7e5e4', '#d6d3d1', '#a8a29e', '#78716c', '#57534e', '#44403c', '#292524', '#1c1917', '#0c0a09');
+const SKY = scale('#f0f9ff', '#e0f2fe', '#bae6fd', '#7dd3fc', '#38bdf8', '#0ea5e9', '#0284c7', '#0369a1', '#075985', '#0c4a6e', '#082f49');
+
+// Light themes use the classes the other way round: "surface-900" panels
+// become pale and "surface-300" text becomes dark
+const reversed = (s: Scale) => scale(...SHADES.map(shade => s[shade]).reverse());
+
+// A full scale from one colour at 500, for custom themes that only give one
+export const deriveScale = (hex: string, mode: Theme['mode'] = 'dark'): Scale => {
+  const derived = scale(...SHADES.map(shade =>
+    shade < 500 ? mixHex(hex, '#ffffff', (500 - shade) / 550) : mixHex(hex, '#000000', (shade - 500) / 550)
+  ));
+  return mode === 'light' ? reversed(derived) : derived;
+};
+
+const SYSTEM_SANS = 'ui-sans-serif, system-ui, sans-serif';
+const SYSTEM_MONO = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+
+// --- BUILT-IN THEMES ---
+
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: 'neon',
+    name: 'Neon',
+    mode: 'dark',
+    palette: { accent: CYAN, surface: SLATE, ink: '#ffffff' },
+    ring: { from: '#ffffff', to: '#22d3ee', glow: 'rgba(34,211,238,0.8)' },
+    glow: 1,
+    background: {
+      from: '#0f172a',
+      via: '#020617',
+      to: '#000000',
+      vignette: 0.6,
+      tint: 'rgba(6,182,212,0.05)',
+      noise: 0.04,
+      image: null
+    },
+    fonts: { body: SYSTEM_SANS, display: SYSTEM_SANS, mono: SYSTEM_MONO, sources: [] },
+    banner: { title: 'Champion', tournamentTitle: 'Tournament Champion', tagline: '', logo: null },
+    builtIn: true
+  },
+  {
+    id: 'sports',
+    name: 'Sports broadcast',
+    mode: 'dark',
+    palette: { accent: RED, surface: BLUE, ink: '#ffffff' },
+    ring: { from: '#ffffff', to: '#ef4444', glow: 'rgba(239,68,68,0.5)' },
+    glow: 0.35,
+    background: {
+      from: '#1e3a8a',
+      via: '#172554',
+      to: '#0b1120',
+      vignette: 0.5,
+      tint: 'rgba(59,130,246,0.08)',
+      noise: 0.02,
+      image: null
+    },
+    fonts: {
+      body: `'Arial Narrow', ${SYSTEM_SANS}`,
+      display: `Impact, 'Arial Black', ${SYSTEM_SANS}`,
+      mono: SYSTEM_MONO,
+      sources: []
+    },
+    banner: { title: 'Match Winner', tournamentTitle: 'Cup Winner', tagline: 'Full time', logo: null },
+    builtIn: true
+  },
+  {
+    id: 'holiday',
+    name: 'Holiday',
+    mode: 'dark',
+    palette: { accent: EMERALD, surface: STONE, ink: '#fefce8' },
+    ring: { from: '#f87171', to: '#34d399', glow: 'rgba(250,204,21,0.6)' },
+    glow: 0.8,
+    background: {
+      from: '#450a0a',
+      via: '#0c0a09',
+      to: '#022c22',
+      vignette: 0.6,
+      tint: 'rgba(250,204,21,0.06)',
+      noise: 0.05,
+      image: null
+    },
+    fonts: { body: SYSTEM_SANS, display: `Georgia, 'Times New Roman', serif`, mono: SYSTEM_MONO, sources: [] },
+    banner: { title: 'Season\'s Champion', tournamentTitle: 'Grand Champion', tagline: 'Happy holidays', logo: null },
+    builtIn: true
+  },
+  {
+    id: 'light',
+    name: 'Light',
+    mode: 'light',
+    palette: { accent: reversed(SKY), surface: reversed(SLATE), ink: '#0f172a' },
+    ring: { from: '#0f172a', to: '#0284c7', glow: 'rgba(2,132,199,0.4)' },
+    glow: 0.4,
+    background: {
+      from: '#f8fafc',
+      via: '#e2e8f0',
+      to: '#cbd5e1',
+      vignette: 0.15,
+      tint: 'rgba(14,165,233,0.08)',
+      noise: 0.02,
+      image: null
+    },
+    fonts: { body: SYSTEM_SANS, display: SYSTEM_SANS, mono: SYSTEM_MONO, sources: [] },
+    banner: { title: 'Champion', tournamentTitle: 'Tournament Champion', tagline: '', logo: null },
+    builtIn: true
+  }
+];
+
+// --- STORAGE ---
+
+export const loadSavedThemes = (): Theme[] => {
+  if (typeof localStorage === 'undefined') return []; // Headless export
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: Theme[] = raw ? JSON.parse(raw) : [];
+    return stored.map(t => ({ ...t, builtIn: false }));
+  } catch (err) {
+    console.warn('Discarding unreadable themes', err);
+    return [];
+  }
+};
+
+export const saveSavedThemes = (themes: Theme[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes.filter(t => !t.builtIn)));
+  } catch (err) {
+    console.warn('Could not save themes', err);
+  }
+};
+
+export const allThemes = () => [...BUILT_IN_THEMES, ...loadSavedThemes()];
+
+export const findTheme = (id: string, themes = allThemes()) => themes.find(t => t.id === id);
+
+// The theme to draw with; an unknown id (e.g. a deleted custom theme) falls back to neon
+export const resolveTheme = (id: string, themes = allThemes()) =>
+  findTheme(id, themes) ?? BUILT_IN_THEMES[0];
+
+// --- IMPORT ---
+
+const slugify = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+type RawTheme = Partial<Omit<Theme, 'palette' | 'builtIn'>> & {
+  extends?: string;
+  palette?: { accent?: string | Partial<Scale>; surface?: string | Partial<Scale>; ink?: string };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// One hex colour becomes a derived scale; a partial scale overrides the base's shades
+const parseScale = (value: unknown, base: Scale, mode: Theme['mode'], label: string): Scale => {
+  if (value === undefined) return base;
+  if (isHexColor(value)) return deriveScale(value, mode);
+  if (!isObject(value)) throw new Error(`palette.${label} must be a hex colour or { "50": "#...", ... }`);
+  const merged = { ...base };
+  Object.entries(value).forEach(([shade, hex]) => {
+    if (!SHADES.includes(Number(shade) as Shade)) throw new Error(`palette.${label}: ${shade} is not a shade`);
+    if (!isHexColor(hex)) throw new Error(`palette.${label}.${shade}: "${hex}" is not a hex colour`);
+    merged[Number(shade) as Shade] = hex;
+  });
+  return merged;
+};
+
+// A JSON theme extends a built-in one ("extends", default neon) and only
+// needs the parts it changes. Palette colours must be hex; the others can
+// be any CSS colour.
+export const parseThemeJson = (text: string, themes = allThemes()): Theme => {
+  const raw: RawTheme = JSON.parse(text);
+  if (!isObject(raw)) throw new Error('Expected a theme object');
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new Error('Theme has no name');
+  const base = findTheme(raw.extends ?? DEFAULT_THEME_ID, themes);
+  if (!base) throw new Error(`No theme called "${raw.extends}" to extend`);
+
+  const mode = raw.mode === 'light' || raw.mode === 'dark' ? raw.mode : base.mode;
+  const ink = raw.palette?.ink ?? base.palette.ink;
+  if (!isHexColor(ink)) throw new Error(`palette.ink: "${ink}" is not a hex colour`);
+  const glow = raw.glow ?? base.glow;
+  if (typeof glow !== 'number' || glow < 0 || glow > 3) throw new Error('glow must be a number from 0 to 3');
+
+  const sources = raw.fonts?.sources ?? base.fonts.sources;
+  if (!Array.isArray(sources) || sources.some(s => !s?.family || !s?.url)) {
+    throw new Error('fonts.sources must be a list of { "family", "url" }');
+  }
+
+  const id = (typeof raw.id === 'string' && slugify(raw.id)) || slugify(name) || 'custom-theme';
+  if (BUILT_IN_THEMES.some(t => t.id === id)) throw new Error(`"${id}" is a built-in theme; pick another id`);
+
+  return {
+    id,
+    name,
+    mode,
+    palette: {
+      accent: parseScale(raw.palette?.accent, base.palette.accent, mode, 'accent'),
+      surface: parseScale(raw.palette?.surface, base.palette.surface, mode, 'surface'),
+      ink
+    },
+    ring: { ...base.ring, ...raw.ring },
+    glow,
+    background: { ...base.background, ...raw.background },
+    fonts: { ...base.fonts, ...raw.fonts, sources },
+    banner: { ...base.banner, ...raw.banner },
+    builtIn: false
+  };
+};
+
+// --- DOM ---
+
+// CSS custom properties read by the Tailwind config (accent-*, surface-*,
+// ink, font-*, shadow-glow*)
+export const themeVariables = (theme: Theme): Record<string, string> => {
+  const vars: Record<string, string> = {
+    '--ink': rgbTriple(theme.palette.ink),
+    '--glow': String(theme.glow),
+    '--font-body': theme.fonts.body,
+    '--font-display': theme.fonts.display,
+    '--font-mono': theme.fonts.mono
+  };
+  SHADES.forEach(shade => {
+    vars[`--accent-${shade}`] = rgbTriple(theme.palette.accent[shade]);
+    vars[`--surface-${shade}`] = rgbTriple(theme.palette.surface[shade]);
+  });
+  return vars;
+};
+
+export const applyTheme = (theme: Theme, root: HTMLElement = document.documentElement) => {
+  Object.entries(themeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.style.colorScheme = theme.mode;
+};
+
+// Registers the theme's font files; failures only cost the custom font
+export const loadThemeFonts = (theme: Theme) => {
+  if (typeof FontFace === 'undefined') return;
+  theme.fonts.sources.forEach(source => {
+    const face = new FontFace(source.family, `url("${source.url}")`);
+    face.load().then(
+      loaded => document.fonts.add(loaded),
+      err => console.warn(`Could not load font "${source.family}"`, err)
+    );
+  });
+};
+
+// Accent colour with an alpha, for the canvas renderer
+export const accent = (theme: Theme, shade: Shade, alpha = 1) => withAlpha(theme.palette.accent[shade], alpha);
+export const surface = (theme: Theme, shade: Shade, alpha = 1) => withAlpha(theme.palette.surface[shade], alpha);
+
@@ -0,0 +1,213 @@
+// Tournament structure on top of ordinary rounds. Entrants are split into
+// heats (randomly or by continent); the top finishers of every heat advance,
+// and stages repeat until everyone left fits into a single final. Saved to
+// localStorage after every heat so a reload resumes at the heat in progress.
+
+import { Entrant } from '../types';
+import { Rng, createRng, shuffle } from '../engine/rng';
+
+const STORAGE_KEY = 'nexus.tournament.v1';
+const OTHER_REGION = 'Other';
+
+export type TournamentGrouping = 'random' | 'continent';
+
+export interface TournamentSettings {
+  grouping: TournamentGrouping;
+  heatSize: number; // Most entrants in one heat
+  advance: number;  // Top finishers of each heat that go through
+}
+
+export interface Heat {
+  id: string;
+  name: string;
+  entrants: string[];          // Entrant ids
+  placements: string[] | null; // Finishing order once run, winner first
+}
+
+export interface TournamentStage {
+  name: string;
+  final: boolean;
+  heats: Heat[];
+}
+
+export interface Tournament {
+  version: 1;
+  id: string;
+  startedAt: number;
+  seed: number;
+  settings: TournamentSettings;
+  entrants: Entrant[]; // Snapshot, so later roster edits cannot break a running tournament
+  stages: TournamentStage[];
+  champion: string | null;
+}
+
+// Where the tournament is up to
+export interface HeatRef {
+  stage: TournamentStage;
+  stageIndex: number;
+  heat: Heat;
+  heatIndex: number;
+}
+
+// Split into the fewest groups of at most `size`, as evenly as possible. Never
+// leaves anyone in a group of their own: where that would happen (3 into
+// groups of 2) the lone one joins a neighbour, one over `size`.
+const splitEvenly = <T>(items: T[], size: number): T[][] => {
+  const count = Math.max(1, Math.min(Math.ceil(items.length / size), Math.floor(items.length / 2)));
+  return Array.from({ length: count }, (_, i) =>
+    items.slice(Math.round((i * items.length) / count), Math.round(((i + 1) * items.length) / count))
+  );
+};
+
+// Continents too small to race on their own are pooled together
+const groupByContinent = (entrants: Entrant[], settings: TournamentSettings, rng: Rng) => {
+  const byContinent = new Map<string, Entrant[]>();
+  shuffle(entrants, rng).forEach(e => {
+    const region = e.continent ?? OTHER_REGION;
+    byContinent.set(region, [...(byContinent.get(region) ?? []), e]);
+  });
+
+  const groups: { name: string; entrants: Entrant[] }[] = [];
+  const leftovers: Entrant[] = [];
+  [...byContinent.keys()].sort().forEach(region => {
+    const members = byContinent.get(region)!;
+    if (members.length <= settings.advance) {
+      leftovers.push(...members);
+      return;
+    }
+    const parts = splitEvenly(members, settings.heatSize);
+    parts.forEach((part, i) => groups.push({ name: parts.length > 1 ? `${region} ${i + 1}` : region, entrants: part }));
+  });
+
+  if (leftovers.length >= 2) {
+    splitEvenly(leftovers, settings.heatSize).forEach((part, i, parts) =>
+      groups.push({ name: parts.length > 1 ? `${OTHER_REGION} ${i + 1}` : OTHER_REGION, entrants: part })
+    );
+  } else if (leftovers.length === 1) {
+    // Nobody to race against; join the smallest heat
+    const smallest = groups.reduce((a, b) => (b.entrants.length < a.entrants.length ? b : a), groups[0]);
+    if (smallest) smallest.entrants.push(leftovers[0]);
+    else groups.push({ name: OTHER_REGION, entrants: leftovers });
+  }
+  return groups;
+};
+
+const createStage = (name: string, groups: { name: string; entrants: Entrant[] }[], stageIndex: number): TournamentStage => ({
+  name,
+  final: groups.length === 1,
+  heats: groups.map((g, i) => ({
+    id: `s${stageIndex}h${i}`,
+    name: g.name,
+    entrants: g.entrants.map(e => e.id),
+    placements: null
+  }))
+});
+
+// Name a later stage by how many more it takes to reach a single final
+const laterStage = (pool: Entrant[], settings: TournamentSettings, stageIndex: number, rng: Rng) => {
+  if (pool.length <= settings.heatSize) {
+    return createStage('Final', [{ name: 'Final', entrants: shuffle(pool, rng) }], stageIndex);
+  }
+  const groups = splitEvenly(shuffle(pool, rng), settings.heatSize);
+  const isSemi = groups.length * settings.advance <= settings.heatSize;
+  const name = isSemi ? 'Semifinals' : `Round ${stageIndex + 1}`;
+  return createStage(name, groups.map((g, i) => ({ name: `${isSemi ? 'Semifinal' : 'Heat'} ${i + 1}`, entrants: g })), stageIndex);
+};
+
+export const createTournament = (
+  entrants: Entrant[],
+  settings: TournamentSettings,
+  seed: number,
+  now = Date.now()
+): Tournament => {
+  const rng = createRng(seed);
+  const first = entrants.length <= settings.heatSize
+    ? createStage('Final', [{ name: 'Final', entrants: shuffle(entrants, rng) }], 0)
+    : createStage(
+        'Heats',
+        settings.grouping === 'continent'
+          ? groupByContinent(entrants, settings, rng)
+          : splitEvenly(shuffle(entrants, rng), settings.heatSize).map((g, i) => ({ name: `Heat ${i + 1}`, entrants: g })),
+        0
+      );
+
+  return {
+    version: 1,
+    id: `tournament-${now}`,
+    startedAt: now,
+    seed,
+    settings,
+    entrants,
+    stages: [first],
+    champion: null
+  };
+};
+
+// How the HUD and the results API name a heat
+export const heatLabel = (ref: HeatRef) =>
+  ref.stage.final ? 'Grand Final' : `${ref.stage.name} · ${ref.heat.name}`;
+
+// The next heat to run, or null once there is a champion
+export const currentHeat = (t: Tournament): HeatRef | null => {
+  if (t.champion) return null;
+  for (let stageIndex = 0; stageIndex < t.stages.length; stageIndex++) {
+    const stage = t.stages[stageIndex];
+    const heatIndex = stage.heats.findIndex(h => !h.placements);
+    if (heatIndex !== -1) return { stage, stageIndex, heat: stage.heats[heatIndex], heatIndex };
+  }
+  return null;
+};
+
+export const heatEntrants = (t: Tournament, heat: Heat) => {
+  const byId = new Map<string, Entrant>(t.entrants.map(e => [e.id, e]));
+  return heat.entrants.flatMap(id => byId.get(id) ?? []);
+};
+
+// Entrants of a finished heat that go through to the next stage. Someone
+// always goes out, so every stage is smaller than the last.
+export const heatAdvancers = (t: Tournament, heat: Heat) =>
+  heat.placements ? heat.placements.slice(0, Math.min(t.settings.advance, heat.placements.length - 1)) : [];
+
+// Store the current heat's finishing order and, when it completes a stage, draw the next one
+export const recordHeatResult = (t: Tournament, placements: string[]): Tournament => {
+  const ref = currentHeat(t);
+  if (!ref) return t;
+
+  const stages = t.stages.map((stage, si) =>
+    si !== ref.stageIndex
+      ? stage
+      : { ...stage, heats: stage.heats.map((h, hi) => (hi === ref.heatIndex ? { ...h, placements } : h)) }
+  );
+  const stage = stages[ref.stageIndex];
+  if (stage.heats.some(h => !h.placements)) return { ...t, stages };
+
+  if (stage.final) return { ...t, stages, champion: placements[0] ?? null };
+
+  // Seeded per stage, so the same results always draw the same next stage
+  const rng = createRng(t.seed + stages.length);
+  const advancing = new Set(stage.heats.flatMap(h => heatAdvancers(t, h)));
+  const pool = t.entrants.filter(e => advancing.has(e.id));
+  return { ...t, stages: [...stages, laterStage(pool, t.settings, stages.length, rng)] };
+};
+
+// --- PERSISTENCE ---
+
+export const loadTournament = (): Tournament | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed?.version === 1 && Array.isArray(parsed.stages) ? parsed : null;
+  } catch (err) {
+    console.warn('Discarding unreadable tournament', err);
+    return null;
+  }
+};
+
+export const saveTournament = (t: Tournament | null) => {
+  try {
+    if (t) localStorage.setItem(STORAGE_KEY, JSON.stringify(t));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.warn('Could not save tournament', err);
+  }
+};
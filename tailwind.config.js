@@ -0,0 +1,43 @@
+// Palette colours come from CSS variables set by the active theme (see
+// services/themes.ts), as "r g b" triples so opacity modifiers still work
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+const themed = name => Object.fromEntries(SHADES.map(shade => [shade, `rgb(var(--${name}-${shade}) / <alpha-value>)`]));
+
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './remote.html', './*.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        accent: themed('accent'),
+        surface: themed('surface'),
+        ink: 'rgb(var(--ink) / <alpha-value>)'
+      },
+      fontFamily: {
+        sans: 'var(--font-body)',
+        display: 'var(--font-display)',
+        mono: 'var(--font-mono)'
+      },
+      // Glows scale with the theme's --glow strength
+      boxShadow: {
+        'glow-sm': '0 0 5px rgb(var(--accent-400) / var(--glow))',
+        glow: '0 0 15px rgb(var(--accent-600) / calc(0.2 * var(--glow)))',
+        'glow-md': '0 0 15px rgb(var(--accent-400) / calc(0.4 * var(--glow)))',
+        'glow-lg': '0 0 50px rgb(var(--accent-400) / calc(0.5 * var(--glow)))'
+      },
+      dropShadow: {
+        glow: '0 0 25px rgb(var(--accent-400) / calc(0.6 * var(--glow)))'
+      },
+      keyframes: {
+        'flash-accent': {
+          from: { color: 'rgb(var(--accent-400))' },
+          to: { color: 'rgb(var(--ink))' }
+        }
+      },
+      animation: {
+        'flash-accent': 'flash-accent 0.4s ease-out'
+      }
+    }
+  },
+  plugins: []
+};
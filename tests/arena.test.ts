@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRing, gapDistance, isInsideRingGap, stepRing } from '../engine/arena';
+
+// A ring with one 40° gap starting 30° into the ring
+const ringWithGap = (angle = 0) => {
+  const ring = createRing(160, 0, [{ offset: 30, size: 40, drift: 0 }]);
+  ring.angle = angle;
+  return ring;
+};
+
+test('isInsideRingGap lines points up with the gap', () => {
+  const ring = ringWithGap();
+  assert.ok(isInsideRingGap(ring, 50, 0));
+  assert.ok(isInsideRingGap(ring, 30, 0));
+  assert.ok(isInsideRingGap(ring, 70, 0));
+  assert.ok(!isInsideRingGap(ring, 80, 0));
+  assert.ok(!isInsideRingGap(ring, 200, 0));
+});
+
+test('isInsideRingGap widens the gap by the tolerance on both sides', () => {
+  const ring = ringWithGap();
+  assert.ok(!isInsideRingGap(ring, 25, 0));
+  assert.ok(isInsideRingGap(ring, 25, 5));
+  assert.ok(isInsideRingGap(ring, 75, 5));
+  assert.ok(!isInsideRingGap(ring, 76, 5));
+});
+
+test('the gap turns with the ring, across 360', () => {
+  const ring = ringWithGap(300); // Gap now spans 330 to 10
+  assert.ok(isInsideRingGap(ring, 350, 0));
+  assert.ok(isInsideRingGap(ring, 5, 0));
+  assert.ok(!isInsideRingGap(ring, 50, 0));
+
+  const spinning = createRing(160, 90, [{ offset: 0, size: 10, drift: 0 }]);
+  stepRing(spinning, 1);
+  assert.equal(spinning.angle, 90);
+  assert.ok(isInsideRingGap(spinning, 95, 0));
+  assert.ok(!isInsideRingGap(spinning, 5, 0));
+});
+
+test('gapDistance is 0 in the gap and the shortest way to an edge outside it', () => {
+  const ring = ringWithGap();
+  assert.equal(gapDistance(ring, 50), 0);
+  assert.equal(gapDistance(ring, 20), 10);
+  assert.equal(gapDistance(ring, 90), 20);
+  assert.equal(gapDistance(ring, 350), 40);
+});
+
+test('gapDistance takes the nearest of several gaps', () => {
+  const ring = createRing(160, 0, [
+    { offset: 0, size: 10, drift: 0 },
+    { offset: 180, size: 10, drift: 0 }
+  ]);
+  assert.equal(gapDistance(ring, 170), 10);
+  assert.equal(gapDistance(ring, 30), 20);
+});
+
+test('a closed gap lets nothing through', () => {
+  const ring = createRing(160, 0, [{ offset: 30, size: 0, drift: 0 }]);
+  assert.ok(!isInsideRingGap(ring, 30, 5));
+  assert.equal(gapDistance(ring, 30), Infinity);
+});
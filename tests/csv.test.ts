@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { csvCell, parseCsvLine, parseCsvRows } from '../utils/csv';
+
+test('csvCell quotes only cells that need it', () => {
+  assert.equal(csvCell('France'), 'France');
+  assert.equal(csvCell(42), '42');
+  assert.equal(csvCell('Korea, Republic of'), '"Korea, Republic of"');
+  assert.equal(csvCell('the "Reds"'), '"the ""Reds"""');
+  assert.equal(csvCell('two\nlines'), '"two\nlines"');
+});
+
+test('parseCsvLine splits on commas outside quotes', () => {
+  assert.deepEqual(parseCsvLine('a,b,c'), ['a', 'b', 'c']);
+  assert.deepEqual(parseCsvLine('"Korea, Republic of",kr'), ['Korea, Republic of', 'kr']);
+  assert.deepEqual(parseCsvLine('"the ""Reds""",1'), ['the "Reds"', '1']);
+});
+
+test('parseCsvLine keeps empty cells', () => {
+  assert.deepEqual(parseCsvLine(''), ['']);
+  assert.deepEqual(parseCsvLine('a,,c,'), ['a', '', 'c', '']);
+});
+
+test('cells written with csvCell read back unchanged', () => {
+  const cells = ['plain', 'with, comma', 'with "quotes"', '', '7'];
+  assert.deepEqual(parseCsvLine(cells.map(csvCell).join(',')), cells);
+});
+
+test('parseCsvRows skips blank lines and accepts CRLF', () => {
+  assert.deepEqual(parseCsvRows('name,wins\r\nFrance,3\r\n\r\nJapan,1\n'), [
+    ['name', 'wins'],
+    ['France', '3'],
+    ['Japan', '1']
+  ]);
+});
+
+test('a quoted cell may span lines', () => {
+  assert.deepEqual(parseCsvRows('name,wins\n"Team\nRocket",2\r\n"A ""B""\r\nC",1\n'), [
+    ['name', 'wins'],
+    ['Team\nRocket', '2'],
+    ['A "B"\r\nC', '1']
+  ]);
+});
+
+test('rows written with csvCell read back unchanged, newlines included', () => {
+  const rows = [
+    ['id', 'name'],
+    ['fr', 'France'],
+    ['crew', 'Night\nShift, "B" team'],
+    ['', 'trailing\r\n']
+  ];
+  const text = rows.map(row => row.map(csvCell).join(',')).join('\n');
+  assert.deepEqual(parseCsvRows(text), rows);
+});
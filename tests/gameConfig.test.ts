@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_GAME_CONFIG, GameConfig, configFromParams, resolveConfig, validateConfig } from '../services/gameConfig';
+
+const issueKeys = (changes: Partial<GameConfig>) =>
+  validateConfig({ ...DEFAULT_GAME_CONFIG, ...changes }).map(issue => issue.key);
+
+test('the default config is valid', () => {
+  assert.deepEqual(validateConfig(DEFAULT_GAME_CONFIG), []);
+});
+
+test('numbers must be finite and within the field range', () => {
+  assert.deepEqual(issueKeys({ gapDegrees: 0 }), ['gapDegrees']);
+  assert.deepEqual(issueKeys({ baseSpeed: Number.NaN }), ['baseSpeed']);
+  assert.deepEqual(issueKeys({ soundVolume: 2 }), ['soundVolume']);
+});
+
+test('select fields only take their listed options', () => {
+  assert.deepEqual(issueKeys({ mode: 'pinball' as GameConfig['mode'] }), ['mode']);
+  assert.deepEqual(issueKeys({ layout: 'nowhere' }), ['layout']);
+});
+
+test('cross-field rules', () => {
+  assert.deepEqual(issueKeys({ gapDegrees: 60, maxGapDegrees: 50 }), ['maxGapDegrees']);
+  assert.deepEqual(issueKeys({ tournamentHeatSize: 4, tournamentAdvance: 4 }), ['tournamentAdvance']);
+  assert.deepEqual(issueKeys({ initialRadius: 150, flagRadius: 12, boundaryRadius: 160 }), ['initialRadius']);
+});
+
+test('the chat URL must be a WebSocket', () => {
+  assert.deepEqual(issueKeys({ chatUrl: 'http://chat.example' }), ['chatUrl']);
+  assert.deepEqual(issueKeys({ chatUrl: 'wss://chat.example' }), []);
+});
+
+test('entrants must exist and leave at least two in the round', () => {
+  assert.deepEqual(issueKeys({ entrants: ['zz-nobody'] }), ['entrants', 'entrants']);
+  assert.deepEqual(issueKeys({ region: 'Atlantis' }), ['region']);
+  assert.deepEqual(issueKeys({ roster: 'missing' }), ['roster']);
+});
+
+test('configFromParams resets out-of-range values and says what it used instead', () => {
+  const { config, issues } = configFromParams(new URLSearchParams('gapDegrees=500&rotationSpeed=60'), DEFAULT_GAME_CONFIG);
+  assert.equal(config.gapDegrees, DEFAULT_GAME_CONFIG.gapDegrees);
+  assert.equal(config.rotationSpeed, 60);
+  assert.deepEqual(issues, [
+    { key: 'gapDegrees', message: `Gap size (°) must be between 5 and 180; using gapDegrees=${DEFAULT_GAME_CONFIG.gapDegrees}` }
+  ]);
+});
+
+test('configFromParams drops values that still conflict after the reset', () => {
+  const gap = configFromParams(new URLSearchParams('gapDegrees=150&rotationSpeed=60'), DEFAULT_GAME_CONFIG);
+  assert.equal(gap.config.gapDegrees, DEFAULT_GAME_CONFIG.gapDegrees);
+  assert.equal(gap.config.maxGapDegrees, DEFAULT_GAME_CONFIG.maxGapDegrees);
+  assert.equal(gap.config.rotationSpeed, 60);
+  assert.deepEqual(validateConfig(gap.config), []);
+  assert.deepEqual(gap.issues.map(i => i.key), ['gapDegrees']);
+  assert.match(gap.issues[0].message, /using gapDegrees=45$/);
+
+  const heats = configFromParams(new URLSearchParams('tournamentHeatSize=2'), DEFAULT_GAME_CONFIG);
+  assert.equal(heats.config.tournamentHeatSize, DEFAULT_GAME_CONFIG.tournamentHeatSize);
+  assert.deepEqual(validateConfig(heats.config), []);
+  assert.deepEqual(heats.issues.map(i => i.key), ['tournamentHeatSize']);
+});
+
+test('a conflicting preset is checked like the URL', () => {
+  const preset = { ...DEFAULT_GAME_CONFIG, gapDegrees: 90, maxGapDegrees: 60, rotationSpeed: 70 };
+  const { config, issues } = resolveConfig(preset, DEFAULT_GAME_CONFIG);
+  assert.deepEqual(validateConfig(config), []);
+  assert.equal(config.gapDegrees, 90);
+  assert.equal(config.rotationSpeed, 70);
+  assert.deepEqual(issues.map(i => i.key), ['maxGapDegrees']);
+});
+
+test('a target round length must outlast the formation, predictions included', () => {
+  assert.deepEqual(issueKeys({ targetDurationMs: 1000, formationDurationMs: 2000 }), ['targetDurationMs']);
+  assert.deepEqual(issueKeys({ targetDurationMs: 10000, formationDurationMs: 2000 }), []);
+  assert.deepEqual(issueKeys({ targetDurationMs: 10000, predictions: true, predictionWindowMs: 15000 }), ['targetDurationMs']);
+});
+
+test('custom layouts are checked entity by entity', () => {
+  const bumper = { kind: 'bumper', x: 0, y: 0, radius: 0.1 };
+  assert.deepEqual(issueKeys({ layout: 'custom', customLayouts: [[bumper]] as GameConfig['customLayouts'] }), []);
+  assert.deepEqual(issueKeys({ layout: 'custom', customLayouts: [] }), ['layout']);
+  assert.deepEqual(issueKeys({ customLayouts: [[{ ...bumper, x: 2 }]] as GameConfig['customLayouts'] }), ['customLayouts']);
+  assert.deepEqual(issueKeys({ customLayouts: [[{ kind: 'laser' }]] as unknown as GameConfig['customLayouts'] }), ['customLayouts']);
+});
+
+test('the webhook URL and the embed origin', () => {
+  assert.deepEqual(issueKeys({ webhookUrl: 'ftp://example.com' }), ['webhookUrl']);
+  assert.deepEqual(issueKeys({ embedOrigin: 'https://example.com/page' }), ['embedOrigin']);
+  assert.deepEqual(issueKeys({ embedOrigin: 'https://example.com' }), []);
+  assert.deepEqual(issueKeys({ embedOrigin: '*' }), []);
+});
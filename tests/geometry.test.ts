@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { angleBetween, isAngleInArc, normalizeAngle, pointAngle } from '../engine/geometry';
+
+test('normalizeAngle wraps into 0-360', () => {
+  assert.equal(normalizeAngle(0), 0);
+  assert.equal(normalizeAngle(360), 0);
+  assert.equal(normalizeAngle(725), 5);
+  assert.equal(normalizeAngle(-30), 330);
+  assert.equal(normalizeAngle(-690), 30);
+});
+
+test('pointAngle measures clockwise from 3 o\'clock on screen axes', () => {
+  assert.equal(pointAngle(1, 0), 0);
+  assert.equal(pointAngle(0, 1), 90);
+  assert.equal(pointAngle(-1, 0), 180);
+  assert.equal(pointAngle(0, -1), 270);
+});
+
+test('isAngleInArc includes both ends of the arc', () => {
+  assert.ok(isAngleInArc(10, 10, 50));
+  assert.ok(isAngleInArc(50, 10, 50));
+  assert.ok(isAngleInArc(30, 10, 50));
+  assert.ok(!isAngleInArc(60, 10, 50));
+  assert.ok(!isAngleInArc(5, 10, 50));
+});
+
+test('isAngleInArc handles arcs that wrap past 360', () => {
+  assert.ok(isAngleInArc(350, 340, 20));
+  assert.ok(isAngleInArc(0, 340, 20));
+  assert.ok(isAngleInArc(15, 340, 20));
+  assert.ok(!isAngleInArc(180, 340, 20));
+  assert.ok(isAngleInArc(-10, 340, 20));
+  assert.ok(isAngleInArc(370, 340, 20));
+});
+
+test('angleBetween takes the short way round', () => {
+  assert.equal(angleBetween(10, 350), 20);
+  assert.equal(angleBetween(350, 10), 20);
+  assert.equal(angleBetween(0, 180), 180);
+  assert.equal(angleBetween(90, 90), 0);
+  assert.equal(angleBetween(-90, 90), 180);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLeaderboard, leaderboardToJson, parseLeaderboardJson, recordRound } from '../services/leaderboardStore';
+
+const NAMES = { fr: 'France', jp: 'Japan' };
+
+test('only the latest rounds are stored, while the stats count them all', () => {
+  let data = createLeaderboard(0);
+  for (let i = 0; i < 600; i++) {
+    data = recordRound(data, { id: `r${i}`, finishedAt: i, seed: i, placements: i % 2 ? ['fr', 'jp'] : ['jp', 'fr'] }, NAMES);
+  }
+  assert.equal(data.current.rounds.length, 500);
+  assert.equal(data.current.rounds[0].id, 'r100');
+  assert.equal(data.current.roundCount, 600);
+  assert.equal(data.current.stats.fr.rounds, 600);
+  assert.equal(data.current.stats.fr.wins, 300);
+});
+
+test('an export reads back as it was written', () => {
+  const data = recordRound(createLeaderboard(0), { id: 'r0', finishedAt: 0, seed: 0, placements: ['fr', 'jp'] }, NAMES);
+  assert.deepEqual(parseLeaderboardJson(leaderboardToJson(data)), data);
+});
+
+test('imports with a malformed season or round are refused', () => {
+  const data = recordRound(createLeaderboard(0), { id: 'r0', finishedAt: 0, seed: 0, placements: ['fr', 'jp'] }, NAMES);
+  const broken = (change: (copy: any) => void) => {
+    const copy = JSON.parse(leaderboardToJson(data));
+    change(copy);
+    return () => parseLeaderboardJson(JSON.stringify(copy));
+  };
+  assert.throws(broken(copy => delete copy.current.roundCount), /current season has no round count/);
+  assert.throws(broken(copy => (copy.current.rounds[0].placements = 'fr')), /invalid round 1/);
+  assert.throws(broken(copy => (copy.current.stats.fr.wins = '1')), /invalid stats for "fr"/);
+  assert.throws(broken(copy => copy.archive.push({ id: 'old' })), /Archived season 1/);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Entrant } from '../types';
+import { EngineConfig, TICK_MS } from '../engine/config';
+import { World, createWorld } from '../engine/simulation';
+import { GAP_OPEN_MS, createPacing, gapOpening, pacedConfig, updatePacing } from '../engine/pacing';
+
+const TICK_S = TICK_MS / 1000;
+const ENTRANTS: Entrant[] = Array.from({ length: 10 }, (_, i) => ({ id: `e${i}`, name: `Entrant ${i}` }));
+
+// A world whose scatter started at `scatterAt`, stopped at `time`
+const worldAt = (config: Partial<EngineConfig>, scatterAt: number | null, time: number): World => {
+  const world = createWorld({ seed: 1, entrants: ENTRANTS, config });
+  world.scatterStartedAt = scatterAt;
+  world.time = time;
+  if (scatterAt !== null) world.phase = 'scatter';
+  return world;
+};
+
+test('createPacing only tracks rounds with a target', () => {
+  const world = worldAt({}, null, 0);
+  assert.equal(createPacing(world.config), null);
+  assert.deepEqual(createPacing({ ...world.config, targetDurationMs: 30000 }), { gapScale: 1, speedScale: 1, suddenDeathAt: null, curve: [] });
+});
+
+test('gapOpening leaves the gap open without a hold', () => {
+  assert.equal(gapOpening(worldAt({ gapOpenDelayMs: 0 }, null, 0)), 1);
+  assert.equal(gapOpening(worldAt({ gapOpenDelayMs: 0 }, 1000, 1000)), 1);
+});
+
+test('gapOpening holds the gap closed, then widens it over GAP_OPEN_MS', () => {
+  const config = { gapOpenDelayMs: 2000 };
+  assert.equal(gapOpening(worldAt(config, null, 5000)), 0);
+  assert.equal(gapOpening(worldAt(config, 1000, 2500)), 0);
+  assert.equal(gapOpening(worldAt(config, 1000, 3000 + GAP_OPEN_MS / 2)), 0.5);
+  assert.equal(gapOpening(worldAt(config, 1000, 3000 + GAP_OPEN_MS)), 1);
+  assert.equal(gapOpening(worldAt(config, 1000, 60000)), 1);
+});
+
+test('pacedConfig closes the gap during the hold', () => {
+  const world = worldAt({ gapOpenDelayMs: 2000, gapDegrees: 40 }, 1000, 2000);
+  const paced = pacedConfig(world);
+  assert.equal(paced.gapDegrees, 0);
+  assert.equal(paced.rotationSpeed, world.config.rotationSpeed);
+});
+
+test('pacedConfig is the plain config once open without a target', () => {
+  const world = worldAt({ gapOpenDelayMs: 2000 }, 1000, 3000 + GAP_OPEN_MS);
+  assert.equal(pacedConfig(world), world.config);
+  const unheld = worldAt({ gapOpenDelayMs: 0 }, null, 0);
+  assert.equal(pacedConfig(unheld), unheld.config);
+});
+
+test('pacedConfig scales the gap by the pacing state', () => {
+  const world = worldAt({ gapOpenDelayMs: 0, targetDurationMs: 30000, gapDegrees: 45, maxGapDegrees: 120 }, 1000, 1000 + GAP_OPEN_MS);
+  world.pacing!.gapScale = 2;
+  world.pacing!.speedScale = 1.5;
+  const paced = pacedConfig(world);
+  assert.equal(paced.gapDegrees, 90);
+  assert.equal(paced.maxGapDegrees, 240);
+  assert.equal(paced.rotationSpeed, world.config.rotationSpeed * 1.5);
+});
+
+test('updatePacing does nothing without a target', () => {
+  const world = worldAt({}, 1000, 20000);
+  assert.equal(updatePacing(world, 1), false);
+});
+
+test('updatePacing widens the gap, rate limited, while eliminations lag', () => {
+  const world = worldAt({ targetDurationMs: 30000, pacingMaxGapScale: 2.5, pacingMaxSpeedScale: 1.75 }, 2000, 20000);
+  assert.equal(updatePacing(world, 1), true);
+  assert.equal(world.pacing!.gapScale, 1.5); // Limited to 0.5 a second
+  assert.equal(world.pacing!.speedScale, 1 + 0.75 * (0.5 / 1.5));
+  assert.equal(world.pacing!.curve.length, 1);
+});
+
+test('updatePacing narrows the gap while eliminations run ahead', () => {
+  const world = worldAt({ targetDurationMs: 60000, pacingMinGapScale: 0.5 }, 2000, 3000);
+  world.flags.slice(2).forEach(f => (f.status = 'eliminated'));
+  updatePacing(world, 1);
+  assert.equal(world.pacing!.gapScale, 0.5);
+  assert.equal(world.pacing!.speedScale, 1);
+});
+
+test('updatePacing goes to sudden death once the round overruns', () => {
+  const world = worldAt({ targetDurationMs: 30000 }, 2000, 31000);
+  updatePacing(world, TICK_S);
+  assert.equal(world.pacing!.suddenDeathAt, 31000);
+  assert.deepEqual(world.events.filter(e => e.type === 'suddenDeath'), [{ type: 'suddenDeath', time: 31000 }]);
+
+  // Announced once
+  world.time += 1000;
+  updatePacing(world, TICK_S);
+  assert.equal(world.events.filter(e => e.type === 'suddenDeath').length, 1);
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUILT_IN_ROSTERS, createEntrantLookup, parseRosterFile } from '../services/rosters';
+
+test('custom entrant ids are namespaced by their roster', () => {
+  const roster = parseRosterFile('Viewers.json', '["US", "Alice", "Alice"]');
+  assert.equal(roster.id, 'custom:viewers');
+  assert.deepEqual(roster.entrants.map(e => e.id), ['custom:viewers:us', 'custom:viewers:alice', 'custom:viewers:alice-2']);
+});
+
+test('a custom entrant named like a country does not take its place', () => {
+  const viewers = parseRosterFile('viewers.csv', 'name,id\nUS,us\nFR,fr');
+  const lookup = createEntrantLookup([...BUILT_IN_ROSTERS, viewers]);
+  assert.equal(lookup('us')?.country, 'us');
+  assert.equal(lookup('custom:viewers:us')?.name, 'US');
+  assert.equal(lookup('custom:viewers:us')?.country, undefined);
+});
+
+test('the same name in two rosters stays two entrants', () => {
+  const a = parseRosterFile('a.json', '["Alice", "Bob"]');
+  const b = parseRosterFile('b.json', '["Alice", "Carol"]');
+  assert.notEqual(a.entrants[0].id, b.entrants[0].id);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Entrant } from '../types';
+import { finishingOrder, simulateRound } from '../engine/simulation';
+
+const ENTRANTS: Entrant[] = Array.from({ length: 12 }, (_, i) => ({ id: `e${i}`, name: `Entrant ${i}` }));
+
+test('every round finishes with everyone placed', () => {
+  const world = simulateRound({ seed: 7, entrants: ENTRANTS });
+  assert.equal(world.phase, 'finished');
+  assert.deepEqual([...finishingOrder(world)].sort(), ENTRANTS.map(e => e.id).sort());
+});
+
+test('the same seed and config give the same round', () => {
+  const config = { mode: 'multiGap' as const, gapDegrees: 30 };
+  [1, 42, 2024].forEach(seed => {
+    const a = simulateRound({ seed, entrants: ENTRANTS, config });
+    const b = simulateRound({ seed, entrants: ENTRANTS, config });
+    assert.deepEqual(finishingOrder(a), finishingOrder(b));
+    assert.deepEqual(a.eliminations, b.eliminations);
+    assert.equal(a.time, b.time);
+  });
+});
+
+test('different seeds give different rounds', () => {
+  const orders = new Set([1, 2, 3, 4].map(seed => finishingOrder(simulateRound({ seed, entrants: ENTRANTS })).join()));
+  assert.ok(orders.size > 1);
+});
+
+test('nobody goes out while the gap is held closed', () => {
+  const config = { gapOpenDelayMs: 3000 };
+  [1, 2, 3].forEach(seed => {
+    const world = simulateRound({ seed, entrants: ENTRANTS, config });
+    assert.equal(world.phase, 'finished');
+    assert.ok(world.eliminations.every(e => e.time >= world.config.formationDurationMs + 3000));
+  });
+});
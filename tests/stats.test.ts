@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chiSquare, chiSquareUniform, lnGamma, percentile, upperGamma } from '../utils/stats';
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+test('percentile interpolates between neighbours', () => {
+  const sorted = [10, 20, 30, 40];
+  assert.equal(percentile(sorted, 0), 10);
+  assert.equal(percentile(sorted, 1), 40);
+  assert.equal(percentile(sorted, 0.5), 25);
+  assert.equal(percentile(sorted, 2), 40);
+  assert.ok(Number.isNaN(percentile([], 0.5)));
+});
+
+test('lnGamma matches factorials and Γ(1/2)', () => {
+  close(lnGamma(1), 0);
+  close(lnGamma(5), Math.log(24));
+  close(lnGamma(10), Math.log(362880));
+  close(lnGamma(0.5), Math.log(Math.sqrt(Math.PI)));
+});
+
+test('upperGamma matches closed forms on both sides of x = a + 1', () => {
+  // Q(1, x) = e^-x
+  close(upperGamma(1, 0.5), Math.exp(-0.5));
+  close(upperGamma(1, 10), Math.exp(-10));
+  // Q(2, x) = (1 + x) e^-x
+  close(upperGamma(2, 1), 2 * Math.exp(-1));
+  close(upperGamma(2, 8), 9 * Math.exp(-8));
+  assert.equal(upperGamma(3, 0), 1);
+});
+
+test('chiSquareUniform: equal counts fit perfectly', () => {
+  const result = chiSquareUniform([25, 25, 25, 25]);
+  assert.equal(result.statistic, 0);
+  assert.equal(result.df, 3);
+  assert.equal(result.pValue, 1);
+  assert.equal(result.expected, 25);
+});
+
+test('chiSquareUniform: a lopsided split is unlikely', () => {
+  // Two categories expecting 20 each: statistic 10 on 1 df, p = erfc(√5)
+  const result = chiSquareUniform([30, 10]);
+  close(result.statistic, 10);
+  assert.equal(result.df, 1);
+  close(result.pValue, 0.0015654022580025, 1e-9);
+});
+
+test('chiSquare compares against uneven expected counts', () => {
+  const fits = chiSquare([50, 30, 20], [50, 30, 20]);
+  assert.equal(fits.statistic, 0);
+  assert.equal(fits.expected, 20);
+  const misses = chiSquare([20, 30, 50], [50, 30, 20]);
+  assert.ok(misses.pValue < 1e-6);
+});
+
+test('chiSquare leaves out categories nothing is expected in', () => {
+  const result = chiSquare([10, 0, 10], [10, 0, 10]);
+  assert.equal(result.df, 1);
+  assert.equal(result.expected, 10);
+  assert.deepEqual(chiSquare([5], [5]), { statistic: 0, df: 0, pValue: 1, expected: 5 });
+});
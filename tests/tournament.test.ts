@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Entrant } from '../types';
+import { createTournament, currentHeat, recordHeatResult } from '../services/tournament';
+
+const entrant = (id: string, continent?: string): Entrant => ({ id, name: id.toUpperCase(), continent });
+
+test('a continent one over the heat size is not split into a heat of one', () => {
+  const entrants = [entrant('a', 'Europe'), entrant('b', 'Europe'), entrant('c', 'Europe'), entrant('d', 'Asia'), entrant('e', 'Asia')];
+  const t = createTournament(entrants, { grouping: 'continent', heatSize: 2, advance: 1 }, 7);
+  const sizes = t.stages[0].heats.map(h => h.entrants.length);
+  assert.deepEqual(sizes.sort(), [2, 3]);
+});
+
+test('random heats never leave an entrant alone', () => {
+  for (let n = 3; n <= 12; n++) {
+    const entrants = Array.from({ length: n }, (_, i) => entrant(`e${i}`));
+    const t = createTournament(entrants, { grouping: 'random', heatSize: 2, advance: 1 }, n);
+    assert.ok(t.stages[0].heats.every(h => h.entrants.length >= 2), `${n} entrants`);
+  }
+});
+
+test('every stage plays down to a champion', () => {
+  const continents = ['Europe', 'Europe', 'Europe', 'Asia', 'Asia', 'Africa', 'Oceania'];
+  let t = createTournament(continents.map((c, i) => entrant(`e${i}`, c)), { grouping: 'continent', heatSize: 2, advance: 1 }, 3);
+  for (let ref = currentHeat(t); ref; ref = currentHeat(t)) {
+    assert.ok(ref.heat.entrants.length >= 2, `${ref.stage.name} ${ref.heat.name}`);
+    t = recordHeatResult(t, ref.heat.entrants);
+  }
+  assert.ok(t.champion);
+});
@@ -1,3 +1,5 @@
+import type { FlagEffects } from './engine/entities';
+
 export type FlagStatus = 'active' | 'exiting' | 'eliminated' | 'winner';
 
 export interface PhysicsState {
@@ -7,11 +9,36 @@ export interface PhysicsState {
   vy: number;
   angle: number; // visual rotation of the flag itself
   vAngle: number; // rotational velocity
+  // Pose at the previous physics tick, used to interpolate between ticks when rendering
+  prevX: number;
+  prevY: number;
+  prevAngle: number;
 }
 
-export interface CountryFlag {
-  code: string;
+// Anything that can take part in a round: a country, a viewer, a team, a logo.
+// `id` is an opaque key (used by the leaderboard and replays), never assumed
+// to be a country code.
+export interface Entrant {
+  id: string;
   name: string;
+  image?: string;     // Image URL or data URI, wins over `country`
+  country?: string;   // ISO 3166-1 alpha-2 code of a bundled flag to show
+  continent?: string;
+  subregion?: string;
+}
+
+export interface EntrantFlag extends Entrant {
   status: FlagStatus;
+  layer: number; // Index of the ring the flag is currently inside (0 = innermost)
   physics: PhysicsState;
-}
\ No newline at end of file
+  effects: FlagEffects; // Powers from arena pickups
+}
+
+// Recorded the moment a flag escapes through the gap
+export interface EliminationEvent {
+  id: string;
+  name: string;
+  place: number;     // Finishing position, e.g. 12 for 12th
+  time: number;      // ms since the round started (simulated time)
+  ringAngle: number; // Ring rotation in degrees when the flag escaped
+}
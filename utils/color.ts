@@ -0,0 +1,31 @@
+// Small hex colour helpers for the themes: Tailwind reads palette colours as
+// "r g b" triples so its opacity modifiers keep working, and the canvas
+// renderer needs the same colours with an alpha.
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_PATTERN.test(value.trim());
+
+// "#22d3ee" or "#2de" -> [34, 211, 238]
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const digits = hex.trim().slice(1);
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  const n = parseInt(full, 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map(c => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('')}`;
+
+// "#22d3ee" -> "34 211 238", for rgb(var(--x) / <alpha>)
+export const rgbTriple = (hex: string) => hexToRgb(hex).join(' ');
+
+export const withAlpha = (hex: string, alpha: number) => `rgba(${hexToRgb(hex).join(',')},${alpha})`;
+
+// Linear blend in sRGB, t = 0 gives `a`
+export const mixHex = (a: string, b: string, t: number) => {
+  const from = hexToRgb(a);
+  const to = hexToRgb(b);
+  return toHex(from.map((c, i) => c + (to[i] - c) * t));
+};
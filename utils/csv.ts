@@ -0,0 +1,53 @@
+// Minimal RFC 4180 style CSV helpers shared by the leaderboard and roster imports
+
+export const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Every row of a CSV document, honouring quotes and doubled "" escapes. A
+// quoted cell may span lines, as csvCell writes names containing a newline.
+const parseCsv = (text: string) => {
+  const rows: { cells: string[]; blank: boolean }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let sawQuote = false;
+
+  const endRow = () => {
+    cells.push(cell);
+    rows.push({ cells, blank: !sawQuote && cells.length === 1 && cell.trim() === '' });
+    cells = [];
+    cell = '';
+    sawQuote = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+      sawQuote = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+// Split one line into cells
+export const parseCsvLine = (line: string) => parseCsv(line)[0].cells;
+
+// Non-empty rows of a CSV document, split into cells
+export const parseCsvRows = (text: string) =>
+  parseCsv(text).filter(row => !row.blank).map(row => row.cells);
@@ -0,0 +1,34 @@
+// Minimal typed publish/subscribe. `Events` maps each event name to its
+// payload, so handlers and emitters are checked against the same shape.
+
+export type EventHandler<T> = (payload: T) => void;
+
+export interface EventBus<Events> {
+  on: <K extends keyof Events>(type: K, handler: EventHandler<Events[K]>) => () => void; // Returns unsubscribe
+  emit: <K extends keyof Events>(type: K, payload: Events[K]) => void;
+}
+
+export const createEventBus = <Events>(): EventBus<Events> => {
+  const handlers = new Map<keyof Events, Set<EventHandler<never>>>();
+
+  return {
+    on: (type, handler) => {
+      const set = handlers.get(type) ?? new Set();
+      set.add(handler as EventHandler<never>);
+      handlers.set(type, set);
+      return () => {
+        set.delete(handler as EventHandler<never>);
+      };
+    },
+    // A failing subscriber is reported and skipped; the others still run
+    emit: (type, payload) => {
+      [...(handlers.get(type) ?? [])].forEach(handler => {
+        try {
+          (handler as EventHandler<typeof payload>)(payload);
+        } catch (err) {
+          console.warn(`Handler for "${String(type)}" failed`, err);
+        }
+      });
+    }
+  };
+};
@@ -0,0 +1,90 @@
+// Small statistics helpers for the fairness report (scripts/fairness.ts).
+
+// Value at fraction `p` (0..1) of an ascending array, linearly interpolated
+export const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return NaN;
+  const at = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lo = Math.floor(at);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (at - lo);
+};
+
+// ln Γ(x) for x > 0 (Lanczos approximation, g = 7)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7
+];
+
+export const lnGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 1000;
+
+// Regularised upper incomplete gamma Q(a, x) = Γ(a, x) / Γ(a): a series below
+// x = a + 1, a continued fraction above it (where each converges quickly)
+export const upperGamma = (a: number, x: number) => {
+  if (x <= 0) return 1;
+  const prefix = Math.exp(-x + a * Math.log(x) - lnGamma(a));
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * prefix);
+  }
+
+  // Modified Lentz
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.min(1, prefix * h);
+};
+
+export interface ChiSquareResult {
+  statistic: number;
+  df: number;
+  pValue: number;   // Chance of a deviation at least this large if the counts really follow `expected`
+  expected: number; // Smallest expected count of any category
+}
+
+// Pearson's chi-square goodness of fit of observed `counts` against
+// `expected` counts. Categories nothing is expected in are left out.
+export const chiSquare = (counts: number[], expected: number[]): ChiSquareResult => {
+  const used = counts.map((n, i) => [n, expected[i] ?? 0]).filter(([, e]) => e > 0);
+  const df = used.length - 1;
+  const smallest = used.length > 0 ? Math.min(...used.map(([, e]) => e)) : 0;
+  if (df < 1) return { statistic: 0, df: Math.max(0, df), pValue: 1, expected: smallest };
+  const statistic = used.reduce((sum, [n, e]) => sum + (n - e) ** 2 / e, 0);
+  return { statistic, df, pValue: upperGamma(df / 2, statistic / 2), expected: smallest };
+};
+
+// Against equal counts in every category
+export const chiSquareUniform = (counts: number[]): ChiSquareResult => {
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  return chiSquare(counts, counts.map(() => (counts.length > 0 ? total / counts.length : 0)));
+};